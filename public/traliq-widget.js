@@ -0,0 +1,478 @@
+/**
+ * Traliq.ai website chat widget
+ *
+ * Embed with:
+ *   <script src="https://<app-host>/traliq-widget.js" data-namespace="<business-namespace>"
+ *           data-api-url="<api-url>" defer></script>
+ *
+ * Optional attributes override the saved bot configuration:
+ *   data-color, data-greeting, data-bot-name, data-avatar-url, data-position ("left" | "right")
+ *
+ * The widget renders inside a shadow root so host page styles can't leak in (and ours can't leak out).
+ * Outside the business hours it shows the bot's offline message and a contact form instead of the chat.
+ */
+(function () {
+  'use strict';
+
+  if (window.TraliqWidget) return;
+
+  var script = document.currentScript;
+  if (!script) return;
+
+  var namespace = script.getAttribute('data-namespace');
+  if (!namespace) {
+    console.error('[Traliq] Missing data-namespace attribute on the widget script');
+    return;
+  }
+
+  var apiUrl = (script.getAttribute('data-api-url') || new URL(script.src).origin).replace(/\/$/, '');
+  var overrides = {
+    primary_color: script.getAttribute('data-color'),
+    greeting_message: script.getAttribute('data-greeting'),
+    bot_name: script.getAttribute('data-bot-name'),
+    avatar_url: script.getAttribute('data-avatar-url'),
+  };
+  var position = script.getAttribute('data-position') === 'left' ? 'left' : 'right';
+
+  var DEFAULTS = {
+    bot_name: 'Assistant',
+    greeting_message: 'Hi! How can I help you today?',
+    fallback_message: "Sorry, I couldn't process that. Please try again.",
+    offline_message: "We're currently offline. Leave your details and we'll get back to you.",
+    primary_color: '#2563eb',
+    avatar_url: '',
+  };
+
+  var STORAGE_PREFIX = 'traliq_widget_' + namespace + '_';
+
+  // Storage can throw in sandboxed iframes or with cookies disabled
+  function readStorage(storage, key) {
+    try {
+      return storage.getItem(STORAGE_PREFIX + key);
+    } catch {
+      return null;
+    }
+  }
+
+  function writeStorage(storage, key, value) {
+    try {
+      storage.setItem(STORAGE_PREFIX + key, value);
+    } catch {
+      /* ignore */
+    }
+  }
+
+  function createId() {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+  }
+
+  var sessionId = readStorage(localStorage, 'session_id');
+  if (!sessionId) {
+    sessionId = createId();
+    writeStorage(localStorage, 'session_id', sessionId);
+  }
+  var conversationId = readStorage(sessionStorage, 'conversation_id');
+
+  function merge(base, extra) {
+    var result = {};
+    var key;
+    for (key in base) result[key] = base[key];
+    for (key in extra) {
+      if (extra[key] !== null && extra[key] !== undefined && extra[key] !== '') result[key] = extra[key];
+    }
+    return result;
+  }
+
+  function isValidColor(value) {
+    return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value || '');
+  }
+
+  function fetchBotConfig() {
+    return fetch(apiUrl + '/api/v1/chatbot/config/' + encodeURIComponent(namespace))
+      .then(function (response) {
+        if (!response.ok) throw new Error('HTTP ' + response.status);
+        return response.json();
+      })
+      .then(function (data) {
+        return (data && data.config) || {};
+      })
+      .catch(function (error) {
+        console.warn('[Traliq] Could not load bot configuration, using defaults', error);
+        return {};
+      });
+  }
+
+  // Business hours and timezone; null (treated as always open) when unavailable
+  function fetchAvailability() {
+    return fetch(apiUrl + '/api/v1/chatbot/availability/' + encodeURIComponent(namespace))
+      .then(function (response) {
+        if (!response.ok) throw new Error('HTTP ' + response.status);
+        return response.json();
+      })
+      .then(function (data) {
+        return data && data.business_hours ? data : null;
+      })
+      .catch(function (error) {
+        console.warn('[Traliq] Could not load business hours, staying online', error);
+        return null;
+      });
+  }
+
+  var WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+  function toMinutes(time) {
+    var parts = (time || '').split(':');
+    var hours = Number(parts[0]);
+    var minutes = Number(parts[1]);
+    return parts.length === 2 && isFinite(hours) && isFinite(minutes) ? hours * 60 + minutes : null;
+  }
+
+  function zonedTime(timezone, date) {
+    var parts;
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone || 'UTC',
+        weekday: 'long',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+    } catch {
+      return zonedTime('UTC', date);
+    }
+    var values = {};
+    parts.forEach(function (part) {
+      values[part.type] = part.value;
+    });
+    return {
+      weekday: (values.weekday || '').toLowerCase(),
+      date: values.year + '-' + values.month + '-' + values.day,
+      minutes: Number(values.hour) * 60 + Number(values.minute),
+    };
+  }
+
+  // Mirrors isBusinessOpen in src/lib/business-hours.ts
+  function isBusinessOpen(hours, timezone, date) {
+    var now = zonedTime(timezone, date);
+    var holidays = Array.isArray(hours.holidays) ? hours.holidays : [];
+    var schedule = null;
+    for (var i = 0; i < holidays.length; i++) {
+      if (holidays[i].date === now.date) schedule = holidays[i];
+    }
+    schedule = schedule || hours[now.weekday];
+
+    var open;
+    var close;
+    if (schedule && schedule.isOpen) {
+      open = toMinutes(schedule.open);
+      close = toMinutes(schedule.close);
+      if (open !== null && close !== null) {
+        if (close > open ? now.minutes >= open && now.minutes < close : now.minutes >= open) return true;
+      }
+    }
+
+    // Still inside yesterday's overnight shift
+    var previous = hours[WEEKDAYS[(WEEKDAYS.indexOf(now.weekday) + 6) % 7]];
+    if (previous && previous.isOpen) {
+      open = toMinutes(previous.open);
+      close = toMinutes(previous.close);
+      if (open !== null && close !== null && close <= open && now.minutes < close) return true;
+    }
+
+    return false;
+  }
+
+  // Public lead endpoint; same payload as leadsAPI.captureLead (PublicLeadCreate) in the dashboard
+  function captureLead(details) {
+    var body = merge({
+      name: details.name,
+      email: details.email,
+      phone: details.phone,
+      notes: details.message,
+    }, {
+      business_namespace: namespace,
+      source_conversation_id: conversationId,
+      source_channel: 'website',
+    });
+
+    return fetch(apiUrl + '/api/v1/chatbot/leads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }).then(function (response) {
+      if (!response.ok) throw new Error('HTTP ' + response.status);
+      return response.json();
+    });
+  }
+
+  function sendMessage(message) {
+    var body = {
+      message: message,
+      business_namespace: namespace,
+      session_id: sessionId,
+      channel: 'website',
+    };
+    if (conversationId) body.conversation_id = conversationId;
+
+    return fetch(apiUrl + '/api/v1/chatbot/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }).then(function (response) {
+      if (!response.ok) throw new Error('HTTP ' + response.status);
+      return response.json();
+    });
+  }
+
+  var STYLES = [
+    ':host { all: initial; }',
+    '* { box-sizing: border-box; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }',
+    '.root { position: fixed; bottom: 20px; z-index: 2147483000; display: flex; flex-direction: column; gap: 12px; }',
+    '.root.right { right: 20px; align-items: flex-end; }',
+    '.root.left { left: 20px; align-items: flex-start; }',
+    '.bubble { width: 56px; height: 56px; border-radius: 50%; border: none; cursor: pointer; color: #fff;',
+    '  background: var(--primary); box-shadow: 0 4px 14px rgba(0,0,0,0.25); display: flex; align-items: center; justify-content: center; }',
+    '.bubble svg { width: 26px; height: 26px; }',
+    '.panel { width: 360px; max-width: calc(100vw - 40px); height: 520px; max-height: calc(100vh - 110px);',
+    '  background: #fff; color: #111827; border-radius: 16px; box-shadow: 0 10px 40px rgba(0,0,0,0.2);',
+    '  display: none; flex-direction: column; overflow: hidden; }',
+    '.panel.open { display: flex; }',
+    '.header { background: var(--primary); color: #fff; padding: 14px 16px; display: flex; align-items: center; gap: 10px; }',
+    '.avatar { width: 32px; height: 32px; border-radius: 50%; background: rgba(255,255,255,0.25); object-fit: cover;',
+    '  display: flex; align-items: center; justify-content: center; font-weight: 600; font-size: 14px; }',
+    '.title { font-weight: 600; font-size: 15px; flex: 1; }',
+    '.close { background: none; border: none; color: #fff; cursor: pointer; font-size: 20px; line-height: 1; }',
+    '.messages { flex: 1; overflow-y: auto; padding: 16px; display: flex; flex-direction: column; gap: 8px; background: #f9fafb; }',
+    '.message { max-width: 80%; padding: 8px 12px; border-radius: 12px; font-size: 14px; line-height: 1.4; white-space: pre-wrap; word-wrap: break-word; }',
+    '.message.bot { background: #fff; border: 1px solid #e5e7eb; align-self: flex-start; }',
+    '.message.user { background: var(--primary); color: #fff; align-self: flex-end; }',
+    '.message.error { color: #b91c1c; }',
+    '.typing { font-size: 12px; color: #6b7280; align-self: flex-start; }',
+    '.form { display: flex; gap: 8px; padding: 12px; border-top: 1px solid #e5e7eb; background: #fff; }',
+    '.input { flex: 1; border: 1px solid #d1d5db; border-radius: 8px; padding: 8px 10px; font-size: 14px; outline: none; color: #111827; }',
+    '.input:focus { border-color: var(--primary); }',
+    '.send { background: var(--primary); color: #fff; border: none; border-radius: 8px; padding: 0 14px; font-size: 14px; cursor: pointer; }',
+    '.send:disabled { opacity: 0.5; cursor: default; }',
+    '.lead-form { display: none; flex-direction: column; gap: 8px; padding: 12px; border-top: 1px solid #e5e7eb; background: #fff; }',
+    '.lead-form.visible { display: flex; }',
+    '.lead-form .send { padding: 8px 14px; }',
+    '.form.hidden { display: none; }',
+    '.footer { text-align: center; font-size: 11px; color: #9ca3af; padding: 0 0 8px; background: #fff; }',
+  ].join('\n');
+
+  var CHAT_ICON = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>';
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function mount(botConfig, availability) {
+    var settings = merge(merge(DEFAULTS, botConfig), overrides);
+    var color = isValidColor(settings.primary_color) ? settings.primary_color : DEFAULTS.primary_color;
+
+    var host = el('div');
+    host.id = 'traliq-widget';
+    document.body.appendChild(host);
+    var shadow = host.attachShadow({ mode: 'open' });
+
+    var style = el('style');
+    style.textContent = STYLES;
+    shadow.appendChild(style);
+
+    var root = el('div', 'root ' + position);
+    root.style.setProperty('--primary', color);
+    shadow.appendChild(root);
+
+    // Panel
+    var panel = el('div', 'panel');
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-label', settings.bot_name);
+
+    var header = el('div', 'header');
+    var avatar;
+    if (settings.avatar_url) {
+      avatar = el('img', 'avatar');
+      avatar.src = settings.avatar_url;
+      avatar.alt = '';
+    } else {
+      avatar = el('div', 'avatar', settings.bot_name.charAt(0).toUpperCase());
+    }
+    var closeButton = el('button', 'close', '×');
+    closeButton.setAttribute('aria-label', 'Close chat');
+    header.appendChild(avatar);
+    header.appendChild(el('div', 'title', settings.bot_name));
+    header.appendChild(closeButton);
+
+    var messages = el('div', 'messages');
+    var form = el('form', 'form');
+    var input = el('input', 'input');
+    input.placeholder = 'Type a message...';
+    input.setAttribute('aria-label', 'Message');
+    var sendButton = el('button', 'send', 'Send');
+    sendButton.type = 'submit';
+    form.appendChild(input);
+    form.appendChild(sendButton);
+
+    // Contact form shown instead of the chat while the business is closed
+    var leadForm = el('form', 'lead-form');
+    var leadFields = {};
+    [
+      { name: 'name', placeholder: 'Your name', type: 'text' },
+      { name: 'email', placeholder: 'Email', type: 'email' },
+      { name: 'phone', placeholder: 'Phone (optional)', type: 'tel' },
+      { name: 'message', placeholder: 'How can we help?', type: 'text' },
+    ].forEach(function (field) {
+      var fieldInput = el('input', 'input');
+      fieldInput.type = field.type;
+      fieldInput.placeholder = field.placeholder;
+      fieldInput.setAttribute('aria-label', field.placeholder);
+      leadFields[field.name] = fieldInput;
+      leadForm.appendChild(fieldInput);
+    });
+    var leadButton = el('button', 'send', 'Send details');
+    leadButton.type = 'submit';
+    leadForm.appendChild(leadButton);
+
+    panel.appendChild(header);
+    panel.appendChild(messages);
+    panel.appendChild(form);
+    panel.appendChild(leadForm);
+    panel.appendChild(el('div', 'footer', 'Powered by Traliq.ai'));
+
+    // Launcher bubble
+    var bubble = el('button', 'bubble');
+    bubble.setAttribute('aria-label', 'Open chat');
+    bubble.innerHTML = CHAT_ICON;
+
+    root.appendChild(panel);
+    root.appendChild(bubble);
+
+    function addMessage(text, sender, isError) {
+      var node = el('div', 'message ' + sender + (isError ? ' error' : ''), text);
+      messages.appendChild(node);
+      messages.scrollTop = messages.scrollHeight;
+      return node;
+    }
+
+    var greeted = false;
+    var isSending = false;
+    var leadSent = false;
+
+    function isOffline() {
+      return !!availability && !isBusinessOpen(availability.business_hours, availability.timezone, new Date());
+    }
+
+    function open() {
+      panel.classList.add('open');
+      var offline = isOffline();
+      if (!greeted) {
+        addMessage(offline ? settings.offline_message : settings.greeting_message, 'bot');
+        greeted = true;
+      }
+      form.classList.toggle('hidden', offline);
+      leadForm.classList.toggle('visible', offline && !leadSent);
+      if (offline) {
+        if (!leadSent) leadFields.name.focus();
+      } else {
+        input.focus();
+      }
+    }
+
+    function close() {
+      panel.classList.remove('open');
+    }
+
+    function toggle() {
+      if (panel.classList.contains('open')) close();
+      else open();
+    }
+
+    bubble.addEventListener('click', toggle);
+    closeButton.addEventListener('click', close);
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var text = input.value.trim();
+      if (!text || isSending) return;
+
+      addMessage(text, 'user');
+      input.value = '';
+      isSending = true;
+      sendButton.disabled = true;
+      var typing = el('div', 'typing', settings.bot_name + ' is typing...');
+      messages.appendChild(typing);
+      messages.scrollTop = messages.scrollHeight;
+
+      sendMessage(text)
+        .then(function (response) {
+          if (response.conversation_id) {
+            conversationId = response.conversation_id;
+            writeStorage(sessionStorage, 'conversation_id', conversationId);
+          }
+          addMessage(response.response || settings.fallback_message, 'bot');
+        })
+        .catch(function (error) {
+          console.error('[Traliq] Failed to send message', error);
+          addMessage(settings.fallback_message, 'bot', true);
+        })
+        .then(function () {
+          typing.remove();
+          isSending = false;
+          sendButton.disabled = false;
+          input.focus();
+        });
+    });
+
+    leadForm.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var details = {
+        name: leadFields.name.value.trim(),
+        email: leadFields.email.value.trim(),
+        phone: leadFields.phone.value.trim(),
+        message: leadFields.message.value.trim(),
+      };
+      if (!details.email && !details.phone) {
+        leadFields.email.focus();
+        return;
+      }
+
+      leadButton.disabled = true;
+      captureLead(details)
+        .then(function () {
+          leadSent = true;
+          leadForm.classList.remove('visible');
+          addMessage("Thanks! We'll get back to you as soon as we're open.", 'bot');
+        })
+        .catch(function (error) {
+          console.error('[Traliq] Failed to send contact details', error);
+          addMessage("Sorry, we couldn't send your details. Please try again.", 'bot', true);
+        })
+        .then(function () {
+          leadButton.disabled = false;
+        });
+    });
+
+    window.TraliqWidget = { open: open, close: close, toggle: toggle };
+  }
+
+  // Reserve the global immediately so a duplicate snippet doesn't mount twice
+  window.TraliqWidget = { open: function () {}, close: function () {}, toggle: function () {} };
+
+  function start() {
+    Promise.all([fetchBotConfig(), fetchAvailability()]).then(function (results) {
+      mount(results[0], results[1]);
+    });
+  }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', start);
+  } else {
+    start();
+  }
+})();
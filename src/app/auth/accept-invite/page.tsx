@@ -0,0 +1,184 @@
+"use client"
+
+export const dynamic = "force-dynamic"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Loader2, Users, AlertTriangle } from "lucide-react"
+import { toast } from "sonner"
+
+import { AuthLayout } from "@/components/auth-layout"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useAuth, PENDING_INVITATION_KEY } from "@/contexts/auth-context"
+import { storeBusinessId } from "@/contexts/business-context"
+import { businessAPI, InvitationDetails } from "@/lib/business-api"
+
+export default function AcceptInvitePage() {
+  const router = useRouter()
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth()
+  const [token, setToken] = useState("")
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAccepting, setIsAccepting] = useState(false)
+  const [error, setError] = useState("")
+
+  // Read the token query param on the client — avoids useSearchParams SSR/Suspense issues.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const tokenParam = params.get("token") || sessionStorage.getItem(PENDING_INVITATION_KEY) || ""
+    setToken(tokenParam)
+    if (!tokenParam) {
+      setError("This invitation link is missing its token.")
+      setIsLoading(false)
+    }
+  }, [])
+
+  const loadInvitation = useCallback(async () => {
+    if (!token) return
+
+    try {
+      setIsLoading(true)
+      setError("")
+      const response = await businessAPI.getInvitation(token)
+      setInvitation(response.invitation)
+
+      if (response.invitation.status !== "pending") {
+        sessionStorage.removeItem(PENDING_INVITATION_KEY)
+      }
+    } catch (err) {
+      console.error("Error loading invitation:", err)
+      setError(err instanceof Error ? err.message : "This invitation is invalid or has expired.")
+      sessionStorage.removeItem(PENDING_INVITATION_KEY)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadInvitation()
+  }, [loadInvitation])
+
+  // Remember the token so login/signup can bring the user back here
+  const rememberInvitation = () => {
+    sessionStorage.setItem(PENDING_INVITATION_KEY, token)
+  }
+
+  const handleAccept = async () => {
+    try {
+      setIsAccepting(true)
+      const response = await businessAPI.acceptInvitation(token)
+      sessionStorage.removeItem(PENDING_INVITATION_KEY)
+
+      if (response.business) {
+        storeBusinessId(response.business.id)
+      }
+
+      toast.success(`You joined ${invitation?.business_name || "the business"}`)
+      router.push("/dashboard")
+    } catch (err) {
+      console.error("Error accepting invitation:", err)
+      const errorMessage = err instanceof Error ? err.message : "Failed to accept invitation"
+      setError(errorMessage)
+      toast.error("Couldn't accept invitation", { description: errorMessage })
+    } finally {
+      setIsAccepting(false)
+    }
+  }
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <AuthLayout title="Team invitation" subtitle="Checking your invitation...">
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </AuthLayout>
+    )
+  }
+
+  if (error && !invitation) {
+    return (
+      <AuthLayout title="Invitation unavailable" subtitle="We couldn't open this invitation" showBackToLogin={true}>
+        <Alert className="border-destructive/50 text-destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </AuthLayout>
+    )
+  }
+
+  if (!invitation) return null
+
+  if (invitation.status !== "pending") {
+    return (
+      <AuthLayout title="Invitation unavailable" subtitle={`This invitation has ${invitation.status === "accepted" ? "already been accepted" : `been ${invitation.status}`}`} showBackToLogin={true}>
+        <p className="text-sm text-muted-foreground text-center">
+          Ask a team admin at {invitation.business_name} to send you a new invitation.
+        </p>
+      </AuthLayout>
+    )
+  }
+
+  const emailMismatch = !!user && user.email.toLowerCase() !== invitation.email.toLowerCase()
+
+  return (
+    <AuthLayout
+      title={`Join ${invitation.business_name}`}
+      subtitle={`${invitation.invited_by_name || "A team admin"} invited you as ${invitation.role === "admin" ? "an admin" : "a member"}`}
+    >
+      <div className="space-y-6">
+        <div className="flex justify-center">
+          <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+            <Users className="w-6 h-6 text-primary" />
+          </div>
+        </div>
+
+        <div className="text-center space-y-1">
+          <p className="text-sm text-muted-foreground">Invitation sent to</p>
+          <p className="font-medium text-card-foreground">{invitation.email}</p>
+          <p className="text-xs text-muted-foreground">
+            Expires {new Date(invitation.expires_at).toLocaleDateString()}
+          </p>
+        </div>
+
+        {error && (
+          <Alert className="border-destructive/50 text-destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isAuthenticated ? (
+          <>
+            {emailMismatch && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  You&apos;re signed in as {user?.email}. The invitation will be added to this account.
+                </AlertDescription>
+              </Alert>
+            )}
+            <Button onClick={handleAccept} disabled={isAccepting} className="w-full h-12">
+              {isAccepting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Joining...
+                </>
+              ) : (
+                "Accept invitation"
+              )}
+            </Button>
+          </>
+        ) : (
+          <div className="space-y-3">
+            <Button asChild className="w-full h-12" onClick={rememberInvitation}>
+              <Link href="/auth/login">Sign in to accept</Link>
+            </Button>
+            <Button asChild variant="outline" className="w-full h-12" onClick={rememberInvitation}>
+              <Link href="/auth/signup">Create an account</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,406 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from "react";
+import Link from "next/link";
+import { differenceInCalendarDays, format, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+    ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from "@/components/ui/chart";
+import { toast } from "sonner";
+import { useBusiness } from "@/contexts/business-context";
+import { analyticsAPI, AnalyticsGranularity, AnalyticsReport } from "@/lib/analytics-api";
+import { toCsv, downloadCsv, CsvColumn } from "@/lib/csv";
+import {
+    BarChart3,
+    CalendarIcon,
+    CheckCircle,
+    Clock,
+    Download,
+    ExternalLink,
+    Gauge,
+    MessageSquare,
+    MessagesSquare,
+} from "lucide-react";
+
+const RANGE_PRESETS = [
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+    { label: '90 days', days: 90 },
+];
+
+const volumeChartConfig = {
+    user_messages: { label: 'Customer messages', color: 'var(--chart-1)' },
+    bot_messages: { label: 'Bot replies', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+const channelChartConfig = {
+    conversations: { label: 'Conversations', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const resolutionChartConfig = {
+    resolution_rate: { label: 'Resolution rate', color: 'var(--chart-2)' },
+    escalation_rate: { label: 'Escalation rate', color: 'var(--chart-5)' },
+} satisfies ChartConfig;
+
+const confidenceChartConfig = {
+    avg_confidence: { label: 'Avg confidence', color: 'var(--chart-4)' },
+} satisfies ChartConfig;
+
+const processingChartConfig = {
+    p50_ms: { label: 'p50', color: 'var(--chart-1)' },
+    p90_ms: { label: 'p90', color: 'var(--chart-3)' },
+    p99_ms: { label: 'p99', color: 'var(--chart-5)' },
+} satisfies ChartConfig;
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const formatAxisDate = (value: string) => format(new Date(`${value}T00:00:00`), 'MMM d');
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`);
+
+// Weekly buckets keep long ranges readable
+const granularityFor = (range: { from: Date; to: Date }): AnalyticsGranularity =>
+    differenceInCalendarDays(range.to, range.from) > 92 ? 'week' : 'day';
+
+interface ChartCardProps {
+    title: string;
+    description: string;
+    onExport: () => void;
+    isEmpty: boolean;
+    className?: string;
+    children: ReactNode;
+}
+
+const ChartCard = ({ title, description, onExport, isEmpty, className, children }: ChartCardProps) => (
+    <Card className={`bg-card border-border ${className || ''}`}>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+                <CardTitle className="text-card-foreground">{title}</CardTitle>
+                <CardDescription>{description}</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" className="gap-2" onClick={onExport} disabled={isEmpty}>
+                <Download className="h-4 w-4" />
+                CSV
+            </Button>
+        </CardHeader>
+        <CardContent>
+            {isEmpty ? (
+                <div className="flex items-center justify-center h-[250px] text-sm text-muted-foreground">
+                    No data for this date range
+                </div>
+            ) : children}
+        </CardContent>
+    </Card>
+);
+
+const AnalyticsPage = () => {
+    const { currentBusiness } = useBusiness();
+    const [report, setReport] = useState<AnalyticsReport | null>(null);
+    const [isLoadingReport, setIsLoadingReport] = useState(false);
+
+    const [dateRange, setDateRange] = useState<DateRange>(() => ({
+        from: subDays(new Date(), 29),
+        to: new Date(),
+    }));
+
+    const loadReport = useCallback(async () => {
+        if (!currentBusiness || !dateRange.from || !dateRange.to) return;
+
+        try {
+            setIsLoadingReport(true);
+            const response = await analyticsAPI.getReport(currentBusiness.namespace, {
+                start_date: toIsoDate(dateRange.from),
+                end_date: toIsoDate(dateRange.to),
+                granularity: granularityFor({ from: dateRange.from, to: dateRange.to }),
+            });
+            setReport(response.report);
+        } catch (err) {
+            console.error('Error loading analytics:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to load analytics');
+        } finally {
+            setIsLoadingReport(false);
+        }
+    }, [currentBusiness, dateRange]);
+
+    useEffect(() => {
+        loadReport();
+    }, [loadReport]);
+
+    const resolutionData = useMemo(() => (report?.resolution || []).map(point => ({
+        ...point,
+        resolution_rate: point.total ? point.resolved / point.total : 0,
+        escalation_rate: point.total ? point.escalated / point.total : 0,
+    })), [report]);
+
+    const rangeSuffix = dateRange.from && dateRange.to
+        ? `${toIsoDate(dateRange.from)}_${toIsoDate(dateRange.to)}`
+        : 'range';
+
+    const exportCsv = <T,>(name: string, rows: T[], columns: CsvColumn<T>[]) => {
+        downloadCsv(`${name}-${rangeSuffix}.csv`, toCsv(rows, columns));
+    };
+
+    const applyPreset = (days: number) => {
+        setDateRange({ from: subDays(new Date(), days - 1), to: new Date() });
+    };
+
+    const summaryCards = [
+        { title: 'Messages', value: (report?.summary.total_messages ?? 0).toLocaleString(), icon: MessageSquare },
+        { title: 'Conversations', value: (report?.summary.total_conversations ?? 0).toLocaleString(), icon: MessagesSquare },
+        { title: 'Resolution Rate', value: formatPercent(report?.summary.resolution_rate ?? 0), icon: CheckCircle },
+        { title: 'Avg Confidence', value: formatPercent(report?.summary.avg_confidence ?? 0), icon: Gauge },
+        { title: 'Median Response', value: formatMs(report?.summary.p50_processing_time_ms ?? 0), icon: Clock },
+    ];
+
+    return (
+        <div className="space-y-8 p-6">
+            {/* Header Section */}
+            <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                        Analytics
+                    </h1>
+                    <p className="text-muted-foreground mt-2">
+                        How your chatbot is performing for {currentBusiness?.name || 'your business'}
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    {RANGE_PRESETS.map(preset => (
+                        <Button key={preset.days} variant="outline" size="sm" onClick={() => applyPreset(preset.days)}>
+                            {preset.label}
+                        </Button>
+                    ))}
+                    <Popover>
+                        <PopoverTrigger asChild>
+                            <Button variant="outline" size="sm" className="gap-2 min-w-[230px] justify-start">
+                                <CalendarIcon className="h-4 w-4" />
+                                {dateRange.from
+                                    ? dateRange.to
+                                        ? `${format(dateRange.from, 'MMM d, yyyy')} – ${format(dateRange.to, 'MMM d, yyyy')}`
+                                        : format(dateRange.from, 'MMM d, yyyy')
+                                    : 'Pick a date range'}
+                            </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="end">
+                            <Calendar
+                                mode="range"
+                                numberOfMonths={2}
+                                defaultMonth={dateRange.from}
+                                selected={dateRange}
+                                onSelect={(range) => range && setDateRange(range)}
+                                disabled={{ after: new Date() }}
+                            />
+                        </PopoverContent>
+                    </Popover>
+                </div>
+            </div>
+
+            {/* Summary Cards */}
+            <div className={`grid gap-6 md:grid-cols-3 lg:grid-cols-5 ${isLoadingReport ? 'opacity-60' : ''}`}>
+                {summaryCards.map(card => {
+                    const Icon = card.icon;
+                    return (
+                        <Card key={card.title} className="bg-card border-border">
+                            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                                <CardTitle className="text-sm font-medium text-card-foreground">
+                                    {card.title}
+                                </CardTitle>
+                                <Icon className="h-4 w-4 text-muted-foreground" />
+                            </CardHeader>
+                            <CardContent>
+                                <div className="text-2xl font-bold text-card-foreground">{card.value}</div>
+                            </CardContent>
+                        </Card>
+                    );
+                })}
+            </div>
+
+            {!report && !isLoadingReport ? (
+                <Card className="bg-card border-border">
+                    <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+                        <BarChart3 className="h-10 w-10 text-muted-foreground mb-4" />
+                        <p className="text-muted-foreground mb-4">Analytics couldn&apos;t be loaded for this date range.</p>
+                        <Button variant="outline" onClick={loadReport}>Try Again</Button>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className={`grid gap-6 lg:grid-cols-2 ${isLoadingReport ? 'opacity-60' : ''}`}>
+                    <ChartCard
+                        title="Message Volume"
+                        description="Customer messages and bot replies over time"
+                        className="lg:col-span-2"
+                        isEmpty={!report?.message_volume.length}
+                        onExport={() => exportCsv('message-volume', report?.message_volume || [], [
+                            { header: 'Date', value: row => row.date },
+                            { header: 'Customer messages', value: row => row.user_messages },
+                            { header: 'Bot replies', value: row => row.bot_messages },
+                        ])}
+                    >
+                        <ChartContainer config={volumeChartConfig} className="h-[300px] w-full aspect-auto">
+                            <AreaChart data={report?.message_volume || []} margin={{ left: 0, right: 12 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={formatAxisDate} />
+                                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatAxisDate(String(value))} />} />
+                                <ChartLegend content={<ChartLegendContent />} />
+                                <Area dataKey="user_messages" type="monotone" fill="var(--color-user_messages)" fillOpacity={0.3} stroke="var(--color-user_messages)" stackId="a" />
+                                <Area dataKey="bot_messages" type="monotone" fill="var(--color-bot_messages)" fillOpacity={0.3} stroke="var(--color-bot_messages)" stackId="a" />
+                            </AreaChart>
+                        </ChartContainer>
+                    </ChartCard>
+
+                    <ChartCard
+                        title="Conversations by Channel"
+                        description="Where customers start conversations"
+                        isEmpty={!report?.channels.length}
+                        onExport={() => exportCsv('conversations-by-channel', report?.channels || [], [
+                            { header: 'Channel', value: row => row.channel },
+                            { header: 'Conversations', value: row => row.conversations },
+                        ])}
+                    >
+                        <ChartContainer config={channelChartConfig} className="h-[250px] w-full aspect-auto">
+                            <BarChart data={report?.channels || []} layout="vertical" margin={{ left: 16 }}>
+                                <CartesianGrid horizontal={false} />
+                                <XAxis type="number" tickLine={false} axisLine={false} allowDecimals={false} />
+                                <YAxis type="category" dataKey="channel" tickLine={false} axisLine={false} width={90} />
+                                <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                                <Bar dataKey="conversations" fill="var(--color-conversations)" radius={4} />
+                            </BarChart>
+                        </ChartContainer>
+                    </ChartCard>
+
+                    <ChartCard
+                        title="Resolution Rate"
+                        description="Share of conversations resolved vs. escalated"
+                        isEmpty={!resolutionData.length}
+                        onExport={() => exportCsv('resolution-rate', resolutionData, [
+                            { header: 'Date', value: row => row.date },
+                            { header: 'Conversations', value: row => row.total },
+                            { header: 'Resolved', value: row => row.resolved },
+                            { header: 'Escalated', value: row => row.escalated },
+                            { header: 'Resolution rate', value: row => row.resolution_rate.toFixed(4) },
+                        ])}
+                    >
+                        <ChartContainer config={resolutionChartConfig} className="h-[250px] w-full aspect-auto">
+                            <LineChart data={resolutionData} margin={{ left: 0, right: 12 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={formatAxisDate} />
+                                <YAxis tickLine={false} axisLine={false} width={45} domain={[0, 1]} tickFormatter={(value) => `${Math.round(value * 100)}%`} />
+                                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatAxisDate(String(value))} />} />
+                                <ChartLegend content={<ChartLegendContent />} />
+                                <Line dataKey="resolution_rate" type="monotone" stroke="var(--color-resolution_rate)" strokeWidth={2} dot={false} />
+                                <Line dataKey="escalation_rate" type="monotone" stroke="var(--color-escalation_rate)" strokeWidth={2} dot={false} />
+                            </LineChart>
+                        </ChartContainer>
+                    </ChartCard>
+
+                    <ChartCard
+                        title="Answer Confidence"
+                        description="Average confidence score of bot replies"
+                        isEmpty={!report?.confidence.length}
+                        onExport={() => exportCsv('answer-confidence', report?.confidence || [], [
+                            { header: 'Date', value: row => row.date },
+                            { header: 'Average confidence', value: row => row.avg_confidence.toFixed(4) },
+                        ])}
+                    >
+                        <ChartContainer config={confidenceChartConfig} className="h-[250px] w-full aspect-auto">
+                            <LineChart data={report?.confidence || []} margin={{ left: 0, right: 12 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={formatAxisDate} />
+                                <YAxis tickLine={false} axisLine={false} width={45} domain={[0, 1]} tickFormatter={(value) => `${Math.round(value * 100)}%`} />
+                                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatAxisDate(String(value))} />} />
+                                <Line dataKey="avg_confidence" type="monotone" stroke="var(--color-avg_confidence)" strokeWidth={2} dot={false} />
+                            </LineChart>
+                        </ChartContainer>
+                    </ChartCard>
+
+                    <ChartCard
+                        title="Processing Time"
+                        description="Reply latency percentiles"
+                        isEmpty={!report?.processing_time.length}
+                        onExport={() => exportCsv('processing-time', report?.processing_time || [], [
+                            { header: 'Date', value: row => row.date },
+                            { header: 'p50 (ms)', value: row => row.p50_ms },
+                            { header: 'p90 (ms)', value: row => row.p90_ms },
+                            { header: 'p99 (ms)', value: row => row.p99_ms },
+                        ])}
+                    >
+                        <ChartContainer config={processingChartConfig} className="h-[250px] w-full aspect-auto">
+                            <LineChart data={report?.processing_time || []} margin={{ left: 0, right: 12 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={formatAxisDate} />
+                                <YAxis tickLine={false} axisLine={false} width={55} tickFormatter={(value) => formatMs(Number(value))} />
+                                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatAxisDate(String(value))} />} />
+                                <ChartLegend content={<ChartLegendContent />} />
+                                <Line dataKey="p50_ms" type="monotone" stroke="var(--color-p50_ms)" strokeWidth={2} dot={false} />
+                                <Line dataKey="p90_ms" type="monotone" stroke="var(--color-p90_ms)" strokeWidth={2} dot={false} />
+                                <Line dataKey="p99_ms" type="monotone" stroke="var(--color-p99_ms)" strokeWidth={2} dot={false} />
+                            </LineChart>
+                        </ChartContainer>
+                    </ChartCard>
+
+                    <ChartCard
+                        title="Top Unanswered Questions"
+                        description="Questions the bot couldn't answer confidently — good candidates for new documents"
+                        isEmpty={!report?.unanswered_questions.length}
+                        onExport={() => exportCsv('unanswered-questions', report?.unanswered_questions || [], [
+                            { header: 'Question', value: row => row.question },
+                            { header: 'Times asked', value: row => row.count },
+                            { header: 'Last asked', value: row => row.last_asked_at },
+                            { header: 'Conversation ID', value: row => row.conversation_id },
+                        ])}
+                    >
+                        <div className="max-h-[250px] overflow-y-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Question</TableHead>
+                                        <TableHead className="text-right">Asked</TableHead>
+                                        <TableHead className="w-10" />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {report?.unanswered_questions.map((item, index) => (
+                                        <TableRow key={`${item.question}-${index}`}>
+                                            <TableCell className="max-w-[280px] whitespace-normal text-sm">
+                                                {item.question}
+                                            </TableCell>
+                                            <TableCell className="text-right text-sm">{item.count}</TableCell>
+                                            <TableCell>
+                                                {item.conversation_id && (
+                                                    <Link
+                                                        href={`/dashboard/conversations?conversation=${item.conversation_id}`}
+                                                        className="text-muted-foreground hover:text-foreground"
+                                                        title="Open latest conversation"
+                                                    >
+                                                        <ExternalLink className="h-4 w-4" />
+                                                    </Link>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </ChartCard>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnalyticsPage;
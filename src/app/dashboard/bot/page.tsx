@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -20,31 +20,118 @@ import {
     Palette,
     Shield,
     Camera,
-    Check
+    Check,
+    AlertCircle,
+    SlidersHorizontal,
+    FlaskConical,
+    Loader2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useBusiness } from "@/contexts/business-context";
+import { usePermission } from "@/hooks/use-permission";
+import { useOnboarding } from "@/hooks/use-onboarding";
+import { chatAPI, BotConfig, ChatResponse } from "@/lib/chat-api";
+import { ApiError } from "@/lib/http-client";
+import { Slider } from "@/components/ui/slider";
+import { BotVersionHistory } from "@/components/bot-version-history";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    BOT_CHANNELS,
+    BOT_LANGUAGES,
+    BOT_MODELS,
+    BotConfigFieldErrors,
+    validateBotConfig,
+    DEFAULT_BOT_CONFIG,
+    STYLE_TEMPERATURES,
+    BotTone,
+    FallbackBehavior,
+    toneFromPersonality,
+    styleFromTemperature,
+    withBotConfigDefaults,
+} from "@/lib/bot-config";
+
+type PreviewResult = { response?: ChatResponse; error?: string };
 
-interface BotConfig {
-    name: string;
-    welcomeMessage: string;
-    profileImage: string | null;
-    tone: 'formal' | 'friendly' | 'concise';
-    style: 'professional' | 'casual' | 'playful';
-    fallbackBehavior: 'escalate' | 'generic' | 'contact';
-}
+// Fields the customizer owns; everything else on the backend config is left untouched
+const getEditableFields = (botConfig: BotConfig): Partial<BotConfig> => ({
+    bot_name: botConfig.bot_name,
+    avatar_url: botConfig.avatar_url,
+    primary_color: botConfig.primary_color,
+    greeting_message: botConfig.greeting_message,
+    fallback_message: botConfig.fallback_message,
+    fallback_behavior: botConfig.fallback_behavior,
+    offline_message: botConfig.offline_message,
+    personality: botConfig.personality,
+    temperature: botConfig.temperature,
+    max_tokens: botConfig.max_tokens,
+    model_name: botConfig.model_name,
+    response_delay_ms: botConfig.response_delay_ms,
+    content_filter_enabled: botConfig.content_filter_enabled,
+    languages: botConfig.languages,
+    channels: botConfig.channels,
+});
 
 const BotCustomizer = () => {
-    const [config, setConfig] = useState<BotConfig>({
-        name: "Traliq Assistant",
-        welcomeMessage: "Hello! I'm here to help you with any questions you might have. How can I assist you today?",
-        profileImage: null,
-        tone: 'friendly',
-        style: 'professional',
-        fallbackBehavior: 'generic'
-    });
+    const { currentBusiness } = useBusiness();
+    const canEdit = usePermission('bot:update');
+    const { completeStep } = useOnboarding();
+    const businessNamespace = currentBusiness?.namespace ?? null;
+    const [savedConfig, setSavedConfig] = useState<BotConfig>(DEFAULT_BOT_CONFIG);
+    const [config, setConfig] = useState<BotConfig>(DEFAULT_BOT_CONFIG);
 
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
     const [isUploading, setIsUploading] = useState(false);
     const [hasChanges, setHasChanges] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<BotConfigFieldErrors>({});
+    const [historyKey, setHistoryKey] = useState(0);
+
+    const [previewPrompt, setPreviewPrompt] = useState("");
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [previewResults, setPreviewResults] = useState<{ saved: PreviewResult; draft: PreviewResult } | null>(null);
+
+    const tone = toneFromPersonality(config.personality);
+    // Free-text personality set outside the presets; offered as "Custom" so saving never replaces it silently
+    const customPersonality = [config.personality, savedConfig.personality]
+        .find(personality => personality?.trim() && toneFromPersonality(personality) === null);
+    const style = styleFromTemperature(config.temperature);
+
+    // Load the current bot configuration on mount
+    const loadBotConfig = useCallback(async () => {
+        if (!businessNamespace) return;
+
+        try {
+            setIsLoading(true);
+            setError(null);
+
+            try {
+                const response = await chatAPI.getBotConfig(businessNamespace);
+                const loaded = withBotConfigDefaults(response.config);
+                setSavedConfig(loaded);
+                setConfig(loaded);
+            } catch (configError) {
+                // No config saved yet: start from defaults
+                if (configError instanceof ApiError && configError.status === 404) {
+                    console.warn('Bot config not found, using defaults');
+                } else {
+                    throw configError;
+                }
+            }
+            setHasChanges(false);
+        } catch (err) {
+            console.error('Error loading bot configuration:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load bot configuration');
+            toast.error('Failed to load bot configuration');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [businessNamespace]);
+
+    useEffect(() => {
+        loadBotConfig();
+    }, [loadBotConfig]);
 
     const toneOptions = [
         {
@@ -113,6 +200,15 @@ const BotCustomizer = () => {
     const handleConfigChange = <K extends keyof BotConfig>(key: K, value: BotConfig[K]) => {
         setConfig(prev => ({ ...prev, [key]: value }));
         setHasChanges(true);
+        setFieldErrors(prev => ({ ...prev, [key]: undefined }));
+    };
+
+    const toggleListValue = (key: 'languages' | 'channels', value: string) => {
+        const current = config[key] || [];
+        handleConfigChange(
+            key,
+            current.includes(value) ? current.filter(item => item !== value) : [...current, value]
+        );
     };
 
     const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -124,35 +220,120 @@ const BotCustomizer = () => {
             }
 
             setIsUploading(true);
-            // Simulate upload
-            setTimeout(() => {
-                const imageUrl = URL.createObjectURL(file);
-                handleConfigChange('profileImage', imageUrl);
+            // Store the avatar inline so it survives a reload; saved with the rest of the config
+            const reader = new FileReader();
+            reader.onload = () => {
+                handleConfigChange('avatar_url', reader.result as string);
                 setIsUploading(false);
-                toast("Profile image updated successfully");
-            }, 1500);
+                toast("Profile image updated. Save to apply it.");
+            };
+            reader.onerror = () => {
+                setIsUploading(false);
+                toast.error("Failed to read image");
+            };
+            reader.readAsDataURL(file);
         }
     };
 
-    const handleSave = () => {
-        // Simulate save operation
-        toast("Bot configuration saved successfully!");
-        setHasChanges(false);
+    const handleSave = async () => {
+        if (!businessNamespace || !canEdit) return;
+
+        const errors = validateBotConfig(config);
+        setFieldErrors(errors);
+        const firstError = Object.values(errors).find(Boolean);
+        if (firstError) {
+            toast.error(`Please fix the highlighted fields: ${firstError}`);
+            return;
+        }
+
+        try {
+            setIsSaving(true);
+            const response = await chatAPI.updateBotConfig(businessNamespace, getEditableFields(config));
+            const saved = withBotConfigDefaults(response.config);
+            setSavedConfig(saved);
+            setConfig(saved);
+            setHasChanges(false);
+            setHistoryKey(key => key + 1);
+            toast.success("Bot configuration saved successfully!");
+            completeStep('bot');
+        } catch (err) {
+            console.error('Error saving bot configuration:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to save bot configuration');
+        } finally {
+            setIsSaving(false);
+        }
     };
 
     const handleReset = () => {
-        setConfig({
-            name: "Traliq Assistant",
-            welcomeMessage: "Hello! I'm here to help you with any questions you might have. How can I assist you today?",
-            profileImage: null,
-            tone: 'friendly',
-            style: 'professional',
-            fallbackBehavior: 'generic'
-        });
+        setConfig(savedConfig);
         setHasChanges(false);
-        toast("Configuration reset to defaults");
+        setFieldErrors({});
+        toast("Unsaved changes discarded");
+    };
+
+    const handleRollback = (restored: BotConfig) => {
+        setSavedConfig(restored);
+        setConfig(restored);
+        setHasChanges(false);
+        setFieldErrors({});
+    };
+
+    // Run the same prompt against the saved and the draft settings
+    const handlePreview = async () => {
+        if (!businessNamespace || !previewPrompt.trim()) return;
+
+        const errors = validateBotConfig(config);
+        setFieldErrors(errors);
+        if (Object.values(errors).some(Boolean)) {
+            toast.error('Fix the highlighted fields before testing');
+            return;
+        }
+
+        const runPreview = async (draft: BotConfig): Promise<PreviewResult> => {
+            try {
+                const response = await chatAPI.previewBotConfig(businessNamespace, previewPrompt.trim(), getEditableFields(draft));
+                return { response };
+            } catch (err) {
+                return { error: err instanceof Error ? err.message : 'Preview failed' };
+            }
+        };
+
+        try {
+            setIsPreviewing(true);
+            const [saved, draft] = await Promise.all([runPreview(savedConfig), runPreview(config)]);
+            setPreviewResults({ saved, draft });
+        } finally {
+            setIsPreviewing(false);
+        }
     };
 
+    // Show loading state
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+                    <p className="text-muted-foreground">Loading bot configuration...</p>
+                </div>
+            </div>
+        );
+    }
+
+    // Show error state
+    if (error) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-4" />
+                    <p className="text-red-400 mb-4">{error}</p>
+                    <Button onClick={loadBotConfig} variant="outline">
+                        Try Again
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="space-y-8 p-6">
             {/* Header Section */}
@@ -162,7 +343,9 @@ const BotCustomizer = () => {
                         Bot Customizer
                     </h1>
                     <p className="text-muted-foreground mt-2">
-                        Configure your AI assistant&apos;s personality and behavior
+                        {canEdit
+                            ? <>Configure your AI assistant&apos;s personality and behavior</>
+                            : 'You can preview changes, but only owners and admins can save them'}
                     </p>
                 </div>
                 <div className="flex items-center gap-3">
@@ -178,10 +361,11 @@ const BotCustomizer = () => {
                     <Button
                         onClick={handleSave}
                         className="gap-2 bg-white text-black hover:bg-gray-100"
-                        disabled={!hasChanges}
+                        disabled={!canEdit || !hasChanges || isSaving}
+                        title={canEdit ? undefined : "You don't have permission to change the bot"}
                     >
                         <Save className="h-4 w-4" />
-                        Save Changes
+                        {isSaving ? 'Saving...' : 'Save Changes'}
                     </Button>
                 </div>
             </div>
@@ -207,11 +391,14 @@ const BotCustomizer = () => {
                                 </Label>
                                 <Input
                                     id="bot-name"
-                                    value={config.name}
-                                    onChange={(e) => handleConfigChange('name', e.target.value)}
+                                    value={config.bot_name}
+                                    onChange={(e) => handleConfigChange('bot_name', e.target.value)}
                                     placeholder="Enter your bot&apos;s name"
                                     className="bg-background border-border"
                                 />
+                                {fieldErrors.bot_name && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.bot_name}</p>
+                                )}
                             </div>
 
                             <div className="space-y-2">
@@ -220,15 +407,18 @@ const BotCustomizer = () => {
                                 </Label>
                                 <Textarea
                                     id="welcome-message"
-                                    value={config.welcomeMessage}
-                                    onChange={(e) => handleConfigChange('welcomeMessage', e.target.value)}
+                                    value={config.greeting_message || ''}
+                                    onChange={(e) => handleConfigChange('greeting_message', e.target.value)}
                                     placeholder="Enter the first message your bot will send to visitors"
                                     className="bg-background border-border min-h-[100px] resize-none"
                                     maxLength={300}
                                 />
                                 <div className="text-xs text-muted-foreground text-right">
-                                    {config.welcomeMessage.length}/300 characters
+                                    {(config.greeting_message || '').length}/300 characters
                                 </div>
+                                {fieldErrors.greeting_message && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.greeting_message}</p>
+                                )}
                             </div>
 
                             <div className="space-y-2">
@@ -237,7 +427,7 @@ const BotCustomizer = () => {
                                 </Label>
                                 <div className="flex items-center gap-4">
                                     <Avatar className="h-16 w-16">
-                                        <AvatarImage src={config.profileImage || undefined} />
+                                        <AvatarImage src={config.avatar_url || undefined} />
                                         <AvatarFallback className="bg-muted">
                                             <Bot className="h-8 w-8 text-muted-foreground" />
                                         </AvatarFallback>
@@ -265,6 +455,33 @@ const BotCustomizer = () => {
                                     </div>
                                 </div>
                             </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="primary-color" className="text-sm font-medium">
+                                    Widget Color
+                                </Label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        id="primary-color"
+                                        type="color"
+                                        value={config.primary_color || '#2563eb'}
+                                        onChange={(e) => handleConfigChange('primary_color', e.target.value)}
+                                        className="h-9 w-12 cursor-pointer rounded border border-border bg-background"
+                                    />
+                                    <Input
+                                        value={config.primary_color || ''}
+                                        onChange={(e) => handleConfigChange('primary_color', e.target.value)}
+                                        placeholder="#2563eb"
+                                        className="bg-background border-border w-32"
+                                    />
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Accent color of the chat bubble and header on your website
+                                </p>
+                                {fieldErrors.primary_color && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.primary_color}</p>
+                                )}
+                            </div>
                         </CardContent>
                     </Card>
 
@@ -283,8 +500,11 @@ const BotCustomizer = () => {
                             <div className="space-y-4">
                                 <Label className="text-sm font-medium">Tone</Label>
                                 <RadioGroup
-                                    value={config.tone}
-                                    onValueChange={(value) => handleConfigChange('tone', value as BotConfig['tone'])}
+                                    value={tone ?? 'custom'}
+                                    onValueChange={(value) => handleConfigChange(
+                                        'personality',
+                                        value === 'custom' ? customPersonality : value as BotTone
+                                    )}
                                     className="space-y-3"
                                 >
                                     {toneOptions.map((option) => (
@@ -311,6 +531,22 @@ const BotCustomizer = () => {
                                             </div>
                                         </div>
                                     ))}
+                                    {customPersonality && (
+                                        <div className="flex items-start space-x-3">
+                                            <RadioGroupItem value="custom" id="custom-tone" className="mt-1" />
+                                            <div className="flex-1">
+                                                <Label htmlFor="custom-tone" className="font-medium cursor-pointer">
+                                                    Custom
+                                                </Label>
+                                                <p className="text-sm text-muted-foreground">
+                                                    Personality saved outside the presets, kept unless you pick a tone
+                                                </p>
+                                                <p className="text-xs text-muted-foreground italic mt-1 line-clamp-3">
+                                                    <>&quot;{customPersonality}&quot;</>
+                                                </p>
+                                            </div>
+                                        </div>
+                                    )}
                                 </RadioGroup>
                             </div>
 
@@ -319,7 +555,7 @@ const BotCustomizer = () => {
                                 <div className="grid gap-3 md:grid-cols-3">
                                     {stylePresets.map((preset) => {
                                         const Icon = preset.icon;
-                                        const isSelected = config.style === preset.value;
+                                        const isSelected = style === preset.value;
                                         return (
                                             <Card
                                                 key={preset.value}
@@ -329,7 +565,7 @@ const BotCustomizer = () => {
                                                         ? "border-white bg-white/5"
                                                         : "border-border hover:border-white/50"
                                                 )}
-                                                onClick={() => handleConfigChange('style', preset.value)}
+                                                onClick={() => handleConfigChange('temperature', STYLE_TEMPERATURES[preset.value])}
                                             >
                                                 <CardContent className="p-4 text-center">
                                                     <div className={cn(
@@ -370,10 +606,10 @@ const BotCustomizer = () => {
                                 Define what happens when your bot doesn&apos;t know the answer
                             </CardDescription>
                         </CardHeader>
-                        <CardContent>
+                        <CardContent className="space-y-6">
                             <RadioGroup
-                                value={config.fallbackBehavior}
-                                onValueChange={(value) => handleConfigChange('fallbackBehavior', value as BotConfig['fallbackBehavior'])}
+                                value={config.fallback_behavior}
+                                onValueChange={(value) => handleConfigChange('fallback_behavior', value as FallbackBehavior)}
                                 className="space-y-3"
                             >
                                 {fallbackOptions.map((option) => (
@@ -399,6 +635,182 @@ const BotCustomizer = () => {
                                     </div>
                                 ))}
                             </RadioGroup>
+                            <div className="space-y-2">
+                                <Label htmlFor="fallback-message" className="text-sm font-medium">
+                                    Fallback Message
+                                </Label>
+                                <Textarea
+                                    id="fallback-message"
+                                    value={config.fallback_message || ''}
+                                    onChange={(e) => handleConfigChange('fallback_message', e.target.value)}
+                                    placeholder="Message shown when the bot can't answer"
+                                    className="bg-background border-border min-h-[80px] resize-none"
+                                    maxLength={300}
+                                />
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    {/* Advanced */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-card-foreground">
+                                <SlidersHorizontal className="h-5 w-5" />
+                                Advanced
+                            </CardTitle>
+                            <CardDescription>
+                                Fine-tune the model, response behavior and availability
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Model</Label>
+                                <Select
+                                    value={config.model_name}
+                                    onValueChange={(value) => handleConfigChange('model_name', value)}
+                                >
+                                    <SelectTrigger className="w-full bg-background border-border">
+                                        <SelectValue placeholder="Select a model" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {BOT_MODELS.map(model => (
+                                            <SelectItem key={model.value} value={model.value}>
+                                                {model.label} — {model.description}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {fieldErrors.model_name && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.model_name}</p>
+                                )}
+                            </div>
+
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-sm font-medium">Temperature</Label>
+                                    <span className="text-sm text-muted-foreground">{(config.temperature ?? 0).toFixed(2)}</span>
+                                </div>
+                                <Slider
+                                    value={[config.temperature ?? 0]}
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    onValueChange={([value]) => handleConfigChange('temperature', value)}
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Lower is more predictable, higher is more creative. Also adjusts the style preset.
+                                </p>
+                            </div>
+
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-sm font-medium">Max Response Length</Label>
+                                    <span className="text-sm text-muted-foreground">{config.max_tokens} tokens</span>
+                                </div>
+                                <Slider
+                                    value={[config.max_tokens ?? 1024]}
+                                    min={64}
+                                    max={4096}
+                                    step={64}
+                                    onValueChange={([value]) => handleConfigChange('max_tokens', value)}
+                                />
+                                {fieldErrors.max_tokens && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.max_tokens}</p>
+                                )}
+                            </div>
+
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-sm font-medium">Response Delay</Label>
+                                    <span className="text-sm text-muted-foreground">{((config.response_delay_ms ?? 0) / 1000).toFixed(1)}s</span>
+                                </div>
+                                <Slider
+                                    value={[config.response_delay_ms ?? 0]}
+                                    min={0}
+                                    max={10000}
+                                    step={250}
+                                    onValueChange={([value]) => handleConfigChange('response_delay_ms', value)}
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Adds a short pause before replies so they feel less instant
+                                </p>
+                            </div>
+
+                            <div className="flex items-center justify-between rounded-lg border border-border p-4">
+                                <div>
+                                    <Label htmlFor="content-filter" className="text-sm font-medium">Content Filter</Label>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        Block unsafe or off-topic content in replies
+                                    </p>
+                                </div>
+                                <Switch
+                                    id="content-filter"
+                                    checked={!!config.content_filter_enabled}
+                                    onCheckedChange={(checked) => handleConfigChange('content_filter_enabled', checked)}
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Languages</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {BOT_LANGUAGES.map(language => {
+                                        const isSelected = config.languages?.includes(language.value);
+                                        return (
+                                            <Button
+                                                key={language.value}
+                                                type="button"
+                                                size="sm"
+                                                variant={isSelected ? "default" : "outline"}
+                                                onClick={() => toggleListValue('languages', language.value)}
+                                            >
+                                                {isSelected && <Check className="h-3 w-3" />}
+                                                {language.label}
+                                            </Button>
+                                        );
+                                    })}
+                                </div>
+                                {fieldErrors.languages && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.languages}</p>
+                                )}
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Channels</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {BOT_CHANNELS.map(channel => {
+                                        const isSelected = config.channels?.includes(channel.value);
+                                        return (
+                                            <Button
+                                                key={channel.value}
+                                                type="button"
+                                                size="sm"
+                                                variant={isSelected ? "default" : "outline"}
+                                                onClick={() => toggleListValue('channels', channel.value)}
+                                            >
+                                                {isSelected && <Check className="h-3 w-3" />}
+                                                {channel.label}
+                                            </Button>
+                                        );
+                                    })}
+                                </div>
+                                {fieldErrors.channels && (
+                                    <p className="text-red-400 text-sm">{fieldErrors.channels}</p>
+                                )}
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="offline-message" className="text-sm font-medium">
+                                    Offline Message
+                                </Label>
+                                <Textarea
+                                    id="offline-message"
+                                    value={config.offline_message || ''}
+                                    onChange={(e) => handleConfigChange('offline_message', e.target.value)}
+                                    placeholder="Shown to visitors outside business hours"
+                                    className="bg-background border-border min-h-[80px] resize-none"
+                                    maxLength={300}
+                                />
+                            </div>
                         </CardContent>
                     </Card>
                 </div>
@@ -420,13 +832,13 @@ const BotCustomizer = () => {
                                 {/* Bot Avatar and Name */}
                                 <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/30">
                                     <Avatar className="h-10 w-10">
-                                        <AvatarImage src={config.profileImage || undefined} />
+                                        <AvatarImage src={config.avatar_url || undefined} />
                                         <AvatarFallback className="bg-white/10">
                                             <Bot className="h-5 w-5" />
                                         </AvatarFallback>
                                     </Avatar>
                                     <div>
-                                        <p className="font-medium text-sm">{config.name}</p>
+                                        <p className="font-medium text-sm">{config.bot_name}</p>
                                         <p className="text-xs text-muted-foreground">AI Assistant</p>
                                     </div>
                                 </div>
@@ -437,7 +849,7 @@ const BotCustomizer = () => {
                                         Welcome Message
                                     </Label>
                                     <div className="p-3 rounded-lg bg-white/5 border border-border">
-                                        <p className="text-sm">{config.welcomeMessage}</p>
+                                        <p className="text-sm">{config.greeting_message}</p>
                                     </div>
                                 </div>
 
@@ -446,19 +858,19 @@ const BotCustomizer = () => {
                                     <div className="flex justify-between items-center">
                                         <span className="text-xs text-muted-foreground">Tone</span>
                                         <Badge variant="outline" className="text-xs capitalize">
-                                            {config.tone}
+                                            {tone ?? 'custom'}
                                         </Badge>
                                     </div>
                                     <div className="flex justify-between items-center">
                                         <span className="text-xs text-muted-foreground">Style</span>
                                         <Badge variant="outline" className="text-xs capitalize">
-                                            {config.style}
+                                            {style}
                                         </Badge>
                                     </div>
                                     <div className="flex justify-between items-center">
                                         <span className="text-xs text-muted-foreground">Fallback</span>
                                         <Badge variant="outline" className="text-xs">
-                                            {fallbackOptions.find(opt => opt.value === config.fallbackBehavior)?.label}
+                                            {fallbackOptions.find(opt => opt.value === config.fallback_behavior)?.label}
                                         </Badge>
                                     </div>
                                 </div>
@@ -467,6 +879,72 @@ const BotCustomizer = () => {
                     </Card>
                 </div>
             </div>
+
+            {/* Test Preview */}
+            <Card className="bg-card border-border">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-card-foreground">
+                        <FlaskConical className="h-5 w-5" />
+                        Test Before Saving
+                    </CardTitle>
+                    <CardDescription>
+                        Send a test prompt and compare replies from your saved and draft settings
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex gap-3">
+                        <Input
+                            value={previewPrompt}
+                            onChange={(e) => setPreviewPrompt(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handlePreview()}
+                            placeholder="e.g. What are your opening hours?"
+                            className="bg-background border-border"
+                        />
+                        <Button
+                            onClick={handlePreview}
+                            disabled={!previewPrompt.trim() || isPreviewing}
+                            className="gap-2 bg-white text-black hover:bg-gray-100"
+                        >
+                            {isPreviewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FlaskConical className="h-4 w-4" />}
+                            Test
+                        </Button>
+                    </div>
+                    {previewResults && (
+                        <div className="grid gap-4 md:grid-cols-2">
+                            {([
+                                { key: 'saved', label: 'Saved settings', result: previewResults.saved },
+                                { key: 'draft', label: hasChanges ? 'Draft settings' : 'Draft settings (unchanged)', result: previewResults.draft },
+                            ] as const).map(column => (
+                                <div key={column.key} className="space-y-2">
+                                    <Label className="text-xs font-medium text-muted-foreground">{column.label}</Label>
+                                    <div className="p-3 rounded-lg bg-white/5 border border-border min-h-[100px]">
+                                        {column.result.error ? (
+                                            <p className="text-sm text-red-400">{column.result.error}</p>
+                                        ) : (
+                                            <>
+                                                <p className="text-sm whitespace-pre-wrap">{column.result.response?.response}</p>
+                                                <p className="text-xs text-muted-foreground mt-2">
+                                                    {column.result.response?.model_used}
+                                                    {column.result.response?.processing_time_ms !== undefined && ` • ${column.result.response.processing_time_ms}ms`}
+                                                </p>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {businessNamespace && (
+                <BotVersionHistory
+                    businessNamespace={businessNamespace}
+                    refreshKey={historyKey}
+                    hasUnsavedChanges={hasChanges}
+                    onRollback={handleRollback}
+                />
+            )}
         </div>
     );
 };
@@ -8,8 +8,13 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { toast } from "sonner"
 import { useAuth } from "@/contexts/auth-context"
-import { businessAPI } from "@/lib/business-api"
+import { useBusiness } from "@/contexts/business-context"
+import { useBusinessOpen } from "@/hooks/use-business-open"
+import { useOnboarding } from "@/hooks/use-onboarding"
 import { chatAPI, ChatMessage, BotConfig } from "@/lib/chat-api"
+import { DEFAULT_BOT_CONFIG } from "@/lib/bot-config"
+import { leadsAPI } from "@/lib/leads-api"
+import { ApiError } from "@/lib/http-client"
 import {
     Send,
     Bot,
@@ -21,6 +26,9 @@ import {
     ThumbsUp,
     ThumbsDown,
     Loader2,
+    Square,
+    Moon,
+    CheckCircle,
 } from "lucide-react"
 import {
     DropdownMenu,
@@ -40,11 +48,22 @@ const Chat = () => {
     const [isConnected, setIsConnected] = useState(false)
     const [conversationId, setConversationId] = useState<string | null>(null)
     const [sessionId] = useState(() => chatAPI.generateSessionId())
-    const [businessNamespace, setBusinessNamespace] = useState<string | null>(null)
+    const { currentBusiness } = useBusiness()
+    const businessNamespace = currentBusiness?.namespace ?? null
+    const { completeStep } = useOnboarding()
     const [botConfig, setBotConfig] = useState<BotConfig | null>(null)
     const [error, setError] = useState<string | null>(null)
+    const [isStreaming, setIsStreaming] = useState(false)
     const messagesEndRef = useRef<HTMLDivElement>(null)
     const inputRef = useRef<HTMLInputElement>(null)
+    const abortControllerRef = useRef<AbortController | null>(null)
+
+    // Outside business hours the input is replaced by a contact form
+    const isOffline = !useBusinessOpen(currentBusiness)
+    const offlineMessage = botConfig?.offline_message || DEFAULT_BOT_CONFIG.offline_message
+    const [leadForm, setLeadForm] = useState({ name: '', email: '', phone: '', message: '' })
+    const [isSubmittingLead, setIsSubmittingLead] = useState(false)
+    const [leadSubmitted, setLeadSubmitted] = useState(false)
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
@@ -54,30 +73,26 @@ const Chat = () => {
         scrollToBottom()
     }, [messages])
 
+    // Stop any in-flight generation when leaving the page
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort()
+    }, [])
+
     // Initialize chat on component mount
     const initializeChat = useCallback(async () => {
-        if (!user) return
+        if (!user || !businessNamespace) return
 
         try {
             setIsLoading(true)
             setError(null)
 
-            // Get user's primary business
-            const business = await businessAPI.getPrimaryBusiness()
-            if (!business) {
-                setError('No business found. Please register a business first.')
-                return
-            }
-
-            setBusinessNamespace(business.namespace)
-
             // Check chatbot service health
             await chatAPI.healthCheck()
             setIsConnected(true)
 
             // Get bot configuration
             try {
-                const configResponse = await chatAPI.getBotConfig(business.namespace)
+                const configResponse = await chatAPI.getBotConfig(businessNamespace)
                 if (configResponse.success) {
                     setBotConfig(configResponse.config)
                 }
@@ -88,7 +103,7 @@ const Chat = () => {
 
             // Create conversation
             const conversationResponse = await chatAPI.createConversation({
-                business_namespace: business.namespace,
+                business_namespace: businessNamespace,
                 session_id: sessionId,
                 customer_id: chatAPI.generateCustomerId(),
                 // Use user.name (matches UserProfile) with fallback to email
@@ -119,7 +134,7 @@ const Chat = () => {
         } finally {
             setIsLoading(false)
         }
-    }, [user, sessionId, botConfig])
+    }, [user, businessNamespace, sessionId, botConfig])
 
     useEffect(() => {
         initializeChat()
@@ -143,6 +158,11 @@ const Chat = () => {
         setIsTyping(true)
         setError(null)
 
+        const controller = new AbortController()
+        abortControllerRef.current = controller
+        const botMessageId = (Date.now() + 1).toString()
+        let botMessageStarted = false
+
         try {
             // Mark user message as sent
             setMessages(prev =>
@@ -153,8 +173,8 @@ const Chat = () => {
                 )
             )
 
-            // Send message to Gemini AI via backend
-            const response = await chatAPI.sendMessage({
+            // Stream the reply from Gemini AI via backend, rendering tokens as they arrive
+            const stream = chatAPI.streamMessage({
                 message: messageContent,
                 business_namespace: businessNamespace,
                 conversation_id: conversationId,
@@ -164,11 +184,40 @@ const Chat = () => {
                 // Use user.name (matches UserProfile) with fallback to email
                 customer_name: user?.name || user?.email,
                 channel: 'web_chat'
-            })
+            }, controller.signal)
+
+            for await (const event of stream) {
+                if (event.type === 'token') {
+                    if (!botMessageStarted) {
+                        botMessageStarted = true
+                        setIsTyping(false)
+                        setIsStreaming(true)
+                        setMessages(prev => [...prev, {
+                            id: botMessageId,
+                            content: event.content,
+                            sender: 'bot',
+                            timestamp: new Date(),
+                            status: 'streaming'
+                        }])
+                    } else {
+                        setMessages(prev =>
+                            prev.map(msg =>
+                                msg.id === botMessageId
+                                    ? { ...msg, content: msg.content + event.content }
+                                    : msg
+                            )
+                        )
+                    }
+                    continue
+                }
+
+                const response = event.response
+                if (!response.success) {
+                    throw new Error('Failed to get response from AI')
+                }
 
-            if (response.success) {
                 const botMessage: ChatMessage = {
-                    id: response.message_id || (Date.now() + 1).toString(),
+                    id: response.message_id || botMessageId,
                     content: response.response,
                     sender: 'bot',
                     timestamp: new Date(),
@@ -176,20 +225,39 @@ const Chat = () => {
                     confidence_score: response.confidence_score,
                     model_used: response.model_used
                 }
-                setMessages(prev => [...prev, botMessage])
-            } else {
-                throw new Error('Failed to get response from AI')
+                setMessages(prev =>
+                    botMessageStarted
+                        ? prev.map(msg =>
+                            msg.id === botMessageId
+                                ? { ...botMessage, content: botMessage.content || msg.content }
+                                : msg
+                        )
+                        : [...prev, botMessage]
+                )
+                completeStep('test_chat')
             }
 
         } catch (err) {
+            // Stopped by the user: keep whatever was generated so far
+            if (err instanceof ApiError && err.isAborted) {
+                setMessages(prev =>
+                    prev.map(msg =>
+                        msg.id === botMessageId
+                            ? { ...msg, status: 'stopped' }
+                            : msg
+                    )
+                )
+                return
+            }
+
             console.error('Failed to send message:', err)
             const errorMessage = err instanceof Error ? err.message : 'Failed to send message'
             setError(errorMessage)
 
-            // Mark user message as error
+            // Mark user message (and any partial reply) as error
             setMessages(prev =>
                 prev.map(msg =>
-                    msg.id === userMessage.id
+                    msg.id === userMessage.id || msg.id === botMessageId
                         ? { ...msg, status: 'error' }
                         : msg
                 )
@@ -207,11 +275,49 @@ const Chat = () => {
 
             toast.error(`Message Failed: ${errorMessage}`)
         } finally {
+            abortControllerRef.current = null
+            setIsStreaming(false)
             setIsTyping(false)
             setIsLoading(false)
         }
     }
 
+    const handleLeadSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!currentBusiness) return
+
+        const email = (leadForm.email || user?.email || '').trim()
+        const phone = leadForm.phone.trim()
+        if (!email && !phone) {
+            toast.error("Please leave an email or phone number")
+            return
+        }
+
+        try {
+            setIsSubmittingLead(true)
+            await leadsAPI.captureLead({
+                business_namespace: currentBusiness.namespace,
+                name: (leadForm.name || user?.name || '').trim() || undefined,
+                email: email || undefined,
+                phone: phone || undefined,
+                notes: leadForm.message.trim() || undefined,
+                source_conversation_id: conversationId ?? undefined,
+                source_channel: 'web_chat'
+            })
+            setLeadSubmitted(true)
+            toast.success("Thanks! We'll get back to you when we're open.")
+        } catch (err) {
+            console.error('Failed to submit contact details:', err)
+            toast.error(err instanceof Error ? err.message : "Failed to send your details")
+        } finally {
+            setIsSubmittingLead(false)
+        }
+    }
+
+    const handleStopGeneration = () => {
+        abortControllerRef.current?.abort()
+    }
+
     const handleKeyPress = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault()
@@ -282,9 +388,9 @@ const Chat = () => {
                         <p className="text-sm text-gray-400">
                             <span className="inline-flex items-center gap-2">
                                 <span
-                                    className={`w-2 h-2 rounded-full ${isConnected ? "bg-green-500" : "bg-gray-600"}`}
+                                    className={`w-2 h-2 rounded-full ${!isConnected ? "bg-gray-600" : isOffline ? "bg-yellow-500" : "bg-green-500"}`}
                                 />
-                                {isConnected ? "Online" : "Offline"} • Powered by Traliq.ai
+                                {!isConnected ? "Offline" : isOffline ? "Away" : "Online"} • Powered by Traliq.ai
                             </span>
                         </p>
                     </div>
@@ -354,7 +460,13 @@ const Chat = () => {
                                             {message.status === 'sending' && (
                                                 <Loader2 className="inline ml-2 h-3 w-3 animate-spin" />
                                             )}
+                                            {message.status === 'streaming' && (
+                                                <span className="inline-block ml-1 w-2 h-4 align-middle bg-gray-400 animate-pulse" />
+                                            )}
                                         </div>
+                                        {message.status === 'stopped' && (
+                                            <div className="text-xs text-gray-500 mt-1">Generation stopped</div>
+                                        )}
 
                                         {/* Message Actions */}
                                         <div className={`
@@ -400,6 +512,22 @@ const Chat = () => {
                             </div>
                         ))}
 
+                        {/* Offline Notice */}
+                        {isOffline && (
+                            <div className="flex gap-4">
+                                <Avatar className="h-8 w-8 mt-1">
+                                    <AvatarFallback className="bg-white text-black">
+                                        <Moon className="h-4 w-4" />
+                                    </AvatarFallback>
+                                </Avatar>
+                                <div className="flex-1 max-w-[70%]">
+                                    <div className="inline-block px-4 py-3 rounded-2xl text-sm bg-gray-900 text-white">
+                                        {offlineMessage}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Typing Indicator */}
                         {isTyping && (
                             <div className="flex gap-4">
@@ -426,34 +554,95 @@ const Chat = () => {
 
             <Separator className="bg-white/20" />
 
-            {/* Input */}
-            <footer className="p-4 bg-black border-t border-white/20 shrink-0">
-                <div className="flex gap-3 items-end">
-                    <Input
-                        ref={inputRef}
-                        value={inputValue}
-                        onChange={(e) => setInputValue(e.target.value)}
-                        onKeyPress={handleKeyPress}
-                        placeholder="Type your message..."
-                        disabled={isLoading}
-                        className="flex-1 min-h-[44px] border border-white/20 bg-black text-white placeholder-gray-500 focus:ring-2 focus:ring-white/40"
-                    />
-                    <Button
-                        onClick={handleSendMessage}
-                        disabled={!inputValue.trim() || isLoading}
-                        className="h-11 px-4 bg-white text-black hover:bg-gray-200 disabled:opacity-50"
-                    >
-                        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-                    </Button>
-                </div>
-                <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
-                    <span>Enter = send • Shift + Enter = new line</span>
-                    <div className="flex items-center gap-2">
-                        <div className={`w-2 h-2 rounded-full ${isConnected ? "bg-green-500" : "bg-gray-600"}`} />
-                        <span>{isConnected ? "Connected" : "Disconnected"}</span>
+            {/* Input, or a contact form while outside business hours */}
+            {isOffline ? (
+                <footer className="p-4 bg-black border-t border-white/20 shrink-0">
+                    {leadSubmitted ? (
+                        <div className="flex items-center gap-2 text-sm text-gray-300">
+                            <CheckCircle className="h-4 w-4 text-green-500" />
+                            Thanks! Your details were sent and the team will follow up.
+                        </div>
+                    ) : (
+                        <form onSubmit={handleLeadSubmit} className="space-y-3">
+                            <div className="grid gap-3 sm:grid-cols-3">
+                                <Input
+                                    value={leadForm.name}
+                                    onChange={(e) => setLeadForm(prev => ({ ...prev, name: e.target.value }))}
+                                    placeholder={user?.name || "Your name"}
+                                    className="border border-white/20 bg-black text-white placeholder-gray-500"
+                                />
+                                <Input
+                                    type="email"
+                                    value={leadForm.email}
+                                    onChange={(e) => setLeadForm(prev => ({ ...prev, email: e.target.value }))}
+                                    placeholder={user?.email || "Email"}
+                                    className="border border-white/20 bg-black text-white placeholder-gray-500"
+                                />
+                                <Input
+                                    type="tel"
+                                    value={leadForm.phone}
+                                    onChange={(e) => setLeadForm(prev => ({ ...prev, phone: e.target.value }))}
+                                    placeholder="Phone (optional)"
+                                    className="border border-white/20 bg-black text-white placeholder-gray-500"
+                                />
+                            </div>
+                            <div className="flex gap-3">
+                                <Input
+                                    value={leadForm.message}
+                                    onChange={(e) => setLeadForm(prev => ({ ...prev, message: e.target.value }))}
+                                    placeholder="How can we help?"
+                                    className="flex-1 border border-white/20 bg-black text-white placeholder-gray-500"
+                                />
+                                <Button
+                                    type="submit"
+                                    disabled={isSubmittingLead}
+                                    className="px-4 bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+                                >
+                                    {isSubmittingLead ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send"}
+                                </Button>
+                            </div>
+                        </form>
+                    )}
+                </footer>
+            ) : (
+                <footer className="p-4 bg-black border-t border-white/20 shrink-0">
+                    <div className="flex gap-3 items-end">
+                        <Input
+                            ref={inputRef}
+                            value={inputValue}
+                            onChange={(e) => setInputValue(e.target.value)}
+                            onKeyPress={handleKeyPress}
+                            placeholder="Type your message..."
+                            disabled={isLoading}
+                            className="flex-1 min-h-[44px] border border-white/20 bg-black text-white placeholder-gray-500 focus:ring-2 focus:ring-white/40"
+                        />
+                        {isLoading && conversationId ? (
+                            <Button
+                                onClick={handleStopGeneration}
+                                className="h-11 px-4 bg-white text-black hover:bg-gray-200"
+                                title="Stop generating"
+                            >
+                                {isStreaming ? <Square className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+                            </Button>
+                        ) : (
+                            <Button
+                                onClick={handleSendMessage}
+                                disabled={!inputValue.trim() || isLoading}
+                                className="h-11 px-4 bg-white text-black hover:bg-gray-200 disabled:opacity-50"
+                            >
+                                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                            </Button>
+                        )}
                     </div>
-                </div>
-            </footer>
+                    <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+                        <span>Enter = send • Shift + Enter = new line</span>
+                        <div className="flex items-center gap-2">
+                            <div className={`w-2 h-2 rounded-full ${isConnected ? "bg-green-500" : "bg-gray-600"}`} />
+                            <span>{isConnected ? "Connected" : "Disconnected"}</span>
+                        </div>
+                    </div>
+                </footer>
+            )}
         </div>
     )
 }
@@ -1,10 +1,594 @@
-const Conversations = () => {
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+    Pagination,
+    PaginationContent,
+    PaginationEllipsis,
+    PaginationItem,
+    PaginationLink,
+    PaginationNext,
+    PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { useBusiness } from "@/contexts/business-context";
+import {
+    chatAPI,
+    ConversationListFilters,
+    ConversationMessage,
+    ConversationSummary,
+} from "@/lib/chat-api";
+import { ApiError } from "@/lib/http-client";
+import {
+    Bot,
+    CheckCircle,
+    Inbox,
+    Loader2,
+    MessageSquare,
+    RefreshCw,
+    Search,
+    Star,
+    User,
+} from "lucide-react";
+import { cn, getPageNumbers } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+const statusOptions = [
+    { value: 'all', label: 'All statuses' },
+    { value: 'active', label: 'Active' },
+    { value: 'escalated', label: 'Escalated' },
+    { value: 'resolved', label: 'Resolved' },
+    { value: 'abandoned', label: 'Abandoned' },
+];
+
+const channelOptions = [
+    { value: 'all', label: 'All channels' },
+    { value: 'web_chat', label: 'Web Chat' },
+    { value: 'website', label: 'Website Widget' },
+    { value: 'whatsapp', label: 'WhatsApp' },
+    { value: 'messenger', label: 'Messenger' },
+    { value: 'telegram', label: 'Telegram' },
+    { value: 'instagram', label: 'Instagram' },
+];
+
+const dateRangeOptions = [
+    { value: 'all', label: 'Any time', days: 0 },
+    { value: '1', label: 'Last 24 hours', days: 1 },
+    { value: '7', label: 'Last 7 days', days: 7 },
+    { value: '30', label: 'Last 30 days', days: 30 },
+    { value: '90', label: 'Last 90 days', days: 90 },
+];
+
+const getStatusBadgeClass = (status: string) => {
+    switch (status) {
+        case 'active':
+            return 'bg-green-500/10 text-green-400 border-green-500/20';
+        case 'escalated':
+            return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+        case 'resolved':
+            return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+        default:
+            return 'bg-white/10 text-muted-foreground border-border';
+    }
+};
+
+const getChannelLabel = (channel: string) =>
+    channelOptions.find(option => option.value === channel)?.label || channel;
+
+const formatDateTime = (value?: string) => {
+    if (!value) return '';
+    return new Date(value).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false,
+    });
+};
+
+const ConversationsPage = () => {
+    const { currentBusiness } = useBusiness();
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [totalConversations, setTotalConversations] = useState(0);
+    const [selectedConversation, setSelectedConversation] = useState<ConversationSummary | null>(null);
+    const [transcript, setTranscript] = useState<ConversationMessage[]>([]);
+    const [isLoadingList, setIsLoadingList] = useState(false);
+    const [isLoadingTranscript, setIsLoadingTranscript] = useState(false);
+
+    const [searchQuery, setSearchQuery] = useState("");
+    const [statusFilter, setStatusFilter] = useState("all");
+    const [channelFilter, setChannelFilter] = useState("all");
+    const [dateRange, setDateRange] = useState("all");
+    const [page, setPage] = useState(1);
+    const [reloadToken, setReloadToken] = useState(0);
+    const transcriptRequest = useRef<AbortController | null>(null);
+
+    const [isResolveOpen, setIsResolveOpen] = useState(false);
+    const [isResolving, setIsResolving] = useState(false);
+    const [resolutionReason, setResolutionReason] = useState("");
+    const [rating, setRating] = useState<number | undefined>(undefined);
+    const [feedback, setFeedback] = useState("");
+
+    const reloadConversations = useCallback(() => setReloadToken(token => token + 1), []);
+
+    // Any filter change starts again from the first page
+    const updateFilter = (setter: (value: string) => void) => (value: string) => {
+        setter(value);
+        setPage(1);
+    };
+
+    // Reload the list whenever the filters or page change (search is debounced);
+    // aborting the previous request keeps a slow response from overwriting newer results
+    useEffect(() => {
+        if (!currentBusiness) return;
+
+        const filters: ConversationListFilters = {
+            limit: PAGE_SIZE,
+            offset: (page - 1) * PAGE_SIZE,
+        };
+        if (statusFilter !== 'all') filters.status = statusFilter;
+        if (channelFilter !== 'all') filters.channel = channelFilter;
+        if (searchQuery.trim()) filters.search = searchQuery.trim();
+
+        const days = dateRangeOptions.find(option => option.value === dateRange)?.days;
+        if (days) {
+            filters.start_date = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        }
+
+        const controller = new AbortController();
+        const load = async () => {
+            try {
+                setIsLoadingList(true);
+                const response = await chatAPI.listConversations(currentBusiness.namespace, filters, controller.signal);
+                setConversations(response.conversations);
+                setTotalConversations(response.total);
+            } catch (err) {
+                if (err instanceof ApiError && err.isAborted) return;
+                console.error('Error loading conversations:', err);
+                toast.error(err instanceof Error ? err.message : 'Failed to load conversations');
+            } finally {
+                if (!controller.signal.aborted) setIsLoadingList(false);
+            }
+        };
+
+        const timeoutId = setTimeout(load, 300);
+        return () => {
+            clearTimeout(timeoutId);
+            controller.abort();
+        };
+    }, [currentBusiness, statusFilter, channelFilter, searchQuery, dateRange, page, reloadToken]);
+
+    const openConversation = useCallback(async (conversation: ConversationSummary) => {
+        // Only the most recently opened conversation may fill the transcript
+        transcriptRequest.current?.abort();
+        const controller = new AbortController();
+        transcriptRequest.current = controller;
+
+        setSelectedConversation(conversation);
+        setTranscript([]);
+
+        try {
+            setIsLoadingTranscript(true);
+            const response = await chatAPI.getConversationTranscript(conversation.id, controller.signal);
+            setTranscript(response.messages);
+            if (response.conversation) {
+                setSelectedConversation(response.conversation);
+            }
+        } catch (err) {
+            if (err instanceof ApiError && err.isAborted) return;
+            console.error('Error loading transcript:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to load transcript');
+        } finally {
+            if (!controller.signal.aborted) setIsLoadingTranscript(false);
+        }
+    }, []);
+
+    useEffect(() => () => transcriptRequest.current?.abort(), []);
+
+    // Deep link from other pages (e.g. Leads) via ?conversation=<id>
+    useEffect(() => {
+        if (!currentBusiness) return;
+        const conversationId = new URLSearchParams(window.location.search).get('conversation');
+        if (conversationId) {
+            openConversation({ id: conversationId, channel: '', status: '', created_at: '' });
+        }
+    }, [currentBusiness, openConversation]);
+
+    const openResolveDialog = () => {
+        setResolutionReason("");
+        setRating(undefined);
+        setFeedback("");
+        setIsResolveOpen(true);
+    };
+
+    const handleResolve = async () => {
+        if (!selectedConversation) return;
+
+        try {
+            setIsResolving(true);
+            await chatAPI.resolveConversation(
+                selectedConversation.id,
+                resolutionReason.trim() || undefined,
+                rating,
+                feedback.trim() || undefined
+            );
+
+            const resolved: ConversationSummary = {
+                ...selectedConversation,
+                status: 'resolved',
+                resolution_reason: resolutionReason.trim() || undefined,
+                customer_satisfaction_rating: rating,
+            };
+            setSelectedConversation(resolved);
+            setConversations(prev => prev.map(c => c.id === resolved.id ? resolved : c));
+            setIsResolveOpen(false);
+            toast.success('Conversation resolved');
+        } catch (err) {
+            console.error('Error resolving conversation:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to resolve conversation');
+        } finally {
+            setIsResolving(false);
+        }
+    };
+
+    const totalPages = Math.max(1, Math.ceil(totalConversations / PAGE_SIZE));
+    const rangeStart = totalConversations === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+    const rangeEnd = Math.min(page * PAGE_SIZE, totalConversations);
+
+    const goToPage = (nextPage: number) => setPage(Math.min(Math.max(1, nextPage), totalPages));
+
     return (
-        <div>
-            {/* Content goes here */}
+        <div className="space-y-8 p-6">
+            {/* Header Section */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                        Conversations
+                    </h1>
+                    <p className="text-muted-foreground mt-2">
+                        Review and resolve customer conversations for {currentBusiness?.name || 'your business'}
+                    </p>
+                </div>
+                <Button
+                    variant="outline"
+                    className="gap-2"
+                    onClick={reloadConversations}
+                    disabled={isLoadingList}
+                >
+                    <RefreshCw className={cn("h-4 w-4", isLoadingList && "animate-spin")} />
+                    Refresh
+                </Button>
+            </div>
+
+            {/* Search and Filter Section */}
+            <div className="flex flex-col lg:flex-row gap-4">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        placeholder="Search by customer or message..."
+                        value={searchQuery}
+                        onChange={(e) => updateFilter(setSearchQuery)(e.target.value)}
+                        className="pl-10 bg-background border-border"
+                    />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
+                        <SelectTrigger className="w-[160px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {statusOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={channelFilter} onValueChange={updateFilter(setChannelFilter)}>
+                        <SelectTrigger className="w-[170px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {channelOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={dateRange} onValueChange={updateFilter(setDateRange)}>
+                        <SelectTrigger className="w-[160px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {dateRangeOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-5">
+                {/* Conversation List */}
+                <Card className="lg:col-span-2 bg-card border-border">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-card-foreground">
+                            <Inbox className="h-5 w-5" />
+                            Inbox
+                        </CardTitle>
+                        <CardDescription>
+                            {totalConversations} conversation{totalConversations === 1 ? '' : 's'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <ScrollArea className="h-[560px]">
+                            {conversations.length === 0 ? (
+                                <div className="p-8 text-center text-muted-foreground text-sm">
+                                    {isLoadingList ? 'Loading conversations...' : 'No conversations match your filters'}
+                                </div>
+                            ) : (
+                                <div className="divide-y divide-border">
+                                    {conversations.map(conversation => (
+                                        <button
+                                            key={conversation.id}
+                                            type="button"
+                                            onClick={() => openConversation(conversation)}
+                                            className={cn(
+                                                "w-full text-left px-6 py-4 transition-colors hover:bg-muted/30",
+                                                selectedConversation?.id === conversation.id && "bg-muted/50"
+                                            )}
+                                        >
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium text-sm text-foreground truncate">
+                                                    {conversation.customer_name || conversation.customer_email || 'Anonymous visitor'}
+                                                </span>
+                                                <span className="text-xs text-muted-foreground shrink-0">
+                                                    {formatDateTime(conversation.last_message_at || conversation.created_at)}
+                                                </span>
+                                            </div>
+                                            <p className="text-sm text-muted-foreground truncate mt-1">
+                                                {conversation.last_message || 'No messages yet'}
+                                            </p>
+                                            <div className="flex items-center gap-2 mt-2">
+                                                <Badge variant="outline" className={cn("text-xs capitalize", getStatusBadgeClass(conversation.status))}>
+                                                    {conversation.status}
+                                                </Badge>
+                                                <Badge variant="outline" className="text-xs">
+                                                    {getChannelLabel(conversation.channel)}
+                                                </Badge>
+                                            </div>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </ScrollArea>
+                        {totalPages > 1 && (
+                            <div className="flex items-center justify-between gap-2 border-t border-border px-4 py-3">
+                                <span className="text-xs text-muted-foreground shrink-0">
+                                    {rangeStart}-{rangeEnd} of {totalConversations}
+                                </span>
+                                <Pagination className="mx-0 w-auto">
+                                    <PaginationContent>
+                                        <PaginationItem>
+                                            <PaginationPrevious
+                                                href="#"
+                                                aria-disabled={page === 1}
+                                                className={cn(page === 1 && "pointer-events-none opacity-50")}
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    goToPage(page - 1);
+                                                }}
+                                            />
+                                        </PaginationItem>
+                                        {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                                            <PaginationItem key={pageNumber ?? `gap-${index}`}>
+                                                {pageNumber === null ? (
+                                                    <PaginationEllipsis />
+                                                ) : (
+                                                    <PaginationLink
+                                                        href="#"
+                                                        isActive={pageNumber === page}
+                                                        onClick={(e) => {
+                                                            e.preventDefault();
+                                                            goToPage(pageNumber);
+                                                        }}
+                                                    >
+                                                        {pageNumber}
+                                                    </PaginationLink>
+                                                )}
+                                            </PaginationItem>
+                                        ))}
+                                        <PaginationItem>
+                                            <PaginationNext
+                                                href="#"
+                                                aria-disabled={page === totalPages}
+                                                className={cn(page === totalPages && "pointer-events-none opacity-50")}
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    goToPage(page + 1);
+                                                }}
+                                            />
+                                        </PaginationItem>
+                                    </PaginationContent>
+                                </Pagination>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Transcript */}
+                <Card className="lg:col-span-3 bg-card border-border">
+                    {selectedConversation ? (
+                        <>
+                            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                                <div>
+                                    <CardTitle className="text-card-foreground">
+                                        {selectedConversation.customer_name || selectedConversation.customer_email || 'Anonymous visitor'}
+                                    </CardTitle>
+                                    <CardDescription>
+                                        {selectedConversation.customer_email && `${selectedConversation.customer_email} • `}
+                                        {getChannelLabel(selectedConversation.channel)} • Started {formatDateTime(selectedConversation.created_at)}
+                                    </CardDescription>
+                                </div>
+                                {selectedConversation.status === 'resolved' ? (
+                                    <Badge variant="outline" className={getStatusBadgeClass('resolved')}>
+                                        <CheckCircle className="h-3 w-3 mr-1" />
+                                        Resolved
+                                    </Badge>
+                                ) : (
+                                    <Button
+                                        onClick={openResolveDialog}
+                                        className="gap-2 bg-white text-black hover:bg-gray-100"
+                                    >
+                                        <CheckCircle className="h-4 w-4" />
+                                        Resolve
+                                    </Button>
+                                )}
+                            </CardHeader>
+                            <CardContent>
+                                <ScrollArea className="h-[500px] pr-4">
+                                    {isLoadingTranscript ? (
+                                        <div className="flex items-center justify-center py-12 text-muted-foreground">
+                                            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                                            Loading transcript...
+                                        </div>
+                                    ) : transcript.length === 0 ? (
+                                        <div className="py-12 text-center text-sm text-muted-foreground">
+                                            No messages in this conversation
+                                        </div>
+                                    ) : (
+                                        <div className="space-y-4">
+                                            {transcript.filter(message => message.role !== 'system').map(message => {
+                                                const isCustomer = message.role === 'user';
+                                                return (
+                                                    <div
+                                                        key={message.id}
+                                                        className={cn("flex gap-3", isCustomer ? "flex-row" : "flex-row-reverse")}
+                                                    >
+                                                        <div className={cn(
+                                                            "h-8 w-8 rounded-full flex items-center justify-center shrink-0",
+                                                            isCustomer ? "bg-gray-700 text-white" : "bg-white text-black"
+                                                        )}>
+                                                            {isCustomer ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+                                                        </div>
+                                                        <div className={cn("max-w-[75%]", isCustomer ? "text-left" : "text-right")}>
+                                                            <div className={cn(
+                                                                "inline-block px-4 py-3 rounded-2xl text-sm text-left whitespace-pre-wrap",
+                                                                isCustomer ? "bg-gray-900 text-white" : "bg-white text-black"
+                                                            )}>
+                                                                {message.content}
+                                                            </div>
+                                                            <div className="text-xs text-muted-foreground mt-1">
+                                                                {formatDateTime(message.created_at)}
+                                                                {message.confidence_score !== undefined && ` • ${Math.round(message.confidence_score * 100)}% confidence`}
+                                                            </div>
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </ScrollArea>
+                                {selectedConversation.status === 'resolved' && selectedConversation.resolution_reason && (
+                                    <div className="mt-4 p-3 rounded-lg bg-muted/30 text-sm text-muted-foreground">
+                                        Resolution: {selectedConversation.resolution_reason}
+                                        {selectedConversation.customer_satisfaction_rating !== undefined && (
+                                            <span> • Rating {selectedConversation.customer_satisfaction_rating}/5</span>
+                                        )}
+                                    </div>
+                                )}
+                            </CardContent>
+                        </>
+                    ) : (
+                        <CardContent className="flex flex-col items-center justify-center h-full min-h-[400px] text-center">
+                            <MessageSquare className="h-10 w-10 text-muted-foreground mb-4" />
+                            <p className="text-muted-foreground">Select a conversation to view its transcript</p>
+                        </CardContent>
+                    )}
+                </Card>
+            </div>
+
+            {/* Resolve Dialog */}
+            <Dialog open={isResolveOpen} onOpenChange={setIsResolveOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Resolve conversation</DialogTitle>
+                        <DialogDescription>
+                            Close this conversation and record how it ended.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="resolution-reason">Resolution reason</Label>
+                            <Input
+                                id="resolution-reason"
+                                value={resolutionReason}
+                                onChange={(e) => setResolutionReason(e.target.value)}
+                                placeholder="e.g. Question answered"
+                                className="bg-background border-border"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Customer satisfaction</Label>
+                            <div className="flex gap-1">
+                                {[1, 2, 3, 4, 5].map(value => (
+                                    <Button
+                                        key={value}
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8"
+                                        onClick={() => setRating(rating === value ? undefined : value)}
+                                    >
+                                        <Star className={cn(
+                                            "h-5 w-5",
+                                            rating !== undefined && value <= rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+                                        )} />
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="resolution-feedback">Feedback</Label>
+                            <Textarea
+                                id="resolution-feedback"
+                                value={feedback}
+                                onChange={(e) => setFeedback(e.target.value)}
+                                placeholder="Optional notes or customer feedback"
+                                className="bg-background border-border min-h-[80px] resize-none"
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsResolveOpen(false)} disabled={isResolving}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleResolve}
+                            disabled={isResolving}
+                            className="bg-white text-black hover:bg-gray-100"
+                        >
+                            {isResolving ? 'Resolving...' : 'Resolve'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 };
 
-export default Conversations;
-
+export default ConversationsPage;
@@ -0,0 +1,685 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { useBusiness } from "@/contexts/business-context";
+import { usePermission } from "@/hooks/use-permission";
+import { Can } from "@/components/can";
+import { UploadVersionButton } from "@/components/upload-version-button";
+import { documentAPI, DocumentChunk, DocumentInfo, DocumentVersion, SearchResult } from "@/lib/api";
+import { chatAPI } from "@/lib/chat-api";
+import { formatFileSize, getProcessingStatusDisplay } from "@/lib/documents";
+import {
+    AlertCircle,
+    ArrowLeft,
+    ChevronDown,
+    ChevronUp,
+    FlaskConical,
+    History,
+    Layers,
+    Loader2,
+    Pencil,
+    Search,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const CHUNK_PAGE_SIZE = 100;
+
+interface TesterResults {
+    documentSearch: SearchResult[] | null;
+    contextSearch: SearchResult[] | null;
+}
+
+const scrollToChunk = (chunk: DocumentChunk) => {
+    document.getElementById(`chunk-${chunk.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+const DocumentDetailPage = () => {
+    const { documentId } = useParams<{ documentId: string }>();
+    const { currentBusiness } = useBusiness();
+    const businessId = currentBusiness?.id;
+    const businessNamespace = currentBusiness?.namespace;
+    const canEdit = usePermission('documents:update');
+
+    const [documentInfo, setDocumentInfo] = useState<DocumentInfo | null>(null);
+    const [chunks, setChunks] = useState<DocumentChunk[]>([]);
+    const [totalChunks, setTotalChunks] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [expandedChunks, setExpandedChunks] = useState<Set<string>>(new Set());
+    const [updatingChunkId, setUpdatingChunkId] = useState<string | null>(null);
+
+    const [editingChunk, setEditingChunk] = useState<DocumentChunk | null>(null);
+    const [editText, setEditText] = useState("");
+    const [isSavingChunk, setIsSavingChunk] = useState(false);
+
+    const [testQuery, setTestQuery] = useState("");
+    const [testTopK, setTestTopK] = useState('5');
+    const [isTesting, setIsTesting] = useState(false);
+    const [testResults, setTestResults] = useState<TesterResults | null>(null);
+    const [versions, setVersions] = useState<DocumentVersion[]>([]);
+    const [versionToRestore, setVersionToRestore] = useState<DocumentVersion | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+    // Links from search results point at a chunk with ?chunk=<id or index>
+    const [targetChunk, setTargetChunk] = useState<string | null>(null);
+
+    const loadDocument = useCallback(async () => {
+        if (!documentId) return;
+
+        try {
+            setIsLoading(true);
+            setError(null);
+            const [documentResponse, chunkResponse, versionResponse] = await Promise.all([
+                documentAPI.getDocument(documentId),
+                documentAPI.listChunks(documentId, CHUNK_PAGE_SIZE, 0),
+                // History is secondary, the page still works without it
+                documentAPI.listVersions(documentId).catch(err => {
+                    console.warn('Failed to load version history:', err);
+                    return null;
+                }),
+            ]);
+            setDocumentInfo(documentResponse.document);
+            setChunks(chunkResponse.chunks);
+            setTotalChunks(chunkResponse.total);
+            setVersions(versionResponse?.versions ?? []);
+        } catch (err) {
+            console.error('Error loading document:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load document');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [documentId]);
+
+    useEffect(() => {
+        loadDocument();
+    }, [loadDocument]);
+
+    useEffect(() => {
+        // Read on the client — avoids useSearchParams SSR/Suspense issues.
+        setTargetChunk(new URLSearchParams(window.location.search).get('chunk'));
+    }, []);
+
+    useEffect(() => {
+        if (!targetChunk || isLoading) return;
+        const chunk = chunks.find(item => item.id === targetChunk || String(item.chunk_index) === targetChunk);
+        if (!chunk) return;
+
+        setExpandedChunks(prev => new Set(prev).add(chunk.id));
+        requestAnimationFrame(() => scrollToChunk(chunk));
+        setTargetChunk(null);
+    }, [targetChunk, isLoading, chunks]);
+
+    const loadMoreChunks = async () => {
+        try {
+            setIsLoadingMore(true);
+            const response = await documentAPI.listChunks(documentId, CHUNK_PAGE_SIZE, chunks.length);
+            setChunks(prev => [...prev, ...response.chunks]);
+            setTotalChunks(response.total);
+        } catch (err) {
+            console.error('Error loading chunks:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to load chunks');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    const replaceChunk = (chunk: DocumentChunk) => {
+        setChunks(prev => prev.map(item => (item.id === chunk.id ? chunk : item)));
+    };
+
+    const handleToggleChunk = async (chunk: DocumentChunk, enabled: boolean) => {
+        try {
+            setUpdatingChunkId(chunk.id);
+            const response = await documentAPI.updateChunk(documentId, chunk.id, { enabled });
+            replaceChunk(response.chunk);
+            toast.success(enabled ? `Chunk #${chunk.chunk_index} enabled` : `Chunk #${chunk.chunk_index} excluded from answers`);
+        } catch (err) {
+            console.error('Error updating chunk:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to update chunk');
+        } finally {
+            setUpdatingChunkId(null);
+        }
+    };
+
+    const openEditDialog = (chunk: DocumentChunk) => {
+        setEditingChunk(chunk);
+        setEditText(chunk.text);
+    };
+
+    const handleSaveChunk = async () => {
+        if (!editingChunk) return;
+        if (!editText.trim()) {
+            toast.error('Chunk text cannot be empty');
+            return;
+        }
+
+        try {
+            setIsSavingChunk(true);
+            const response = await documentAPI.updateChunk(documentId, editingChunk.id, { text: editText });
+            replaceChunk(response.chunk);
+            setEditingChunk(null);
+            toast.success(`Chunk #${editingChunk.chunk_index} updated and re-indexed`);
+        } catch (err) {
+            console.error('Error saving chunk:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to save chunk');
+        } finally {
+            setIsSavingChunk(false);
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!versionToRestore) return;
+
+        try {
+            setIsRestoring(true);
+            await documentAPI.restoreVersion(documentId, versionToRestore.version);
+            toast.success(`Restored version ${versionToRestore.version}`, {
+                description: 'Its chunks replace the current ones once re-indexing finishes.',
+            });
+            setVersionToRestore(null);
+            await loadDocument();
+        } catch (err) {
+            console.error('Error restoring version:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to restore version');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const toggleExpanded = (chunkId: string) => {
+        setExpandedChunks(prev => {
+            const next = new Set(prev);
+            if (next.has(chunkId)) {
+                next.delete(chunkId);
+            } else {
+                next.add(chunkId);
+            }
+            return next;
+        });
+    };
+
+    // Run the same query through document search and the chatbot's retrieval
+    const handleRunTest = async () => {
+        const query = testQuery.trim();
+        if (!query || !businessId || !businessNamespace) return;
+
+        const topK = Number(testTopK);
+        setIsTesting(true);
+        const [documentSearch, contextSearch] = await Promise.allSettled([
+            documentAPI.searchDocuments(query, businessId, topK),
+            chatAPI.searchContext(businessNamespace, query, topK),
+        ]);
+
+        if (documentSearch.status === 'rejected') console.error('Document search failed:', documentSearch.reason);
+        if (contextSearch.status === 'rejected') console.error('Context search failed:', contextSearch.reason);
+        if (documentSearch.status === 'rejected' && contextSearch.status === 'rejected') {
+            toast.error('Search failed, please try again');
+        }
+
+        setTestResults({
+            documentSearch: documentSearch.status === 'fulfilled' ? documentSearch.value.results : null,
+            contextSearch: contextSearch.status === 'fulfilled' ? contextSearch.value.results : null,
+        });
+        setIsTesting(false);
+    };
+
+    const findHitChunk = (hit: SearchResult) => {
+        if (hit.document_id !== documentId) return undefined;
+        return chunks.find(chunk =>
+            (hit.chunk_id !== undefined && chunk.id === hit.chunk_id) ||
+            (hit.chunk_index !== undefined && chunk.chunk_index === hit.chunk_index)
+        );
+    };
+
+    const hitChunkIds = new Set(
+        [...(testResults?.documentSearch ?? []), ...(testResults?.contextSearch ?? [])]
+            .map(hit => findHitChunk(hit)?.id)
+            .filter((id): id is string => !!id)
+    );
+
+    const scrollToHit = (hit: SearchResult) => {
+        const chunk = findHitChunk(hit);
+        if (!chunk) {
+            toast(`Chunk #${hit.chunk_index ?? '?'} isn't loaded yet`, {
+                description: 'Load more chunks to see it in the list.',
+            });
+            return;
+        }
+        scrollToChunk(chunk);
+    };
+
+    // Show loading state
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+                    <p className="text-muted-foreground">Loading document...</p>
+                </div>
+            </div>
+        );
+    }
+
+    // Show error state
+    if (error || !documentInfo) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-4" />
+                    <p className="text-red-400 mb-4">{error || 'Document not found'}</p>
+                    <div className="flex justify-center gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href="/dashboard/documents">Back to Documents</Link>
+                        </Button>
+                        <Button onClick={loadDocument} variant="outline">
+                            Try Again
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    const statusDisplay = getProcessingStatusDisplay(documentInfo.processing_status);
+    const disabledCount = chunks.filter(chunk => !chunk.enabled).length;
+
+    const renderHits = (title: string, hits: SearchResult[] | null) => {
+        if (hits === null) {
+            return (
+                <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-foreground">{title}</h4>
+                    <p className="text-sm text-red-400">Search failed</p>
+                </div>
+            );
+        }
+
+        const ownHits = hits
+            .map((hit, index) => ({ hit, rank: index + 1 }))
+            .filter(({ hit }) => hit.document_id === documentId);
+        const otherHits = hits.length - ownHits.length;
+
+        return (
+            <div className="space-y-2">
+                <h4 className="text-sm font-medium text-foreground">{title}</h4>
+                {ownHits.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No chunks from this document were retrieved</p>
+                ) : (
+                    <div className="space-y-1">
+                        {ownHits.map(({ hit, rank }) => (
+                            <button
+                                key={`${rank}-${hit.chunk_id ?? hit.chunk_index}`}
+                                type="button"
+                                onClick={() => scrollToHit(hit)}
+                                className="flex w-full items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 text-left"
+                            >
+                                <span className="text-foreground">
+                                    #{rank} · Chunk {hit.chunk_index ?? findHitChunk(hit)?.chunk_index ?? '?'}
+                                    {hit.page !== undefined && <span className="text-muted-foreground"> · p. {hit.page}</span>}
+                                </span>
+                                <span className="text-xs text-muted-foreground">{hit.score.toFixed(3)}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {otherHits > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                        {otherHits} {otherHits === 1 ? 'result' : 'results'} came from other documents
+                    </p>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-8 p-6">
+            {/* Header Section */}
+            <div className="space-y-4">
+                <Button variant="ghost" size="sm" asChild className="gap-2 -ml-2 text-muted-foreground">
+                    <Link href="/dashboard/documents">
+                        <ArrowLeft className="h-4 w-4" />
+                        Documents
+                    </Link>
+                </Button>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="min-w-0">
+                        <h1 className="text-3xl font-bold tracking-tight text-foreground truncate">
+                            {documentInfo.original_filename}
+                        </h1>
+                        <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-muted-foreground">
+                            <span className={statusDisplay.color}>{statusDisplay.label}</span>
+                            <span>{documentInfo.file_type.toUpperCase()}</span>
+                            <span>{formatFileSize(documentInfo.size_bytes)}</span>
+                            <span>Version {documentInfo.version}</span>
+                            <span>Uploaded {new Date(documentInfo.created_at).toLocaleDateString()}</span>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Can permission="documents:update">
+                            <UploadVersionButton document={documentInfo} onUploaded={loadDocument} />
+                        </Can>
+                        <Badge variant="outline" className="gap-1">
+                            <Layers className="h-3 w-3" />
+                            {totalChunks} chunks
+                        </Badge>
+                        {disabledCount > 0 && (
+                            <Badge variant="outline" className="text-yellow-400 border-yellow-500/30">
+                                {disabledCount} disabled
+                            </Badge>
+                        )}
+                    </div>
+                </div>
+                {documentInfo.processing_error && (
+                    <p className="text-sm text-red-400">{documentInfo.processing_error}</p>
+                )}
+            </div>
+
+            <div className="grid gap-8 lg:grid-cols-3">
+                {/* Chunk List */}
+                <Card className="bg-card border-border lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle className="text-card-foreground">Extracted Chunks</CardTitle>
+                        <CardDescription>
+                            What your assistant learned from this document. Disabled chunks are kept but never used in answers.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {chunks.length === 0 ? (
+                            <div className="py-10 text-center text-muted-foreground">
+                                {statusDisplay.status === 'processing'
+                                    ? 'This document is still being processed'
+                                    : 'No chunks were extracted from this document'}
+                            </div>
+                        ) : (
+                            chunks.map(chunk => {
+                                const isExpanded = expandedChunks.has(chunk.id);
+                                const metadataEntries = Object.entries(chunk.metadata || {});
+                                return (
+                                    <div
+                                        key={chunk.id}
+                                        id={`chunk-${chunk.id}`}
+                                        className={cn(
+                                            "rounded-lg border border-border p-4 space-y-3 transition-colors",
+                                            !chunk.enabled && "opacity-60",
+                                            hitChunkIds.has(chunk.id) && "border-white bg-white/5"
+                                        )}
+                                    >
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                                <span className="font-medium text-foreground">#{chunk.chunk_index}</span>
+                                                {chunk.page !== undefined && <span>Page {chunk.page}</span>}
+                                                {chunk.start_char !== undefined && chunk.end_char !== undefined && (
+                                                    <span>Chars {chunk.start_char}-{chunk.end_char}</span>
+                                                )}
+                                                {chunk.token_count !== undefined && <span>{chunk.token_count} tokens</span>}
+                                                {chunk.edited && <Badge variant="outline" className="text-xs">Edited</Badge>}
+                                                {hitChunkIds.has(chunk.id) && (
+                                                    <Badge variant="outline" className="text-xs text-green-400 border-green-500/30">Retrieved</Badge>
+                                                )}
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <Label htmlFor={`chunk-enabled-${chunk.id}`} className="text-xs text-muted-foreground">
+                                                    {chunk.enabled ? 'Enabled' : 'Disabled'}
+                                                </Label>
+                                                <Switch
+                                                    id={`chunk-enabled-${chunk.id}`}
+                                                    checked={chunk.enabled}
+                                                    disabled={!canEdit || updatingChunkId === chunk.id}
+                                                    onCheckedChange={(checked) => handleToggleChunk(chunk, checked)}
+                                                />
+                                                {canEdit && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        title="Edit chunk"
+                                                        onClick={() => openEditDialog(chunk)}
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </div>
+
+                                        <p className={cn("text-sm text-foreground whitespace-pre-wrap", !isExpanded && "line-clamp-4")}>
+                                            {chunk.text}
+                                        </p>
+
+                                        <button
+                                            type="button"
+                                            onClick={() => toggleExpanded(chunk.id)}
+                                            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                                        >
+                                            {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                                            {isExpanded ? 'Show less' : 'Show full text and metadata'}
+                                        </button>
+
+                                        {isExpanded && metadataEntries.length > 0 && (
+                                            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 rounded-md bg-muted/30 p-3 text-xs">
+                                                {metadataEntries.map(([key, value]) => (
+                                                    <div key={key} className="contents">
+                                                        <dt className="text-muted-foreground">{key}</dt>
+                                                        <dd className="text-foreground break-all">
+                                                            {typeof value === 'string' ? value : JSON.stringify(value)}
+                                                        </dd>
+                                                    </div>
+                                                ))}
+                                            </dl>
+                                        )}
+                                    </div>
+                                );
+                            })
+                        )}
+
+                        {chunks.length < totalChunks && (
+                            <div className="flex justify-center">
+                                <Button variant="outline" onClick={loadMoreChunks} disabled={isLoadingMore}>
+                                    {isLoadingMore ? 'Loading...' : `Load more (${totalChunks - chunks.length} remaining)`}
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-8">
+                    {/* Retrieval Tester */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-card-foreground">
+                                <FlaskConical className="h-5 w-5" />
+                                Retrieval Tester
+                            </CardTitle>
+                            <CardDescription>
+                                See which chunks of this document a question retrieves
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <div className="relative">
+                                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                    <Input
+                                        placeholder="e.g. What are your opening hours?"
+                                        value={testQuery}
+                                        onChange={(e) => setTestQuery(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleRunTest()}
+                                        className="pl-10 bg-background border-border"
+                                    />
+                                </div>
+                                <div className="flex gap-2">
+                                    <Select value={testTopK} onValueChange={setTestTopK}>
+                                        <SelectTrigger className="w-[120px] bg-background border-border">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {['3', '5', '10', '20'].map(value => (
+                                                <SelectItem key={value} value={value}>Top {value}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <Button
+                                        onClick={handleRunTest}
+                                        disabled={isTesting || !testQuery.trim()}
+                                        className="flex-1 gap-2 bg-white text-black hover:bg-gray-100"
+                                    >
+                                        {isTesting && <Loader2 className="h-4 w-4 animate-spin" />}
+                                        {isTesting ? 'Searching...' : 'Run Query'}
+                                    </Button>
+                                </div>
+                            </div>
+
+                            {testResults && (
+                                <div className="space-y-4 border-t border-border pt-4">
+                                    {renderHits('Document search', testResults.documentSearch)}
+                                    {renderHits('Chatbot retrieval', testResults.contextSearch)}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {/* Version History */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-card-foreground">
+                                <History className="h-5 w-5" />
+                                Version History
+                            </CardTitle>
+                            <CardDescription>
+                                Every uploaded file is kept; restoring one re-indexes it in place of the current version
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {versions.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No earlier versions</p>
+                            ) : (
+                                <div className="space-y-3">
+                                    {versions.map(version => (
+                                        <div
+                                            key={version.version}
+                                            className="flex items-start justify-between gap-3 rounded-lg border border-border p-3"
+                                        >
+                                            <div className="min-w-0 space-y-1">
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-sm font-medium text-foreground">Version {version.version}</span>
+                                                    {version.is_current && (
+                                                        <Badge variant="outline" className="text-xs text-green-400 border-green-500/30">Current</Badge>
+                                                    )}
+                                                </div>
+                                                <p className="text-xs text-muted-foreground truncate">
+                                                    {version.original_filename} · {formatFileSize(version.size_bytes)}
+                                                    {version.num_chunks !== undefined && ` · ${version.num_chunks} chunks`}
+                                                </p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {new Date(version.created_at).toLocaleString()}
+                                                </p>
+                                                <p className="text-xs text-muted-foreground font-mono truncate" title={version.checksum}>
+                                                    {version.checksum.slice(0, 12)}
+                                                </p>
+                                            </div>
+                                            {!version.is_current && (
+                                                <Can permission="documents:update">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() => setVersionToRestore(version)}
+                                                    >
+                                                        Restore
+                                                    </Button>
+                                                </Can>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+
+            {/* Edit Chunk */}
+            <Dialog open={!!editingChunk} onOpenChange={(open) => !open && !isSavingChunk && setEditingChunk(null)}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Edit chunk #{editingChunk?.chunk_index}</DialogTitle>
+                        <DialogDescription>
+                            The chunk is re-embedded when you save, so answers use the corrected text right away.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <Textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        rows={12}
+                        className="bg-background border-border"
+                    />
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditingChunk(null)} disabled={isSavingChunk}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSaveChunk}
+                            disabled={isSavingChunk || editText === editingChunk?.text}
+                            className="bg-white text-black hover:bg-gray-100"
+                        >
+                            {isSavingChunk ? 'Saving...' : 'Save Chunk'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Restore Version Confirmation */}
+            <AlertDialog open={!!versionToRestore} onOpenChange={(open) => !open && !isRestoring && setVersionToRestore(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Restore version {versionToRestore?.version}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            The current chunks, including any edits made to them, are replaced by this version&apos;s content
+                            after it is re-indexed. The current version stays in the history.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleRestore();
+                            }}
+                            disabled={isRestoring}
+                            className="bg-white text-black hover:bg-gray-100"
+                        >
+                            {isRestoring ? 'Restoring...' : 'Restore'}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+};
+
+export default DocumentDetailPage;
@@ -1,15 +1,67 @@
 'use client'
 
 import { useState, useCallback, useEffect } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Pagination,
+    PaginationContent,
+    PaginationEllipsis,
+    PaginationItem,
+    PaginationLink,
+    PaginationNext,
+    PaginationPrevious,
+} from "@/components/ui/pagination";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { documentAPI, DocumentInfo } from "@/lib/api";
-import { businessAPI, Business } from "@/lib/business-api";
+import {
+    documentAPI,
+    DocumentBulkResponse,
+    DocumentInfo,
+    DocumentListFilters,
+    DocumentShareResponse,
+    DocumentSortField,
+} from "@/lib/api";
+import { ApiError } from "@/lib/http-client";
+import {
+    computeFileChecksum,
+    formatFileSize,
+    getDocumentCategory,
+    getFileValidationError,
+    getProcessingStatusDisplay,
+} from "@/lib/documents";
+import { useBusiness } from "@/contexts/business-context";
+import { Can } from "@/components/can";
+import { DocumentPreviewDrawer, PreviewableDocument } from "@/components/document-preview-drawer";
+import { KnowledgeSearchPanel } from "@/components/knowledge-search-panel";
+import { UploadVersionButton } from "@/components/upload-version-button";
+import { TagInput } from "@/components/tag-input";
+import { useOnboarding } from "@/hooks/use-onboarding";
 import config from "@/lib/config"
 import {
     Upload,
@@ -24,10 +76,14 @@ import {
     Trash2,
     Share,
     Calendar,
+    Copy,
+    RefreshCw,
+    Tag,
     FileIcon,
+    Loader2,
     Plus
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, getPageNumbers } from "@/lib/utils";
 
 interface UploadedFile {
     id: string;
@@ -44,133 +100,242 @@ interface UploadedFile {
     errorMessage?: string;
 }
 
-// Processing status mapping
-const getProcessingStatusDisplay = (status: string) => {
-    switch (status.toLowerCase()) {
-        case 'completed':
-            return { status: 'active', label: 'Active', color: 'text-green-400' };
-        case 'processing':
-        case 'queued':
-            return { status: 'processing', label: 'Processing', color: 'text-yellow-400' };
-        case 'failed':
-        case 'error':
-            return { status: 'error', label: 'Error', color: 'text-red-400' };
-        default:
-            return { status: 'processing', label: 'Processing', color: 'text-yellow-400' };
-    }
+const PAGE_SIZE = 20;
+
+const statusOptions = [
+    { value: 'all', label: 'All statuses' },
+    { value: 'completed', label: 'Active' },
+    { value: 'processing', label: 'Processing' },
+    { value: 'queued', label: 'Queued' },
+    { value: 'failed', label: 'Error' },
+];
+
+const fileTypeOptions = [
+    { value: 'all', label: 'All types' },
+    ...config.upload.acceptedFileTypes.map(type => ({ value: type.slice(1), label: type.slice(1).toUpperCase() })),
+];
+
+const dateRangeOptions = [
+    { value: 'all', label: 'Any time', days: 0 },
+    { value: '7', label: 'Last 7 days', days: 7 },
+    { value: '30', label: 'Last 30 days', days: 30 },
+    { value: '90', label: 'Last 90 days', days: 90 },
+    { value: '365', label: 'Last year', days: 365 },
+];
+
+const sortOptions: { value: string; label: string; field: DocumentSortField; order: 'asc' | 'desc' }[] = [
+    { value: 'newest', label: 'Newest first', field: 'created_at', order: 'desc' },
+    { value: 'oldest', label: 'Oldest first', field: 'created_at', order: 'asc' },
+    { value: 'updated', label: 'Recently updated', field: 'updated_at', order: 'desc' },
+    { value: 'name', label: 'Name (A-Z)', field: 'original_filename', order: 'asc' },
+    { value: 'name_desc', label: 'Name (Z-A)', field: 'original_filename', order: 'desc' },
+    { value: 'largest', label: 'Largest first', field: 'size_bytes', order: 'desc' },
+    { value: 'smallest', label: 'Smallest first', field: 'size_bytes', order: 'asc' },
+];
+
+// Filter state mirrored in the URL query so views can be bookmarked and shared
+interface DocumentFilterState {
+    q: string;
+    status: string;
+    type: string;
+    tag: string;
+    category: string;
+    uploaded: string;
+    sort: string;
+    page: number;
+}
+
+const DEFAULT_FILTERS: DocumentFilterState = {
+    q: '',
+    status: 'all',
+    type: 'all',
+    tag: 'all',
+    category: 'all',
+    uploaded: 'all',
+    sort: 'newest',
+    page: 1,
 };
 
-// Get category from document metadata
-// Get category from document metadata (safe, returns a string)
-const getDocumentCategory = (doc: DocumentInfo): string => {
-    // 1) prefer meta.category when it's a non-empty string
-    const metaCategory = doc.meta?.category;
-    if (typeof metaCategory === 'string' && metaCategory.trim().length > 0) {
-        return metaCategory;
-    }
+const readFiltersFromUrl = (): DocumentFilterState => {
+    // Read on the client — avoids useSearchParams SSR/Suspense issues.
+    const params = new URLSearchParams(window.location.search);
+    const pick = (key: string, options?: { value: string }[]) => {
+        const value = params.get(key);
+        if (!value || (options && !options.some(option => option.value === value))) return undefined;
+        return value;
+    };
+    const page = Number(params.get('page'));
 
-    // 2) fallback to file_type (ensure it's a string before calling toUpperCase)
-    if (typeof doc.file_type === 'string' && doc.file_type.trim().length > 0) {
-        return doc.file_type.toUpperCase();
-    }
+    return {
+        q: pick('q') ?? DEFAULT_FILTERS.q,
+        status: pick('status', statusOptions) ?? DEFAULT_FILTERS.status,
+        type: pick('type', fileTypeOptions) ?? DEFAULT_FILTERS.type,
+        tag: pick('tag') ?? DEFAULT_FILTERS.tag,
+        category: pick('category') ?? DEFAULT_FILTERS.category,
+        uploaded: pick('uploaded', dateRangeOptions) ?? DEFAULT_FILTERS.uploaded,
+        sort: pick('sort', sortOptions) ?? DEFAULT_FILTERS.sort,
+        page: Number.isInteger(page) && page > 0 ? page : DEFAULT_FILTERS.page,
+    };
+};
 
-    // 3) fallback to mime_type subtype, e.g. "application/pdf" -> "PDF"
-    if (typeof doc.mime_type === 'string' && doc.mime_type.includes('/')) {
-        const subtype = doc.mime_type.split('/')[1];
-        if (subtype && subtype.trim().length > 0) {
-            return subtype.toUpperCase();
-        }
-    }
+const writeFiltersToUrl = (filters: DocumentFilterState) => {
+    const params = new URLSearchParams();
+    (Object.keys(DEFAULT_FILTERS) as (keyof DocumentFilterState)[]).forEach(key => {
+        if (filters[key] !== DEFAULT_FILTERS[key]) params.set(key, String(filters[key]));
+    });
+    const query = params.toString();
+    window.history.replaceState(null, '', query ? `${window.location.pathname}?${query}` : window.location.pathname);
+};
+
+const toListFilters = (filters: DocumentFilterState): DocumentListFilters => {
+    const sort = sortOptions.find(option => option.value === filters.sort) ?? sortOptions[0];
+    const listFilters: DocumentListFilters = {
+        sort_by: sort.field,
+        sort_order: sort.order,
+        limit: PAGE_SIZE,
+        offset: (filters.page - 1) * PAGE_SIZE,
+    };
+    if (filters.q.trim()) listFilters.search = filters.q.trim();
+    if (filters.status !== 'all') listFilters.status = filters.status;
+    if (filters.type !== 'all') listFilters.file_type = filters.type;
+    if (filters.tag !== 'all') listFilters.tag = filters.tag;
+    if (filters.category !== 'all') listFilters.category = filters.category;
 
-    // 4) final default
-    return 'Document';
+    const days = dateRangeOptions.find(option => option.value === filters.uploaded)?.days;
+    if (days) {
+        listFilters.created_after = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    }
+    return listFilters;
 };
 
+const shareExpiryOptions = [
+    { value: '3600', label: '1 hour' },
+    { value: '86400', label: '24 hours' },
+    { value: '604800', label: '7 days' },
+    { value: '2592000', label: '30 days' },
+];
 
 const DocumentsPage = () => {
     const [files, setFiles] = useState<UploadedFile[]>([]);
     const [dragActive, setDragActive] = useState(false);
-    const [searchQuery, setSearchQuery] = useState("");
-    const [selectedCategory, setSelectedCategory] = useState("all");
+    const [filters, setFilters] = useState<DocumentFilterState>(DEFAULT_FILTERS);
+    const [filtersReady, setFiltersReady] = useState(false);
+    const [searchInput, setSearchInput] = useState("");
     const [isUploading, setIsUploading] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
-    const [currentBusiness, setCurrentBusiness] = useState<Business | null>(null);
+    const [isFetching, setIsFetching] = useState(false);
+    const [reloadToken, setReloadToken] = useState(0);
+    const { currentBusiness } = useBusiness();
+    const businessId = currentBusiness?.id;
+    const { completeStep } = useOnboarding();
     const [documents, setDocuments] = useState<DocumentInfo[]>([]);
     const [totalDocuments, setTotalDocuments] = useState(0);
+    const [statusCounts, setStatusCounts] = useState<Record<string, number> | null>(null);
+    const [totalSizeBytes, setTotalSizeBytes] = useState<number | null>(null);
+    const [availableTags, setAvailableTags] = useState<string[]>([]);
+    const [availableCategories, setAvailableCategories] = useState<string[]>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
     const [error, setError] = useState<string | null>(null);
 
+    const [previewDocument, setPreviewDocument] = useState<PreviewableDocument | null>(null);
+    const [shareDocument, setShareDocument] = useState<DocumentInfo | null>(null);
+    const [shareExpiry, setShareExpiry] = useState('86400');
+    const [shareLink, setShareLink] = useState<DocumentShareResponse | null>(null);
+    const [isSharing, setIsSharing] = useState(false);
+    const [documentToDelete, setDocumentToDelete] = useState<DocumentInfo | null>(null);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const [editingDocument, setEditingDocument] = useState<DocumentInfo | null>(null);
+    const [editTags, setEditTags] = useState<string[]>([]);
+    const [editCategory, setEditCategory] = useState("");
+    const [isSavingDetails, setIsSavingDetails] = useState(false);
+    const [isBulkTagOpen, setIsBulkTagOpen] = useState(false);
+    const [bulkAddTags, setBulkAddTags] = useState<string[]>([]);
+    const [bulkRemoveTags, setBulkRemoveTags] = useState<string[]>([]);
+    const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
+    const [isBulkWorking, setIsBulkWorking] = useState(false);
+
     const acceptedFileTypes = config.upload.acceptedFileTypes;
-    const maxFileSize = config.upload.maxFileSize;
+    const totalPages = Math.max(1, Math.ceil(totalDocuments / PAGE_SIZE));
 
-    // loadDocuments memoized so other callbacks can depend on it
-    const loadDocuments = useCallback(async (businessId: string) => {
-        try {
-            const response = await documentAPI.listDocuments(businessId, 100, 0);
-            setDocuments(response.documents);
-            setTotalDocuments(response.total);
-        } catch (err) {
-            console.error('Error loading documents:', err);
-            throw err;
-        }
+    // Pick up filters from the URL once on mount
+    useEffect(() => {
+        const initial = readFiltersFromUrl();
+        setFilters(initial);
+        setSearchInput(initial.q);
+        setFiltersReady(true);
     }, []);
 
-    // Load business and documents on component mount (memoized)
-    const loadBusinessAndDocuments = useCallback(async () => {
-        try {
-            setIsLoading(true);
-            setError(null);
-
-            // Get current business
-            const business = await businessAPI.getPrimaryBusiness();
-            if (!business) {
-                setError('No business found. Please create a business first.');
-                return;
-            }
+    useEffect(() => {
+        if (filtersReady) writeFiltersToUrl(filters);
+    }, [filters, filtersReady]);
 
-            setCurrentBusiness(business);
+    // Any filter change starts again from the first page
+    const updateFilters = useCallback((changes: Partial<Omit<DocumentFilterState, 'page'>>) => {
+        setFilters(prev => ({ ...prev, ...changes, page: 1 }));
+    }, []);
 
-            // Load documents for this business
-            await loadDocuments(business.id);
+    const goToPage = useCallback((page: number) => {
+        setFilters(prev => ({ ...prev, page }));
+    }, []);
 
-        } catch (err) {
-            console.error('Error loading business and documents:', err);
-            setError(err instanceof Error ? err.message : 'Failed to load data');
-            toast.error('Failed to load documents');
-        } finally {
-            setIsLoading(false);
-        }
-    }, [loadDocuments]);
+    // Debounce typing in the search box
+    useEffect(() => {
+        if (!filtersReady) return;
+        const timeoutId = setTimeout(() => {
+            setFilters(prev => (prev.q === searchInput ? prev : { ...prev, q: searchInput, page: 1 }));
+        }, 300);
+        return () => clearTimeout(timeoutId);
+    }, [searchInput, filtersReady]);
+
+    const reloadDocuments = useCallback(() => setReloadToken(token => token + 1), []);
 
     useEffect(() => {
-        loadBusinessAndDocuments();
-    }, [loadBusinessAndDocuments]);
-
-    const formatFileSize = useCallback((bytes: number) => {
-        if (bytes === 0) return '0 Bytes';
-        const k = 1024;
-        const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-    }, []);
+        if (!businessId || !filtersReady) return;
 
-    const validateFile = useCallback((file: File) => {
-        if (file.size > maxFileSize) {
-            toast.error(
-                `File too large. Maximum size is ${formatFileSize(maxFileSize)}`
-            );
-            return false;
-        }
+        const controller = new AbortController();
+        const load = async () => {
+            try {
+                setIsFetching(true);
+                setError(null);
+                const response = await documentAPI.listDocuments(businessId, toListFilters(filters), controller.signal);
+                setDocuments(response.documents);
+                setTotalDocuments(response.total);
+                setStatusCounts(response.status_counts ?? null);
+                setTotalSizeBytes(response.total_size_bytes ?? null);
+                if (response.tags) setAvailableTags(response.tags);
+                if (response.categories) setAvailableCategories(response.categories);
+                // Selection only spans the visible page
+                setSelectedIds(prev => new Set(response.documents.filter(doc => prev.has(doc.id)).map(doc => doc.id)));
 
-        const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-        if (!acceptedFileTypes.includes(fileExtension)) {
-            toast.error(
-                `Invalid file type. Supported types: ${acceptedFileTypes.join(', ')}`
-            );
+                // The current page can disappear when documents are removed
+                const lastPage = Math.max(1, Math.ceil(response.total / PAGE_SIZE));
+                if (filters.page > lastPage) goToPage(lastPage);
+            } catch (err) {
+                if (err instanceof ApiError && err.isAborted) return;
+                console.error('Error loading documents:', err);
+                setError(err instanceof Error ? err.message : 'Failed to load data');
+                toast.error('Failed to load documents');
+            } finally {
+                if (!controller.signal.aborted) {
+                    setIsFetching(false);
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        load();
+        return () => controller.abort();
+    }, [businessId, filters, filtersReady, reloadToken, goToPage]);
+
+    const validateFile = useCallback((file: File) => {
+        const validationError = getFileValidationError(file);
+        if (validationError) {
+            toast.error(validationError);
             return false;
         }
-
         return true;
-    }, [acceptedFileTypes, maxFileSize, formatFileSize]);
+    }, []);
 
     const pollTaskStatus = useCallback(async (taskId: string, fileId: string) => {
         try {
@@ -183,9 +348,7 @@ const DocumentsPage = () => {
                 toast.success('Document processing completed');
 
                 // Refresh documents list when processing completes
-                if (currentBusiness) {
-                    loadDocuments(currentBusiness.id);
-                }
+                reloadDocuments();
             } else if (statusResponse.status === 'failed') {
                 setFiles(prev => prev.map(f =>
                     f.id === fileId ? {
@@ -204,18 +367,50 @@ const DocumentsPage = () => {
             // Continue polling in case of temporary network issues with backoff
             setTimeout(() => pollTaskStatus(taskId, fileId), config.polling.interval * config.polling.backoffMultiplier);
         }
-    }, [currentBusiness, loadDocuments]);
+    }, [reloadDocuments]);
 
-    const uploadFile = useCallback(async (file: File, fileId: string) => {
-        if (!currentBusiness) {
+    const uploadFile = useCallback(async (file: File, fileId: string, allowDuplicate: boolean = false) => {
+        if (!businessId) {
             toast.error('No business selected');
             return;
         }
 
+        // Identical content already in the library would only be retrieved twice
+        if (!allowDuplicate) {
+            try {
+                const duplicate = await documentAPI.findDuplicate(businessId, await computeFileChecksum(file));
+                if (duplicate) {
+                    setFiles(prev => prev.map(f =>
+                        f.id === fileId ? {
+                            ...f,
+                            status: 'error',
+                            errorMessage: `Identical to ${duplicate.original_filename}`
+                        } : f
+                    ));
+                    toast.warning(`${file.name} is already in your library`, {
+                        description: `It has the same content as ${duplicate.original_filename}.`,
+                        action: {
+                            label: 'Upload anyway',
+                            onClick: () => {
+                                setFiles(prev => prev.map(f =>
+                                    f.id === fileId ? { ...f, status: 'uploading', progress: 0, errorMessage: undefined } : f
+                                ));
+                                uploadFile(file, fileId, true);
+                            },
+                        },
+                    });
+                    return;
+                }
+            } catch (err) {
+                // The check is a convenience; don't block the upload when it fails
+                console.warn('Duplicate check failed:', err);
+            }
+        }
+
         try {
             const response = await documentAPI.uploadDocument(
                 file,
-                currentBusiness.id,
+                businessId,
                 (progress) => {
                     setFiles(prev => prev.map(f =>
                         f.id === fileId ? { ...f, progress } : f
@@ -236,14 +431,13 @@ const DocumentsPage = () => {
             ));
 
             toast.success(`Upload successful: ${response.filename}`);
+            completeStep('document');
 
             // Start polling for processing status
             pollTaskStatus(response.task_id, fileId);
 
             // Refresh documents list after successful upload
-            if (currentBusiness) {
-                setTimeout(() => loadDocuments(currentBusiness.id), 1000);
-            }
+            setTimeout(reloadDocuments, 1000);
 
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Upload failed';
@@ -256,7 +450,173 @@ const DocumentsPage = () => {
             ));
             toast.error(`Upload failed: ${errorMessage}`);
         }
-    }, [currentBusiness, pollTaskStatus, loadDocuments]);
+    }, [businessId, pollTaskStatus, reloadDocuments, completeStep]);
+
+    const handleDownload = useCallback(async (doc: Pick<DocumentInfo, 'id' | 'original_filename'>) => {
+        try {
+            const { download_url } = await documentAPI.getDownloadUrl(doc.id);
+            const link = document.createElement('a');
+            link.href = download_url;
+            link.download = doc.original_filename;
+            link.rel = 'noopener';
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+        } catch (err) {
+            console.error('Error downloading document:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to download document');
+        }
+    }, []);
+
+    const openShareDialog = (doc: DocumentInfo) => {
+        setShareDocument(doc);
+        setShareLink(null);
+    };
+
+    const handleCreateShareLink = async () => {
+        if (!shareDocument) return;
+
+        try {
+            setIsSharing(true);
+            setShareLink(await documentAPI.createShareLink(shareDocument.id, Number(shareExpiry)));
+        } catch (err) {
+            console.error('Error creating share link:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to create share link');
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const copyShareLink = () => {
+        if (!shareLink) return;
+        navigator.clipboard.writeText(shareLink.share_url);
+        toast.success('Share link copied to clipboard');
+    };
+
+    const handleDelete = async () => {
+        if (!documentToDelete) return;
+
+        try {
+            setIsDeleting(true);
+            const response = await documentAPI.deleteDocument(documentToDelete.id);
+            toast.success(`${documentToDelete.original_filename} deleted`, {
+                description: response.vectors_deleted !== undefined
+                    ? `${response.vectors_deleted} indexed chunks removed from the knowledge base`
+                    : undefined,
+            });
+            if (previewDocument?.id === documentToDelete.id) setPreviewDocument(null);
+            setDocumentToDelete(null);
+            reloadDocuments();
+        } catch (err) {
+            console.error('Error deleting document:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to delete document');
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    const toggleSelected = (documentId: string, selected: boolean) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (selected) {
+                next.add(documentId);
+            } else {
+                next.delete(documentId);
+            }
+            return next;
+        });
+    };
+
+    const toggleSelectAll = (selected: boolean) => {
+        setSelectedIds(selected ? new Set(documents.map(doc => doc.id)) : new Set());
+    };
+
+    const openEditDetails = (doc: DocumentInfo) => {
+        setEditingDocument(doc);
+        setEditTags(doc.tags || []);
+        const category = doc.meta?.category;
+        setEditCategory(typeof category === 'string' ? category : '');
+    };
+
+    const handleSaveDetails = async () => {
+        if (!editingDocument) return;
+
+        try {
+            setIsSavingDetails(true);
+            const response = await documentAPI.updateDocument(editingDocument.id, {
+                tags: editTags,
+                category: editCategory.trim() || null,
+            });
+            setDocuments(prev => prev.map(doc => (doc.id === response.document.id ? response.document : doc)));
+            setEditingDocument(null);
+            toast.success('Document updated');
+        } catch (err) {
+            console.error('Error updating document:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to update document');
+        } finally {
+            setIsSavingDetails(false);
+        }
+    };
+
+    // Shared by the bulk actions: run, report partial failures, refresh
+    const runBulkAction = async (
+        action: (businessId: string, documentIds: string[]) => Promise<DocumentBulkResponse>,
+        successMessage: (count: number) => string
+    ) => {
+        if (!businessId || selectedIds.size === 0) return false;
+
+        try {
+            setIsBulkWorking(true);
+            const response = await action(businessId, Array.from(selectedIds));
+            if (response.failed.length > 0) {
+                toast.warning(`${successMessage(response.processed)}, ${response.failed.length} failed`, {
+                    description: response.failed[0].error,
+                });
+            } else {
+                toast.success(successMessage(response.processed));
+            }
+            setSelectedIds(new Set());
+            reloadDocuments();
+            return true;
+        } catch (err) {
+            console.error('Bulk action failed:', err);
+            toast.error(err instanceof Error ? err.message : 'Bulk action failed');
+            return false;
+        } finally {
+            setIsBulkWorking(false);
+        }
+    };
+
+    const handleBulkDelete = async () => {
+        const done = await runBulkAction(
+            (id, documentIds) => documentAPI.bulkDeleteDocuments(id, documentIds),
+            count => `${count} ${count === 1 ? 'document' : 'documents'} deleted`
+        );
+        if (done) setIsBulkDeleteOpen(false);
+    };
+
+    const handleBulkReprocess = () => runBulkAction(
+        (id, documentIds) => documentAPI.bulkReprocessDocuments(id, documentIds),
+        count => `${count} ${count === 1 ? 'document' : 'documents'} queued for reprocessing`
+    );
+
+    const openBulkTagDialog = () => {
+        setBulkAddTags([]);
+        setBulkRemoveTags([]);
+        setIsBulkTagOpen(true);
+    };
+
+    const handleBulkRetag = async () => {
+        if (bulkAddTags.length === 0 && bulkRemoveTags.length === 0) {
+            toast.error('Choose tags to add or remove');
+            return;
+        }
+        const done = await runBulkAction(
+            (id, documentIds) => documentAPI.bulkUpdateTags(id, documentIds, { add: bulkAddTags, remove: bulkRemoveTags }),
+            count => `Tags updated on ${count} ${count === 1 ? 'document' : 'documents'}`
+        );
+        if (done) setIsBulkTagOpen(false);
+    };
 
     const handleFiles = useCallback(async (fileList: FileList) => {
         if (isUploading) {
@@ -328,14 +688,37 @@ const DocumentsPage = () => {
         return <FileIcon className={`${sizeClass} text-gray-400`} />;
     }, []);
 
-    const filteredDocuments = documents.filter(doc => {
-        const matchesSearch = doc.original_filename.toLowerCase().includes(searchQuery.toLowerCase());
-        const category = getDocumentCategory(doc);
-        const matchesCategory = selectedCategory === "all" || category === selectedCategory;
-        return matchesSearch && matchesCategory;
-    });
+    // Fall back to the current page when the server doesn't send the business-wide aggregates
+    const libraryTotal = statusCounts
+        ? Object.values(statusCounts).reduce((acc, count) => acc + count, 0)
+        : totalDocuments;
+    const processingCount = statusCounts
+        ? (statusCounts.processing ?? 0) + (statusCounts.queued ?? 0)
+        : documents.filter(doc => getProcessingStatusDisplay(doc.processing_status).status === 'processing').length;
+    const storageUsed = totalSizeBytes ?? documents.reduce((acc, doc) => acc + doc.size_bytes, 0);
+    const tagOptions = Array.from(new Set([
+        ...availableTags,
+        ...documents.flatMap(doc => doc.tags || []),
+        ...(filters.tag !== 'all' ? [filters.tag] : []),
+    ])).sort();
+    const categoryOptions = Array.from(new Set([
+        ...availableCategories,
+        ...documents
+            .map(doc => doc.meta?.category)
+            .filter((category): category is string => typeof category === 'string' && category.trim().length > 0),
+        ...(filters.category !== 'all' ? [filters.category] : []),
+    ])).sort();
+    const hasActiveFilters = filters.q !== '' || filters.status !== 'all' || filters.type !== 'all'
+        || filters.tag !== 'all' || filters.category !== 'all' || filters.uploaded !== 'all';
+    const selectedDocuments = documents.filter(doc => selectedIds.has(doc.id));
+    const allSelected = documents.length > 0 && selectedDocuments.length === documents.length;
+    const rangeStart = totalDocuments === 0 ? 0 : (filters.page - 1) * PAGE_SIZE + 1;
+    const rangeEnd = Math.min(filters.page * PAGE_SIZE, totalDocuments);
 
-    const categories = ["all", ...Array.from(new Set(documents.map(doc => getDocumentCategory(doc))))];
+    const clearFilters = () => {
+        setSearchInput('');
+        setFilters(prev => ({ ...DEFAULT_FILTERS, sort: prev.sort }));
+    };
 
     // Show loading state
     if (isLoading) {
@@ -350,13 +733,13 @@ const DocumentsPage = () => {
     }
 
     // Show error state
-    if (error) {
+    if (error && documents.length === 0) {
         return (
             <div className="flex items-center justify-center min-h-[400px]">
                 <div className="text-center">
                     <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-4" />
                     <p className="text-red-400 mb-4">{error}</p>
-                    <Button onClick={loadBusinessAndDocuments} variant="outline">
+                    <Button onClick={reloadDocuments} variant="outline">
                         Try Again
                     </Button>
                 </div>
@@ -376,24 +759,26 @@ const DocumentsPage = () => {
                         Upload and manage training documents for {currentBusiness?.name || 'your business'}
                     </p>
                 </div>
-                <div>
-                    <Button
-                        className="gap-2 bg-white text-black hover:bg-gray-100"
-                        onClick={() => document.getElementById('header-file-input')?.click()}
-                        disabled={isUploading}
-                    >
-                        <Plus className="h-4 w-4" />
-                        {isUploading ? 'Uploading...' : 'Upload Document'}
-                    </Button>
-                    <input
-                        id="header-file-input"
-                        type="file"
-                        multiple
-                        accept={acceptedFileTypes.join(',')}
-                        onChange={(e) => e.target.files && handleFiles(e.target.files)}
-                        className="hidden"
-                    />
-                </div>
+                <Can permission="documents:upload">
+                    <div>
+                        <Button
+                            className="gap-2 bg-white text-black hover:bg-gray-100"
+                            onClick={() => document.getElementById('header-file-input')?.click()}
+                            disabled={isUploading}
+                        >
+                            <Plus className="h-4 w-4" />
+                            {isUploading ? 'Uploading...' : 'Upload Document'}
+                        </Button>
+                        <input
+                            id="header-file-input"
+                            type="file"
+                            multiple
+                            accept={acceptedFileTypes.join(',')}
+                            onChange={(e) => e.target.files && handleFiles(e.target.files)}
+                            className="hidden"
+                        />
+                    </div>
+                </Can>
             </div>
 
             {/* Stats Cards */}
@@ -406,7 +791,7 @@ const DocumentsPage = () => {
                         <FileText className="h-4 w-4 text-muted-foreground" />
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold text-card-foreground">{totalDocuments}</div>
+                        <div className="text-2xl font-bold text-card-foreground">{libraryTotal}</div>
                         <p className="text-xs text-muted-foreground">
                             Active knowledge base files
                         </p>
@@ -421,7 +806,7 @@ const DocumentsPage = () => {
                     </CardHeader>
                     <CardContent>
                         <div className="text-2xl font-bold text-card-foreground">
-                            {formatFileSize(documents.reduce((acc, doc) => acc + doc.size_bytes, 0))}
+                            {formatFileSize(storageUsed)}
                         </div>
                         <p className="text-xs text-muted-foreground">
                             Of 1GB available
@@ -437,7 +822,7 @@ const DocumentsPage = () => {
                     </CardHeader>
                     <CardContent>
                         <div className="text-2xl font-bold text-card-foreground">
-                            {documents.filter(doc => getProcessingStatusDisplay(doc.processing_status).status === 'processing').length}
+                            {processingCount}
                         </div>
                         <p className="text-xs text-muted-foreground">
                             Documents being indexed
@@ -452,38 +837,139 @@ const DocumentsPage = () => {
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
                         placeholder="Search documents..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
                         className="pl-10 bg-background border-border"
                     />
                 </div>
-                <div className="flex gap-2">
-                    {categories.map((category) => (
-                        <Button
-                            key={category}
-                            variant={selectedCategory === category ? "default" : "outline"}
-                            size="sm"
-                            onClick={() => setSelectedCategory(category)}
-                            className="capitalize"
-                        >
-                            {category}
+                <div className="flex flex-wrap gap-2">
+                    <Select value={filters.status} onValueChange={(status) => updateFilters({ status })}>
+                        <SelectTrigger className="w-[150px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {statusOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={filters.type} onValueChange={(type) => updateFilters({ type })}>
+                        <SelectTrigger className="w-[130px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {fileTypeOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={filters.tag} onValueChange={(tag) => updateFilters({ tag })}>
+                        <SelectTrigger className="w-[140px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All tags</SelectItem>
+                            {tagOptions.map(tag => (
+                                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={filters.category} onValueChange={(category) => updateFilters({ category })}>
+                        <SelectTrigger className="w-[160px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All categories</SelectItem>
+                            {categoryOptions.map(category => (
+                                <SelectItem key={category} value={category}>{category}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={filters.uploaded} onValueChange={(uploaded) => updateFilters({ uploaded })}>
+                        <SelectTrigger className="w-[150px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {dateRangeOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort })}>
+                        <SelectTrigger className="w-[170px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {sortOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {hasActiveFilters && (
+                        <Button variant="ghost" onClick={clearFilters} className="gap-2">
+                            <X className="h-4 w-4" />
+                            Clear
                         </Button>
-                    ))}
+                    )}
                 </div>
             </div>
 
             {/* Documents Table */}
             <Card className="bg-card border-border">
                 <CardHeader>
-                    <CardTitle className="text-card-foreground">Document Library</CardTitle>
+                    <CardTitle className="flex items-center gap-2 text-card-foreground">
+                        Document Library
+                        {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    </CardTitle>
                     <CardDescription>
                         Manage your uploaded documents and training materials
                     </CardDescription>
                 </CardHeader>
-                <CardContent>
-                    <Table>
+                <CardContent className="space-y-4">
+                    {selectedDocuments.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-muted/30 px-4 py-2">
+                            <span className="text-sm font-medium text-foreground mr-auto">
+                                {selectedDocuments.length} selected
+                            </span>
+                            <Can permission="documents:update">
+                                <Button variant="outline" size="sm" className="gap-2" onClick={openBulkTagDialog} disabled={isBulkWorking}>
+                                    <Tag className="h-4 w-4" />
+                                    Edit Tags
+                                </Button>
+                                <Button variant="outline" size="sm" className="gap-2" onClick={handleBulkReprocess} disabled={isBulkWorking}>
+                                    <RefreshCw className="h-4 w-4" />
+                                    Reprocess
+                                </Button>
+                            </Can>
+                            <Can permission="documents:delete">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="gap-2 text-red-400 hover:text-red-300"
+                                    onClick={() => setIsBulkDeleteOpen(true)}
+                                    disabled={isBulkWorking}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                    Delete
+                                </Button>
+                            </Can>
+                            <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())} disabled={isBulkWorking}>
+                                Clear
+                            </Button>
+                        </div>
+                    )}
+
+                    <Table className={cn(isFetching && "opacity-60")}>
                         <TableHeader>
                             <TableRow className="border-border hover:bg-muted/50">
+                                <TableHead className="w-[40px]">
+                                    <Checkbox
+                                        checked={allSelected ? true : selectedDocuments.length > 0 ? 'indeterminate' : false}
+                                        onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                                        aria-label="Select all documents on this page"
+                                        disabled={documents.length === 0}
+                                    />
+                                </TableHead>
                                 <TableHead className="text-muted-foreground">Name</TableHead>
                                 <TableHead className="text-muted-foreground">Category</TableHead>
                                 <TableHead className="text-muted-foreground">Size</TableHead>
@@ -494,15 +980,61 @@ const DocumentsPage = () => {
                             </TableRow>
                         </TableHeader>
                         <TableBody>
-                            {filteredDocuments.map((doc) => {
+                            {documents.length === 0 && (
+                                <TableRow className="border-border hover:bg-transparent">
+                                    <TableCell colSpan={8} className="py-10 text-center text-muted-foreground">
+                                        {hasActiveFilters ? 'No documents match these filters' : 'No documents uploaded yet'}
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {documents.map((doc) => {
                                 const statusDisplay = getProcessingStatusDisplay(doc.processing_status);
                                 const category = getDocumentCategory(doc);
                                 return (
-                                    <TableRow key={doc.id} className="border-border hover:bg-muted/30">
+                                    <TableRow
+                                        key={doc.id}
+                                        data-state={selectedIds.has(doc.id) ? 'selected' : undefined}
+                                        className="border-border hover:bg-muted/30"
+                                    >
+                                        <TableCell>
+                                            <Checkbox
+                                                checked={selectedIds.has(doc.id)}
+                                                onCheckedChange={(checked) => toggleSelected(doc.id, checked === true)}
+                                                aria-label={`Select ${doc.original_filename}`}
+                                            />
+                                        </TableCell>
                                         <TableCell className="font-medium">
                                             <div className="flex items-center gap-3">
                                                 {getFileIcon(doc.mime_type)}
-                                                <span className="text-foreground">{doc.original_filename}</span>
+                                                <div className="min-w-0 space-y-1">
+                                                    <div className="flex items-center gap-2">
+                                                        <Link
+                                                            href={`/dashboard/documents/${doc.id}`}
+                                                            className="text-foreground hover:underline"
+                                                            title="Inspect chunks"
+                                                        >
+                                                            {doc.original_filename}
+                                                        </Link>
+                                                        {doc.version > 1 && (
+                                                            <Badge variant="outline" className="text-xs">v{doc.version}</Badge>
+                                                        )}
+                                                    </div>
+                                                    {doc.tags?.length > 0 && (
+                                                        <div className="flex flex-wrap gap-1">
+                                                            {doc.tags.map(tag => (
+                                                                <button
+                                                                    key={tag}
+                                                                    type="button"
+                                                                    onClick={() => updateFilters({ tag })}
+                                                                    className="rounded-sm bg-white/10 px-1.5 py-0.5 text-xs font-normal text-muted-foreground hover:text-foreground"
+                                                                    title={`Show documents tagged ${tag}`}
+                                                                >
+                                                                    {tag}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </div>
                                             </div>
                                         </TableCell>
                                         <TableCell>
@@ -546,18 +1078,56 @@ const DocumentsPage = () => {
                                         </TableCell>
                                         <TableCell>
                                             <div className="flex items-center gap-1">
-                                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    title="Preview"
+                                                    onClick={() => setPreviewDocument(doc)}
+                                                >
                                                     <Eye className="h-4 w-4" />
                                                 </Button>
-                                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    title="Download"
+                                                    onClick={() => handleDownload(doc)}
+                                                >
                                                     <Download className="h-4 w-4" />
                                                 </Button>
-                                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    title="Share link"
+                                                    onClick={() => openShareDialog(doc)}
+                                                >
                                                     <Share className="h-4 w-4" />
                                                 </Button>
-                                                <Button variant="ghost" size="icon" className="h-8 w-8 text-red-400 hover:text-red-300">
-                                                    <Trash2 className="h-4 w-4" />
-                                                </Button>
+                                                <Can permission="documents:update">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        title="Edit tags and category"
+                                                        onClick={() => openEditDetails(doc)}
+                                                    >
+                                                        <Tag className="h-4 w-4" />
+                                                    </Button>
+                                                    <UploadVersionButton document={doc} onUploaded={reloadDocuments} iconOnly />
+                                                </Can>
+                                                <Can permission="documents:delete">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8 text-red-400 hover:text-red-300"
+                                                        title="Delete"
+                                                        onClick={() => setDocumentToDelete(doc)}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </Can>
                                             </div>
                                         </TableCell>
                                     </TableRow>
@@ -565,9 +1135,71 @@ const DocumentsPage = () => {
                             })}
                         </TableBody>
                     </Table>
+
+                    {totalDocuments > 0 && (
+                        <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                            <p className="text-sm text-muted-foreground whitespace-nowrap">
+                                Showing {rangeStart}-{rangeEnd} of {totalDocuments}
+                            </p>
+                            {totalPages > 1 && (
+                                <Pagination className="mx-0 w-auto">
+                                    <PaginationContent>
+                                        <PaginationItem>
+                                            <PaginationPrevious
+                                                href="#"
+                                                aria-disabled={filters.page === 1}
+                                                className={cn(filters.page === 1 && "pointer-events-none opacity-50")}
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    goToPage(filters.page - 1);
+                                                }}
+                                            />
+                                        </PaginationItem>
+                                        {getPageNumbers(filters.page, totalPages).map((page, index) => (
+                                            <PaginationItem key={page ?? `gap-${index}`}>
+                                                {page === null ? (
+                                                    <PaginationEllipsis />
+                                                ) : (
+                                                    <PaginationLink
+                                                        href="#"
+                                                        isActive={page === filters.page}
+                                                        onClick={(e) => {
+                                                            e.preventDefault();
+                                                            goToPage(page);
+                                                        }}
+                                                    >
+                                                        {page}
+                                                    </PaginationLink>
+                                                )}
+                                            </PaginationItem>
+                                        ))}
+                                        <PaginationItem>
+                                            <PaginationNext
+                                                href="#"
+                                                aria-disabled={filters.page === totalPages}
+                                                className={cn(filters.page === totalPages && "pointer-events-none opacity-50")}
+                                                onClick={(e) => {
+                                                    e.preventDefault();
+                                                    goToPage(filters.page + 1);
+                                                }}
+                                            />
+                                        </PaginationItem>
+                                    </PaginationContent>
+                                </Pagination>
+                            )}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
+            {currentBusiness && (
+                <KnowledgeSearchPanel
+                    businessId={currentBusiness.id}
+                    businessNamespace={currentBusiness.namespace}
+                    availableTags={tagOptions}
+                />
+            )}
+
             {/* Upload Progress Section */}
             {files.length > 0 && (
                 <Card className="bg-card border-border">
@@ -594,12 +1226,27 @@ const DocumentsPage = () => {
                                                 {file.name}
                                             </p>
                                             <div className="flex items-center gap-2">
-                                                {file.status === 'success' && (
+                                                {file.status === 'success' && file.documentId && (
                                                     <>
-                                                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8"
+                                                            onClick={() => setPreviewDocument({
+                                                                id: file.documentId!,
+                                                                original_filename: file.name,
+                                                                file_type: file.name.split('.').pop()?.toLowerCase() || '',
+                                                                mime_type: file.type,
+                                                            })}
+                                                        >
                                                             <Eye className="h-4 w-4" />
                                                         </Button>
-                                                        <Button variant="ghost" size="icon" className="h-8 w-8">
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8"
+                                                            onClick={() => handleDownload({ id: file.documentId!, original_filename: file.name })}
+                                                        >
                                                             <Download className="h-4 w-4" />
                                                         </Button>
                                                     </>
@@ -661,61 +1308,262 @@ const DocumentsPage = () => {
             )}
 
             {/* Quick Upload Area */}
-            <Card className="bg-card border-border">
-                <CardHeader>
-                    <CardTitle className="text-card-foreground">Quick Upload</CardTitle>
-                    <CardDescription>
-                        Drag and drop files or click to browse
-                    </CardDescription>
-                </CardHeader>
-                <CardContent>
-                    <div
-                        className={cn(
-                            "rounded-lg border-2 border-dashed transition-all duration-200",
-                            dragActive
-                                ? "border-white bg-white/5 scale-[1.02]"
-                                : "border-border hover:border-white/50",
-                            "p-8 text-center cursor-pointer"
-                        )}
-                        onDragEnter={handleDrag}
-                        onDragLeave={handleDrag}
-                        onDragOver={handleDrag}
-                        onDrop={handleDrop}
-                        onClick={() => document.getElementById('quick-upload-file-input')?.click()}
-                    >
-                        <div className="space-y-4">
-                            <div className="mx-auto w-16 h-16 bg-white/10 rounded-full flex items-center justify-center">
-                                <Upload className="w-8 h-8 text-white" />
-                            </div>
+            <Can permission="documents:upload">
+                <Card className="bg-card border-border">
+                    <CardHeader>
+                        <CardTitle className="text-card-foreground">Quick Upload</CardTitle>
+                        <CardDescription>
+                            Drag and drop files or click to browse
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div
+                            className={cn(
+                                "rounded-lg border-2 border-dashed transition-all duration-200",
+                                dragActive
+                                    ? "border-white bg-white/5 scale-[1.02]"
+                                    : "border-border hover:border-white/50",
+                                "p-8 text-center cursor-pointer"
+                            )}
+                            onDragEnter={handleDrag}
+                            onDragLeave={handleDrag}
+                            onDragOver={handleDrag}
+                            onDrop={handleDrop}
+                            onClick={() => document.getElementById('quick-upload-file-input')?.click()}
+                        >
+                            <div className="space-y-4">
+                                <div className="mx-auto w-16 h-16 bg-white/10 rounded-full flex items-center justify-center">
+                                    <Upload className="w-8 h-8 text-white" />
+                                </div>
 
-                            <div>
-                                <h3 className="text-lg font-semibold text-foreground">
-                                    Drop files here or click to browse
-                                </h3>
-                                <p className="text-muted-foreground mt-1">
-                                    Supports PDF, DOC, TXT, CSV, and Excel files up to 10MB
-                                </p>
+                                <div>
+                                    <h3 className="text-lg font-semibold text-foreground">
+                                        Drop files here or click to browse
+                                    </h3>
+                                    <p className="text-muted-foreground mt-1">
+                                        Supports PDF, DOC, TXT, CSV, and Excel files up to 10MB
+                                    </p>
+                                </div>
+
+                                <div className="flex flex-wrap justify-center gap-2">
+                                    {acceptedFileTypes.map(type => (
+                                        <Badge key={type} variant="outline" className="text-xs">
+                                            {type.toUpperCase()}
+                                        </Badge>
+                                    ))}
+                                </div>
                             </div>
+                        </div>
+                        <input
+                            id="quick-upload-file-input"
+                            type="file"
+                            multiple
+                            accept={acceptedFileTypes.join(',')}
+                            onChange={(e) => e.target.files && handleFiles(e.target.files)}
+                            className="hidden"
+                        />
+                    </CardContent>
+                </Card>
+            </Can>
+
+            <DocumentPreviewDrawer
+                document={previewDocument}
+                onOpenChange={(open) => !open && setPreviewDocument(null)}
+                onDownload={handleDownload}
+            />
 
-                            <div className="flex flex-wrap justify-center gap-2">
-                                {acceptedFileTypes.map(type => (
-                                    <Badge key={type} variant="outline" className="text-xs">
-                                        {type.toUpperCase()}
-                                    </Badge>
+            {/* Edit Tags and Category */}
+            <Dialog open={!!editingDocument} onOpenChange={(open) => !open && !isSavingDetails && setEditingDocument(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Edit {editingDocument?.original_filename}</DialogTitle>
+                        <DialogDescription>
+                            Tags and categories organize the library and can limit what the assistant searches.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="document-category" className="text-sm font-medium">Category</Label>
+                            <Input
+                                id="document-category"
+                                list="document-category-options"
+                                value={editCategory}
+                                onChange={(e) => setEditCategory(e.target.value)}
+                                placeholder={editingDocument ? `Defaults to ${getDocumentCategory({ ...editingDocument, meta: {} })}` : ''}
+                                className="bg-background border-border"
+                            />
+                            <datalist id="document-category-options">
+                                {categoryOptions.map(category => (
+                                    <option key={category} value={category} />
                                 ))}
-                            </div>
+                            </datalist>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="document-tags" className="text-sm font-medium">Tags</Label>
+                            <TagInput id="document-tags" value={editTags} onChange={setEditTags} suggestions={tagOptions} />
                         </div>
                     </div>
-                    <input
-                        id="quick-upload-file-input"
-                        type="file"
-                        multiple
-                        accept={acceptedFileTypes.join(',')}
-                        onChange={(e) => e.target.files && handleFiles(e.target.files)}
-                        className="hidden"
-                    />
-                </CardContent>
-            </Card>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditingDocument(null)} disabled={isSavingDetails}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSaveDetails} disabled={isSavingDetails} className="bg-white text-black hover:bg-gray-100">
+                            {isSavingDetails ? 'Saving...' : 'Save'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Bulk Re-tag */}
+            <Dialog open={isBulkTagOpen} onOpenChange={(open) => !isBulkWorking && setIsBulkTagOpen(open)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Edit tags on {selectedDocuments.length} {selectedDocuments.length === 1 ? 'document' : 'documents'}</DialogTitle>
+                        <DialogDescription>
+                            Other tags on these documents are left as they are.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="bulk-add-tags" className="text-sm font-medium">Add tags</Label>
+                            <TagInput id="bulk-add-tags" value={bulkAddTags} onChange={setBulkAddTags} suggestions={tagOptions} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="bulk-remove-tags" className="text-sm font-medium">Remove tags</Label>
+                            <TagInput
+                                id="bulk-remove-tags"
+                                value={bulkRemoveTags}
+                                onChange={setBulkRemoveTags}
+                                suggestions={Array.from(new Set(selectedDocuments.flatMap(doc => doc.tags || []))).sort()}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsBulkTagOpen(false)} disabled={isBulkWorking}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleBulkRetag} disabled={isBulkWorking} className="bg-white text-black hover:bg-gray-100">
+                            {isBulkWorking ? 'Applying...' : 'Apply'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Bulk Delete Confirmation */}
+            <AlertDialog open={isBulkDeleteOpen} onOpenChange={(open) => !isBulkWorking && setIsBulkDeleteOpen(open)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>
+                            Delete {selectedDocuments.length} {selectedDocuments.length === 1 ? 'document' : 'documents'}?
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                            The files and their indexed content are removed from the knowledge base. This can&apos;t be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isBulkWorking}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleBulkDelete();
+                            }}
+                            disabled={isBulkWorking}
+                            className="bg-red-600 text-white hover:bg-red-700"
+                        >
+                            {isBulkWorking ? 'Deleting...' : 'Delete'}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
+            {/* Share Link */}
+            <Dialog open={!!shareDocument} onOpenChange={(open) => !open && !isSharing && setShareDocument(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Share {shareDocument?.original_filename}</DialogTitle>
+                        <DialogDescription>
+                            Anyone with the link can download this document until it expires.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label className="text-sm font-medium">Link expires after</Label>
+                            <Select
+                                value={shareExpiry}
+                                onValueChange={(value) => {
+                                    setShareExpiry(value);
+                                    setShareLink(null);
+                                }}
+                            >
+                                <SelectTrigger className="w-full bg-background border-border">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {shareExpiryOptions.map(option => (
+                                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {shareLink && (
+                            <div className="space-y-2">
+                                <Label htmlFor="share-url" className="text-sm font-medium">Share link</Label>
+                                <div className="flex gap-2">
+                                    <Input
+                                        id="share-url"
+                                        readOnly
+                                        value={shareLink.share_url}
+                                        onFocus={(e) => e.target.select()}
+                                        className="bg-background border-border font-mono text-xs"
+                                    />
+                                    <Button variant="outline" size="icon" onClick={copyShareLink} title="Copy link">
+                                        <Copy className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Expires {new Date(shareLink.expires_at).toLocaleString()}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShareDocument(null)} disabled={isSharing}>
+                            Close
+                        </Button>
+                        {!shareLink && (
+                            <Button onClick={handleCreateShareLink} disabled={isSharing} className="bg-white text-black hover:bg-gray-100">
+                                {isSharing ? 'Creating...' : 'Create Link'}
+                            </Button>
+                        )}
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Delete Confirmation */}
+            <AlertDialog open={!!documentToDelete} onOpenChange={(open) => !open && !isDeleting && setDocumentToDelete(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {documentToDelete?.original_filename}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            The file and its indexed content are removed from the knowledge base, so your assistant
+                            will stop using it in answers. This can&apos;t be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleDelete();
+                            }}
+                            disabled={isDeleting}
+                            className="bg-red-600 text-white hover:bg-red-700"
+                        >
+                            {isDeleting ? 'Deleting...' : 'Delete'}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
         </div>
     );
 };
@@ -1,11 +1,32 @@
 'use client'
 
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { businessAPI, Business } from "@/lib/business-api";
+import { useBusiness } from "@/contexts/business-context";
+import { usePermission } from "@/hooks/use-permission";
+import config from "@/lib/config";
+import {
+    integrationsAPI,
+    Integration,
+    IntegrationCredentials,
+    IntegrationHealth,
+    IntegrationPlatform,
+    INTEGRATION_PLATFORMS,
+} from "@/lib/integrations-api";
 import {
     CheckCircle,
     AlertCircle,
@@ -16,101 +37,360 @@ import {
     Instagram,
     MessageSquare,
     Smartphone,
-    Zap
+    Zap,
+    Activity,
+    Loader2,
+    Settings
 } from "lucide-react";
 
+// Any key of any platform's credentials, so field definitions can't drift from the API types
+type CredentialName = { [P in IntegrationPlatform]: keyof IntegrationCredentials[P] & string }[IntegrationPlatform];
+
+interface CredentialField {
+    name: CredentialName;
+    label: string;
+    placeholder?: string;
+    help?: string;
+    secret?: boolean;
+    optional?: boolean;
+}
 
-interface IntegrationStatus {
-    whatsapp: boolean;
-    messenger: boolean;
-    telegram: boolean;
-    instagram: boolean;
-    website: boolean;
+interface PlatformDefinition {
+    platform: IntegrationPlatform;
+    name: string;
+    description: string;
+    summary: string;
+    icon: typeof MessageSquare;
+    color: string;
+    buttonClass: string;
+    fields: CredentialField[];
 }
 
+// Messaging platforms shown as cards; the website integration has its own card below
+const MESSAGING_PLATFORMS: PlatformDefinition[] = [
+    {
+        platform: 'whatsapp',
+        name: 'WhatsApp',
+        description: 'Connect to WhatsApp Business',
+        summary: 'Enable customers to message your business directly through WhatsApp.',
+        icon: MessageSquare,
+        color: 'bg-green-600',
+        buttonClass: 'bg-green-600 hover:bg-green-700',
+        fields: [
+            { name: 'phone_number_id', label: 'Phone Number ID', placeholder: '109876543210987', help: 'Found under WhatsApp > API Setup in your Meta app' },
+            { name: 'business_account_id', label: 'WhatsApp Business Account ID', placeholder: '102345678901234' },
+            { name: 'access_token', label: 'Permanent Access Token', placeholder: 'EAAG...', secret: true },
+        ],
+    },
+    {
+        platform: 'messenger',
+        name: 'Messenger',
+        description: 'Connect to Facebook Messenger',
+        summary: 'Connect your chatbot to Facebook Messenger to reach customers on Facebook.',
+        icon: MessageCircle,
+        color: 'bg-blue-600',
+        buttonClass: 'bg-blue-600 hover:bg-blue-700',
+        fields: [
+            { name: 'page_id', label: 'Facebook Page ID', placeholder: '123456789012345' },
+            { name: 'page_access_token', label: 'Page Access Token', placeholder: 'EAAG...', secret: true },
+            { name: 'app_secret', label: 'App Secret', help: 'Used to verify webhook signatures', secret: true },
+        ],
+    },
+    {
+        platform: 'telegram',
+        name: 'Telegram',
+        description: 'Connect to Telegram',
+        summary: 'Integrate with Telegram to provide customer support through Telegram bots.',
+        icon: Smartphone,
+        color: 'bg-blue-500',
+        buttonClass: '',
+        fields: [
+            { name: 'bot_token', label: 'Bot Token', placeholder: '123456789:AAH...', help: 'Create a bot with @BotFather to get a token', secret: true },
+        ],
+    },
+    {
+        platform: 'instagram',
+        name: 'Instagram',
+        description: 'Connect to Instagram Direct',
+        summary: 'Respond to Instagram Direct messages automatically with your chatbot.',
+        icon: Instagram,
+        color: 'bg-pink-600',
+        buttonClass: 'bg-pink-600 hover:bg-pink-700',
+        fields: [
+            { name: 'instagram_account_id', label: 'Instagram Business Account ID', placeholder: '17841400000000000' },
+            { name: 'access_token', label: 'Access Token', placeholder: 'EAAG...', secret: true },
+        ],
+    },
+];
+
+const WEBSITE_FIELDS: CredentialField[] = [
+    {
+        name: 'allowed_domains',
+        label: 'Allowed Domains',
+        placeholder: 'example.com, shop.example.com',
+        help: 'Comma-separated. Leave empty to allow the widget on any domain.',
+        optional: true,
+    },
+];
+
+// Typed connect payload for each platform, built from the trimmed form values
+const CREDENTIAL_BUILDERS: {
+    [P in IntegrationPlatform]: (value: (name: CredentialName) => string) => IntegrationCredentials[P];
+} = {
+    whatsapp: value => ({
+        access_token: value('access_token'),
+        phone_number_id: value('phone_number_id'),
+        business_account_id: value('business_account_id'),
+    }),
+    messenger: value => ({
+        page_id: value('page_id'),
+        page_access_token: value('page_access_token'),
+        app_secret: value('app_secret'),
+    }),
+    telegram: value => ({
+        bot_token: value('bot_token'),
+    }),
+    instagram: value => ({
+        instagram_account_id: value('instagram_account_id'),
+        access_token: value('access_token'),
+    }),
+    website: value => ({
+        allowed_domains: value('allowed_domains'),
+    }),
+};
+
+const PLATFORM_NAMES: Record<IntegrationPlatform, string> = {
+    whatsapp: 'WhatsApp',
+    messenger: 'Messenger',
+    telegram: 'Telegram',
+    instagram: 'Instagram',
+    website: 'Website',
+};
+
+const HEALTH_STYLES: Record<IntegrationHealth, { label: string; dot: string }> = {
+    healthy: { label: 'Healthy', dot: 'bg-green-500' },
+    degraded: { label: 'Degraded', dot: 'bg-yellow-500' },
+    error: { label: 'Error', dot: 'bg-red-500' },
+    unknown: { label: 'Not checked', dot: 'bg-gray-500' },
+};
+
+const disconnectedIntegration = (platform: IntegrationPlatform): Integration => ({
+    platform,
+    connected: false,
+    health: 'unknown',
+});
+
 const IntegrationsPage = () => {
-    const [currentBusiness, setCurrentBusiness] = useState<Business | null>(null);
+    const { currentBusiness } = useBusiness();
+    const canManage = usePermission('integrations:manage');
+    const noPermissionTitle = canManage ? undefined : "Only owners and admins can manage integrations";
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [integrationStatus, setIntegrationStatus] = useState<IntegrationStatus>({
-        whatsapp: false,
-        messenger: false,
-        telegram: false,
-        instagram: false,
-        website: false
-    });
+    const [integrations, setIntegrations] = useState<Record<IntegrationPlatform, Integration>>(
+        () => Object.fromEntries(
+            INTEGRATION_PLATFORMS.map(platform => [platform, disconnectedIntegration(platform)])
+        ) as Record<IntegrationPlatform, Integration>
+    );
+    const [pendingAction, setPendingAction] = useState<{ platform: IntegrationPlatform; action: 'disconnect' | 'test' } | null>(null);
+
+    // Credential form state
+    const [connectingPlatform, setConnectingPlatform] = useState<IntegrationPlatform | null>(null);
+    const [credentials, setCredentials] = useState<Record<string, string>>({});
+    const [credentialErrors, setCredentialErrors] = useState<Record<string, string>>({});
+    const [isConnecting, setIsConnecting] = useState(false);
     const [webSnippet, setWebSnippet] = useState("");
 
-    // Load business and integration status on component mount
-    const loadBusinessAndIntegrations = useCallback(async () => {
+    // Load integration status for the active business on mount
+    const loadIntegrations = useCallback(async () => {
+        if (!currentBusiness) return;
+
         try {
             setIsLoading(true);
             setError(null);
 
-            // Get current business
-            const business = await businessAPI.getPrimaryBusiness();
-            if (!business) {
-                setError('No business found. Please create a business first.');
-                return;
-            }
-
-            setCurrentBusiness(business);
-
-            // In a real app, we would fetch integration status from an API
-            const mockStatus: IntegrationStatus = {
-                whatsapp: false,
-                messenger: true,
-                telegram: false,
-                instagram: false,
-                website: true
-            };
-
-            setIntegrationStatus(mockStatus);
+            const response = await integrationsAPI.listIntegrations(currentBusiness.id);
+            setIntegrations(prev => {
+                const next = { ...prev };
+                response.integrations.forEach(integration => {
+                    next[integration.platform] = integration;
+                });
+                return next;
+            });
 
         } catch (err) {
-            console.error('Error loading business and integrations:', err);
+            console.error('Error loading integrations:', err);
             setError(err instanceof Error ? err.message : 'Failed to load data');
             toast.error('Failed to load integrations');
         } finally {
             setIsLoading(false);
         }
-    }, []); // no external deps that change
+    }, [currentBusiness]);
 
     const generateWebSnippet = useCallback(() => {
-        // This would typically come from the API based on the business ID
-        const snippet = `<script>
-  window.chatbaseConfig = {
-    chatbotId: '${currentBusiness?.id || 'YOUR_CHATBOT_ID'}'
-  };
-</script>
-<script src="https://www.chatbase.co/embed.min.js" id="${currentBusiness?.id || 'YOUR_CHATBOT_ID'}" defer></script>`;
+        // The widget script is served from this app; chat requests go straight to the API
+        const snippet = `<script
+  src="${window.location.origin}/traliq-widget.js"
+  data-namespace="${currentBusiness?.namespace || 'YOUR_BUSINESS_NAMESPACE'}"
+  data-api-url="${config.API_URL}"
+  defer
+></script>`;
 
         setWebSnippet(snippet);
     }, [currentBusiness]);
 
     useEffect(() => {
-        loadBusinessAndIntegrations();
+        loadIntegrations();
         generateWebSnippet();
-    }, [loadBusinessAndIntegrations, generateWebSnippet]);
-
-    const handleConnect = (platform: keyof IntegrationStatus) => {
-        // In a real app, this would trigger an API call to connect the platform
-        toast.success(`Initiating connection to ${platform}`);
-        setIntegrationStatus(prev => ({
-            ...prev,
-            [platform]: true
-        }));
+    }, [loadIntegrations, generateWebSnippet]);
+
+    const updateIntegration = (integration: Integration) => {
+        setIntegrations(prev => ({ ...prev, [integration.platform]: integration }));
     };
 
-    const handleDisconnect = (platform: keyof IntegrationStatus) => {
-        // In a real app, this would trigger an API call to disconnect the platform
-        toast.info(`Disconnected from ${platform}`);
-        setIntegrationStatus(prev => ({
-            ...prev,
-            [platform]: false
-        }));
+    const getFields = (platform: IntegrationPlatform) =>
+        platform === 'website'
+            ? WEBSITE_FIELDS
+            : MESSAGING_PLATFORMS.find(definition => definition.platform === platform)?.fields || [];
+
+    // Open the credential form, pre-filling non-secret settings when reconfiguring
+    const openCredentialForm = (platform: IntegrationPlatform) => {
+        const settings = integrations[platform].settings || {};
+        setCredentials(Object.fromEntries(
+            getFields(platform).map(field => [field.name, field.secret ? '' : settings[field.name] || ''])
+        ));
+        setCredentialErrors({});
+        setConnectingPlatform(platform);
     };
 
+    const handleConnect = async () => {
+        if (!currentBusiness || !connectingPlatform) return;
+
+        const errors: Record<string, string> = {};
+        getFields(connectingPlatform).forEach(field => {
+            if (!field.optional && !credentials[field.name]?.trim()) {
+                errors[field.name] = `${field.label} is required`;
+            }
+        });
+        setCredentialErrors(errors);
+        if (Object.keys(errors).length > 0) return;
+
+        const payload = CREDENTIAL_BUILDERS[connectingPlatform](name => credentials[name]?.trim() ?? '');
+
+        try {
+            setIsConnecting(true);
+            const response = await integrationsAPI.connectIntegration(currentBusiness.id, connectingPlatform, payload);
+            updateIntegration(response.integration);
+            toast.success(`${PLATFORM_NAMES[connectingPlatform]} connected`);
+            setConnectingPlatform(null);
+        } catch (err) {
+            console.error('Error connecting integration:', err);
+            toast.error(err instanceof Error ? err.message : `Failed to connect ${PLATFORM_NAMES[connectingPlatform]}`);
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    const handleDisconnect = async (platform: IntegrationPlatform) => {
+        if (!currentBusiness) return;
+
+        try {
+            setPendingAction({ platform, action: 'disconnect' });
+            const response = await integrationsAPI.disconnectIntegration(currentBusiness.id, platform);
+            updateIntegration(response.integration || disconnectedIntegration(platform));
+            toast.info(`Disconnected from ${PLATFORM_NAMES[platform]}`);
+        } catch (err) {
+            console.error('Error disconnecting integration:', err);
+            toast.error(err instanceof Error ? err.message : `Failed to disconnect ${PLATFORM_NAMES[platform]}`);
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const handleTest = async (platform: IntegrationPlatform) => {
+        if (!currentBusiness) return;
+
+        try {
+            setPendingAction({ platform, action: 'test' });
+            const result = await integrationsAPI.testIntegration(currentBusiness.id, platform);
+            setIntegrations(prev => ({
+                ...prev,
+                [platform]: {
+                    ...prev[platform],
+                    health: result.health,
+                    last_checked_at: new Date().toISOString(),
+                    last_error: result.success ? undefined : result.message,
+                },
+            }));
+            if (result.success) {
+                toast.success(`${PLATFORM_NAMES[platform]} is working${result.latency_ms !== undefined ? ` (${result.latency_ms}ms)` : ''}`);
+            } else {
+                toast.error(result.message || `${PLATFORM_NAMES[platform]} connection test failed`);
+            }
+        } catch (err) {
+            console.error('Error testing integration:', err);
+            toast.error(err instanceof Error ? err.message : 'Connection test failed');
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const isPending = (platform: IntegrationPlatform, action: 'disconnect' | 'test') =>
+        pendingAction?.platform === platform && pendingAction.action === action;
+
+    const renderHealth = (integration: Integration) => {
+        const health = HEALTH_STYLES[integration.health];
+        return (
+            <div className="flex items-center justify-between text-sm rounded-md border border-border px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                    <span className={`h-2 w-2 rounded-full shrink-0 ${health.dot}`} />
+                    <span className="text-card-foreground">{health.label}</span>
+                    {integration.account_name && (
+                        <span className="text-muted-foreground truncate">· {integration.account_name}</span>
+                    )}
+                </div>
+                {integration.last_checked_at && (
+                    <span className="text-xs text-muted-foreground shrink-0">
+                        Checked {new Date(integration.last_checked_at).toLocaleTimeString()}
+                    </span>
+                )}
+            </div>
+        );
+    };
+
+    const renderConnectedActions = (platform: IntegrationPlatform) => (
+        <div className="flex space-x-2">
+            <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => handleDisconnect(platform)}
+                disabled={!canManage || isPending(platform, 'disconnect')}
+                title={noPermissionTitle}
+            >
+                {isPending(platform, 'disconnect') ? 'Disconnecting...' : 'Disconnect'}
+            </Button>
+            <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => handleTest(platform)}
+                disabled={isPending(platform, 'test')}
+            >
+                {isPending(platform, 'test')
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    : <Activity className="mr-2 h-4 w-4" />}
+                Test
+            </Button>
+            <Button
+                variant="outline"
+                size="icon"
+                onClick={() => openCredentialForm(platform)}
+                disabled={!canManage}
+                title={noPermissionTitle ?? "Update credentials"}
+            >
+                <Settings className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+
     const copyToClipboard = () => {
         navigator.clipboard.writeText(webSnippet);
         toast.success("Code snippet copied to clipboard!");
@@ -135,7 +415,7 @@ const IntegrationsPage = () => {
                 <div className="text-center">
                     <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-4" />
                     <p className="text-red-400 mb-4">{error}</p>
-                    <Button onClick={loadBusinessAndIntegrations} variant="outline">
+                    <Button onClick={loadIntegrations} variant="outline">
                         Try Again
                     </Button>
                 </div>
@@ -168,10 +448,10 @@ const IntegrationsPage = () => {
                     </CardHeader>
                     <CardContent>
                         <div className="text-2xl font-bold text-card-foreground">
-                            {Object.values(integrationStatus).filter(status => status).length}
+                            {Object.values(integrations).filter(integration => integration.connected).length}
                         </div>
                         <p className="text-xs text-muted-foreground">
-                            Of 5 available platforms
+                            Of {INTEGRATION_PLATFORMS.length} available platforms
                         </p>
                     </CardContent>
                 </Card>
@@ -207,157 +487,52 @@ const IntegrationsPage = () => {
 
             {/* Platform Integrations */}
             <div className="grid gap-6 md:grid-cols-2">
-                {/* WhatsApp Integration */}
-                <Card className="bg-card border-border">
-                    <CardHeader className="flex flex-row items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                            <div className="p-2 bg-green-600 rounded-lg">
-                                <MessageSquare className="h-6 w-6 text-white" />
-                            </div>
-                            <div>
-                                <CardTitle className="text-card-foreground">WhatsApp</CardTitle>
-                                <CardDescription>Connect to WhatsApp Business</CardDescription>
-                            </div>
-                        </div>
-                        <Badge variant={integrationStatus.whatsapp ? "default" : "outline"}
-                               className={integrationStatus.whatsapp ? "bg-green-600" : ""}>
-                            {integrationStatus.whatsapp ? "Connected" : "Disconnected"}
-                        </Badge>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                        <p className="text-sm text-muted-foreground">
-                            Enable customers to message your business directly through WhatsApp.
-                        </p>
-                        {integrationStatus.whatsapp ? (
-                            <div className="flex space-x-2">
-                                <Button variant="outline" className="flex-1" onClick={() => handleDisconnect('whatsapp')}>
-                                    Disconnect
-                                </Button>
-                                <Button variant="outline" className="flex-1">
-                                    Configure <ExternalLink className="ml-2 h-4 w-4" />
-                                </Button>
-                            </div>
-                        ) : (
-                            <Button className="w-full bg-green-600 hover:bg-green-700" onClick={() => handleConnect('whatsapp')}>
-                                Connect WhatsApp
-                            </Button>
-                        )}
-                    </CardContent>
-                </Card>
-
-                {/* Messenger Integration */}
-                <Card className="bg-card border-border">
-                    <CardHeader className="flex flex-row items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                            <div className="p-2 bg-blue-600 rounded-lg">
-                                <MessageCircle className="h-6 w-6 text-white" />
-                            </div>
-                            <div>
-                                <CardTitle className="text-card-foreground">Messenger</CardTitle>
-                                <CardDescription>Connect to Facebook Messenger</CardDescription>
-                            </div>
-                        </div>
-                        <Badge variant={integrationStatus.messenger ? "default" : "outline"}
-                               className={integrationStatus.messenger ? "bg-blue-600" : ""}>
-                            {integrationStatus.messenger ? "Connected" : "Disconnected"}
-                        </Badge>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                        <p className="text-sm text-muted-foreground">
-                            Connect your chatbot to Facebook Messenger to reach customers on Facebook.
-                        </p>
-                        {integrationStatus.messenger ? (
-                            <div className="flex space-x-2">
-                                <Button variant="outline" className="flex-1" onClick={() => handleDisconnect('messenger')}>
-                                    Disconnect
-                                </Button>
-                                <Button variant="outline" className="flex-1">
-                                    Configure <ExternalLink className="ml-2 h-4 w-4" />
-                                </Button>
-                            </div>
-                        ) : (
-                            <Button className="w-full bg-blue-600 hover:bg-blue-700" onClick={() => handleConnect('messenger')}>
-                                Connect Messenger
-                            </Button>
-                        )}
-                    </CardContent>
-                </Card>
-
-                {/* Telegram Integration */}
-                <Card className="bg-card border-border">
-                    <CardHeader className="flex flex-row items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                            <div className="p-2 bg-blue-500 rounded-lg">
-                                <Smartphone className="h-6 w-6 text-white" />
-                            </div>
-                            <div>
-                                <CardTitle className="text-card-foreground">Telegram</CardTitle>
-                                <CardDescription>Connect to Telegram</CardDescription>
-                            </div>
-                        </div>
-                        <Badge variant={integrationStatus.telegram ? "default" : "outline"}
-                               className={integrationStatus.telegram ? "bg-blue-500" : ""}>
-                            {integrationStatus.telegram ? "Connected" : "Disconnected"}
-                        </Badge>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                        <p className="text-sm text-muted-foreground">
-                            Integrate with Telegram to provide customer support through Telegram bots.
-                        </p>
-                        {integrationStatus.telegram ? (
-                            <div className="flex space-x-2">
-                                <Button variant="outline" className="flex-1" onClick={() => handleDisconnect('telegram')}>
-                                    Disconnect
-                                </Button>
-                                <Button variant="outline" className="flex-1">
-                                    Configure <ExternalLink className="ml-2 h-4 w-4" />
-                                </Button>
-                            </div>
-                        ) : (
-                            <Button className="w-full" onClick={() => handleConnect('telegram')}>
-                                Connect Telegram
-                            </Button>
-                        )}
-                    </CardContent>
-                </Card>
-
-                {/* Instagram Integration */}
-                <Card className="bg-card border-border">
-                    <CardHeader className="flex flex-row items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                            <div className="p-2 bg-pink-600 rounded-lg">
-                                <Instagram className="h-6 w-6 text-white" />
-                            </div>
-                            <div>
-                                <CardTitle className="text-card-foreground">Instagram</CardTitle>
-                                <CardDescription>Connect to Instagram Direct</CardDescription>
-                            </div>
-                        </div>
-                        <Badge variant={integrationStatus.instagram ? "default" : "outline"}
-                               className={integrationStatus.instagram ? "bg-pink-600" : ""}>
-                            {integrationStatus.instagram ? "Connected" : "Disconnected"}
-                        </Badge>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                        <p className="text-sm text-muted-foreground">
-                            Respond to Instagram Direct messages automatically with your chatbot.
-                        </p>
-                        {integrationStatus.instagram ? (
-                            <div className="flex space-x-2">
-                                <Button variant="outline" className="flex-1" onClick={() => handleDisconnect('instagram')}>
-                                    Disconnect
-                                </Button>
-                                <Button variant="outline" className="flex-1">
-                                    Configure <ExternalLink className="ml-2 h-4 w-4" />
-                                </Button>
-                            </div>
-                        ) : (
-                            <Button className="w-full bg-pink-600 hover:bg-pink-700" onClick={() => handleConnect('instagram')}>
-                                Connect Instagram
-                            </Button>
-                        )}
-                    </CardContent>
-                </Card>
+                {MESSAGING_PLATFORMS.map(definition => {
+                    const integration = integrations[definition.platform];
+                    const Icon = definition.icon;
+                    return (
+                        <Card key={definition.platform} className="bg-card border-border">
+                            <CardHeader className="flex flex-row items-center justify-between">
+                                <div className="flex items-center space-x-4">
+                                    <div className={`p-2 ${definition.color} rounded-lg`}>
+                                        <Icon className="h-6 w-6 text-white" />
+                                    </div>
+                                    <div>
+                                        <CardTitle className="text-card-foreground">{definition.name}</CardTitle>
+                                        <CardDescription>{definition.description}</CardDescription>
+                                    </div>
+                                </div>
+                                <Badge variant={integration.connected ? "default" : "outline"}
+                                       className={integration.connected ? definition.color : ""}>
+                                    {integration.connected ? "Connected" : "Disconnected"}
+                                </Badge>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <p className="text-sm text-muted-foreground">
+                                    {definition.summary}
+                                </p>
+                                {integration.connected ? (
+                                    <>
+                                        {renderHealth(integration)}
+                                        {integration.last_error && (
+                                            <p className="text-xs text-red-400">{integration.last_error}</p>
+                                        )}
+                                        {renderConnectedActions(definition.platform)}
+                                    </>
+                                ) : (
+                                    <Button
+                                        className={`w-full ${definition.buttonClass}`}
+                                        onClick={() => openCredentialForm(definition.platform)}
+                                        disabled={!canManage}
+                                        title={noPermissionTitle}
+                                    >
+                                        Connect {definition.name}
+                                    </Button>
+                                )}
+                            </CardContent>
+                        </Card>
+                    );
+                })}
             </div>
 
             {/* Website Integration */}
@@ -372,14 +547,15 @@ const IntegrationsPage = () => {
                             <CardDescription>Embed chatbot on your website</CardDescription>
                         </div>
                     </div>
-                    <Badge variant={integrationStatus.website ? "default" : "outline"}
-                           className={integrationStatus.website ? "bg-gray-600" : ""}>
-                        {integrationStatus.website ? "Connected" : "Disconnected"}
+                    <Badge variant={integrations.website.connected ? "default" : "outline"}
+                           className={integrations.website.connected ? "bg-gray-600" : ""}>
+                        {integrations.website.connected ? "Connected" : "Disconnected"}
                     </Badge>
                 </CardHeader>
                 <CardContent className="space-y-4">
                     <p className="text-sm text-muted-foreground">
-                        Add our code snippet to your website to enable the chatbot. Customize its appearance from the settings.
+                        Add this snippet before the closing &lt;/body&gt; tag of your website. The widget uses the name,
+                        greeting, avatar and color from your Bot Customizer settings.
                     </p>
 
                     <div className="rounded-md bg-gray-900 p-4 relative">
@@ -396,14 +572,29 @@ const IntegrationsPage = () => {
                         </Button>
                     </div>
 
-                    <div className="flex space-x-2">
-                        <Button variant="outline" className="flex-1" onClick={() => setIntegrationStatus(prev => ({...prev, website: !prev.website}))}>
-                            {integrationStatus.website ? 'Disable' : 'Enable'} Website Chat
-                        </Button>
-                        <Button variant="outline" className="flex-1">
-                            Customize Widget <ExternalLink className="ml-2 h-4 w-4" />
-                        </Button>
-                    </div>
+                    {integrations.website.connected ? (
+                        <>
+                            {renderHealth(integrations.website)}
+                            {renderConnectedActions('website')}
+                        </>
+                    ) : (
+                        <div className="flex space-x-2">
+                            <Button
+                                variant="outline"
+                                className="flex-1"
+                                onClick={() => openCredentialForm('website')}
+                                disabled={!canManage}
+                                title={noPermissionTitle}
+                            >
+                                Enable Website Chat
+                            </Button>
+                            <Button asChild variant="outline" className="flex-1">
+                                <Link href="/dashboard/bot">
+                                    Customize Widget <ExternalLink className="ml-2 h-4 w-4" />
+                                </Link>
+                            </Button>
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
@@ -426,6 +617,53 @@ const IntegrationsPage = () => {
                     </div>
                 </CardContent>
             </Card>
+
+            {/* Credential Form */}
+            <Dialog open={!!connectingPlatform} onOpenChange={(open) => !open && !isConnecting && setConnectingPlatform(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {connectingPlatform && (integrations[connectingPlatform].connected ? 'Update' : 'Connect')}{' '}
+                            {connectingPlatform && PLATFORM_NAMES[connectingPlatform]}
+                        </DialogTitle>
+                        <DialogDescription>
+                            Credentials are stored encrypted and are never shown again after saving.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        {connectingPlatform && getFields(connectingPlatform).map(field => (
+                            <div key={field.name} className="space-y-2">
+                                <Label htmlFor={`credential-${field.name}`} className="text-sm font-medium">
+                                    {field.label}
+                                    {field.optional && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                                </Label>
+                                <Input
+                                    id={`credential-${field.name}`}
+                                    type={field.secret ? 'password' : 'text'}
+                                    autoComplete="off"
+                                    value={credentials[field.name] || ''}
+                                    onChange={(e) => setCredentials(prev => ({ ...prev, [field.name]: e.target.value }))}
+                                    placeholder={field.placeholder}
+                                    className="bg-background border-border"
+                                />
+                                {credentialErrors[field.name] ? (
+                                    <p className="text-red-400 text-sm">{credentialErrors[field.name]}</p>
+                                ) : field.help && (
+                                    <p className="text-xs text-muted-foreground">{field.help}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setConnectingPlatform(null)} disabled={isConnecting}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleConnect} disabled={isConnecting} className="bg-white text-black hover:bg-gray-100">
+                            {isConnecting ? 'Connecting...' : 'Save & Connect'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 };
@@ -1,26 +1,32 @@
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar"
 import { AppSidebar } from "@/components/app-sidebar"
 import { ProtectedRoute } from "@/components/protected-route"
+import { BusinessBoundary } from "@/components/business-boundary"
+import { BusinessProvider } from "@/contexts/business-context"
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
     return (
         <ProtectedRoute>
-            <SidebarProvider>
-                <AppSidebar />
-                <SidebarInset>
-                    <header className="flex h-16 shrink-0 items-center gap-2 px-4 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-                        <SidebarTrigger className="-ml-1" />
-                        <div className="flex items-center gap-2 text-sm font-medium">
-                            <span className="text-muted-foreground">Traliq.ai</span>
-                            <span className="text-muted-foreground">/</span>
-                            <span>Dashboard</span>
+            <BusinessProvider>
+                <SidebarProvider>
+                    <AppSidebar />
+                    <SidebarInset>
+                        <header className="flex h-16 shrink-0 items-center gap-2 px-4 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+                            <SidebarTrigger className="-ml-1" />
+                            <div className="flex items-center gap-2 text-sm font-medium">
+                                <span className="text-muted-foreground">Traliq.ai</span>
+                                <span className="text-muted-foreground">/</span>
+                                <span>Dashboard</span>
+                            </div>
+                        </header>
+                        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+                            <BusinessBoundary>
+                                {children}
+                            </BusinessBoundary>
                         </div>
-                    </header>
-                    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
-                        {children}
-                    </div>
-                </SidebarInset>
-            </SidebarProvider>
+                    </SidebarInset>
+                </SidebarProvider>
+            </BusinessProvider>
         </ProtectedRoute>
     )
 }
\ No newline at end of file
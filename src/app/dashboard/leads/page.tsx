@@ -1,9 +1,498 @@
-const Leads = () => {
+'use client'
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Pagination,
+    PaginationContent,
+    PaginationEllipsis,
+    PaginationItem,
+    PaginationLink,
+    PaginationNext,
+    PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { useBusiness } from "@/contexts/business-context";
+import { leadsAPI, Lead, LeadStatus, LEAD_STATUSES, LeadListFilters } from "@/lib/leads-api";
+import { toCsv, downloadCsv } from "@/lib/csv";
+import { ApiError } from "@/lib/http-client";
+import {
+    Calendar,
+    Download,
+    Loader2,
+    ExternalLink,
+    Mail,
+    Phone,
+    Search,
+    StickyNote,
+    Target,
+} from "lucide-react";
+import { cn, getPageNumbers } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+const statusStyles: Record<LeadStatus, string> = {
+    new: 'bg-white/10 text-white border-white/20',
+    contacted: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+    qualified: 'bg-purple-500/10 text-purple-400 border-purple-500/20',
+    won: 'bg-green-500/10 text-green-400 border-green-500/20',
+    lost: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+const toListFilters = (status: LeadStatus | "all", search: string): LeadListFilters => {
+    const filters: LeadListFilters = {};
+    if (status !== 'all') filters.status = status;
+    if (search.trim()) filters.search = search.trim();
+    return filters;
+};
+
+const LeadsPage = () => {
+    const { currentBusiness } = useBusiness();
+    const [leads, setLeads] = useState<Lead[]>([]);
+    const [totalLeads, setTotalLeads] = useState(0);
+    const [statusCounts, setStatusCounts] = useState<Partial<Record<LeadStatus, number>>>({});
+    const [isLoadingList, setIsLoadingList] = useState(false);
+
+    const [searchQuery, setSearchQuery] = useState("");
+    const [statusFilter, setStatusFilter] = useState<LeadStatus | "all">("all");
+    const [page, setPage] = useState(1);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const [notesLead, setNotesLead] = useState<Lead | null>(null);
+    const [notesDraft, setNotesDraft] = useState("");
+    const [isSavingNotes, setIsSavingNotes] = useState(false);
+
+    // Any filter change starts again from the first page
+    const changeStatusFilter = (status: LeadStatus | "all") => {
+        setStatusFilter(status);
+        setPage(1);
+    };
+
+    const changeSearchQuery = (query: string) => {
+        setSearchQuery(query);
+        setPage(1);
+    };
+
+    // Reload whenever the filters or page change (search is debounced);
+    // aborting the previous request keeps a slow response from overwriting newer results
+    useEffect(() => {
+        if (!currentBusiness) return;
+
+        const filters: LeadListFilters = {
+            ...toListFilters(statusFilter, searchQuery),
+            limit: PAGE_SIZE,
+            offset: (page - 1) * PAGE_SIZE,
+        };
+
+        const controller = new AbortController();
+        const load = async () => {
+            try {
+                setIsLoadingList(true);
+                const response = await leadsAPI.listLeads(currentBusiness.id, filters, controller.signal);
+                setLeads(response.leads);
+                setTotalLeads(response.total);
+                if (response.status_counts) {
+                    setStatusCounts(response.status_counts);
+                }
+            } catch (err) {
+                if (err instanceof ApiError && err.isAborted) return;
+                console.error('Error loading leads:', err);
+                toast.error(err instanceof Error ? err.message : 'Failed to load leads');
+            } finally {
+                if (!controller.signal.aborted) setIsLoadingList(false);
+            }
+        };
+
+        const timeoutId = setTimeout(load, 300);
+        return () => {
+            clearTimeout(timeoutId);
+            controller.abort();
+        };
+    }, [currentBusiness, statusFilter, searchQuery, page]);
+
+    const updateLeadInList = (updated: Lead) => {
+        setLeads(prev => prev.map(lead => lead.id === updated.id ? updated : lead));
+    };
+
+    const handleStatusChange = async (lead: Lead, status: LeadStatus) => {
+        if (!currentBusiness || lead.status === status) return;
+
+        // Optimistic update, rolled back on failure
+        updateLeadInList({ ...lead, status });
+        setStatusCounts(prev => ({
+            ...prev,
+            [lead.status]: Math.max((prev[lead.status] || 1) - 1, 0),
+            [status]: (prev[status] || 0) + 1,
+        }));
+
+        try {
+            const response = await leadsAPI.updateLead(currentBusiness.id, lead.id, { status });
+            updateLeadInList(response.lead);
+        } catch (err) {
+            console.error('Error updating lead status:', err);
+            updateLeadInList(lead);
+            setStatusCounts(prev => ({
+                ...prev,
+                [lead.status]: (prev[lead.status] || 0) + 1,
+                [status]: Math.max((prev[status] || 1) - 1, 0),
+            }));
+            toast.error(err instanceof Error ? err.message : 'Failed to update lead');
+        }
+    };
+
+    const openNotes = (lead: Lead) => {
+        setNotesLead(lead);
+        setNotesDraft(lead.notes || "");
+    };
+
+    const handleSaveNotes = async () => {
+        if (!currentBusiness || !notesLead) return;
+
+        try {
+            setIsSavingNotes(true);
+            const response = await leadsAPI.updateLead(currentBusiness.id, notesLead.id, { notes: notesDraft });
+            updateLeadInList(response.lead);
+            setNotesLead(null);
+            toast.success('Notes saved');
+        } catch (err) {
+            console.error('Error saving lead notes:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to save notes');
+        } finally {
+            setIsSavingNotes(false);
+        }
+    };
+
+    // Export every lead matching the filters, not just the visible page
+    const handleExport = async () => {
+        if (!currentBusiness) return;
+        if (totalLeads === 0) {
+            toast.error('No leads to export');
+            return;
+        }
+
+        let allLeads: Lead[];
+        try {
+            setIsExporting(true);
+            allLeads = await leadsAPI.listAllLeads(currentBusiness.id, toListFilters(statusFilter, searchQuery));
+        } catch (err) {
+            console.error('Error exporting leads:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to export leads');
+            return;
+        } finally {
+            setIsExporting(false);
+        }
+
+        const csv = toCsv(allLeads, [
+            { header: 'Name', value: lead => lead.name },
+            { header: 'Email', value: lead => lead.email },
+            { header: 'Phone', value: lead => lead.phone },
+            { header: 'Company', value: lead => lead.company },
+            { header: 'Status', value: lead => lead.status },
+            { header: 'Channel', value: lead => lead.source_channel },
+            { header: 'Conversation ID', value: lead => lead.source_conversation_id },
+            { header: 'Notes', value: lead => lead.notes },
+            { header: 'Captured At', value: lead => lead.created_at },
+        ]);
+        const date = new Date().toISOString().slice(0, 10);
+        downloadCsv(`${currentBusiness.slug || 'leads'}-leads-${date}.csv`, csv);
+        toast.success(`Exported ${allLeads.length} lead${allLeads.length === 1 ? '' : 's'}`);
+    };
+
+    const totalPages = Math.max(1, Math.ceil(totalLeads / PAGE_SIZE));
+    const rangeStart = totalLeads === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+    const rangeEnd = Math.min(page * PAGE_SIZE, totalLeads);
+
+    const goToPage = (nextPage: number) => setPage(Math.min(Math.max(1, nextPage), totalPages));
+
     return (
-        <div>
-            {/* Content goes here */}
+        <div className="space-y-8 p-6">
+            {/* Header Section */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                        Leads
+                    </h1>
+                    <p className="text-muted-foreground mt-2">
+                        Contacts captured from conversations with {currentBusiness?.name || 'your business'}
+                    </p>
+                </div>
+                <Button
+                    className="gap-2 bg-white text-black hover:bg-gray-100"
+                    onClick={handleExport}
+                    disabled={totalLeads === 0 || isExporting}
+                >
+                    {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                    {isExporting ? 'Exporting...' : 'Export CSV'}
+                </Button>
+            </div>
+
+            {/* Pipeline */}
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+                {LEAD_STATUSES.map(status => (
+                    <Card
+                        key={status}
+                        className={cn(
+                            "bg-card border-border cursor-pointer transition-colors hover:bg-card/80",
+                            statusFilter === status && "border-white"
+                        )}
+                        onClick={() => changeStatusFilter(statusFilter === status ? 'all' : status)}
+                    >
+                        <CardHeader className="pb-2">
+                            <CardTitle className="text-sm font-medium text-card-foreground capitalize">
+                                {status}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold text-card-foreground">
+                                {statusCounts[status] ?? leads.filter(lead => lead.status === status).length}
+                            </div>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            {/* Search and Filter Section */}
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        placeholder="Search by name, email or company..."
+                        value={searchQuery}
+                        onChange={(e) => changeSearchQuery(e.target.value)}
+                        className="pl-10 bg-background border-border"
+                    />
+                </div>
+                <Select value={statusFilter} onValueChange={(value) => changeStatusFilter(value as LeadStatus | "all")}>
+                    <SelectTrigger className="w-[180px] bg-background border-border">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All statuses</SelectItem>
+                        {LEAD_STATUSES.map(status => (
+                            <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {/* Leads Table */}
+            <Card className="bg-card border-border">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-card-foreground">
+                        <Target className="h-5 w-5" />
+                        Lead List
+                    </CardTitle>
+                    <CardDescription>
+                        {totalLeads} lead{totalLeads === 1 ? '' : 's'}{isLoadingList && ' • Refreshing...'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {leads.length === 0 ? (
+                        <div className="py-12 text-center text-sm text-muted-foreground">
+                            {isLoadingList ? 'Loading leads...' : 'No leads match your filters yet'}
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow className="border-border hover:bg-muted/50">
+                                    <TableHead className="text-muted-foreground">Contact</TableHead>
+                                    <TableHead className="text-muted-foreground">Status</TableHead>
+                                    <TableHead className="text-muted-foreground">Source</TableHead>
+                                    <TableHead className="text-muted-foreground">Notes</TableHead>
+                                    <TableHead className="text-muted-foreground">Captured</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {leads.map(lead => (
+                                    <TableRow key={lead.id} className="border-border hover:bg-muted/30">
+                                        <TableCell>
+                                            <div className="font-medium text-foreground">
+                                                {lead.name || 'Unknown'}
+                                                {lead.company && (
+                                                    <span className="text-muted-foreground font-normal"> • {lead.company}</span>
+                                                )}
+                                            </div>
+                                            <div className="flex flex-col gap-1 mt-1 text-xs text-muted-foreground">
+                                                {lead.email && (
+                                                    <a href={`mailto:${lead.email}`} className="flex items-center gap-1 hover:text-foreground">
+                                                        <Mail className="h-3 w-3" />
+                                                        {lead.email}
+                                                    </a>
+                                                )}
+                                                {lead.phone && (
+                                                    <span className="flex items-center gap-1">
+                                                        <Phone className="h-3 w-3" />
+                                                        {lead.phone}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value={lead.status}
+                                                onValueChange={(value) => handleStatusChange(lead, value as LeadStatus)}
+                                            >
+                                                <SelectTrigger
+                                                    size="sm"
+                                                    className={cn("w-[130px] capitalize", statusStyles[lead.status])}
+                                                >
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {LEAD_STATUSES.map(status => (
+                                                        <SelectItem key={status} value={status} className="capitalize">
+                                                            {status}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                        <TableCell>
+                                            {lead.source_conversation_id ? (
+                                                <Link
+                                                    href={`/dashboard/conversations?conversation=${lead.source_conversation_id}`}
+                                                    className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                                                >
+                                                    {lead.source_channel ? (
+                                                        <Badge variant="outline" className="text-xs">{lead.source_channel}</Badge>
+                                                    ) : 'Conversation'}
+                                                    <ExternalLink className="h-3 w-3" />
+                                                </Link>
+                                            ) : (
+                                                <span className="text-sm text-muted-foreground">Manual</span>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="max-w-[240px]">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="gap-2 h-auto py-1 px-2 text-left justify-start w-full"
+                                                onClick={() => openNotes(lead)}
+                                            >
+                                                <StickyNote className="h-3 w-3 shrink-0" />
+                                                <span className="truncate text-xs text-muted-foreground">
+                                                    {lead.notes || 'Add notes'}
+                                                </span>
+                                            </Button>
+                                        </TableCell>
+                                        <TableCell className="text-muted-foreground">
+                                            <div className="flex items-center gap-2">
+                                                <Calendar className="h-4 w-4" />
+                                                {new Date(lead.created_at).toLocaleDateString()}
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+
+                    {totalPages > 1 && (
+                        <div className="flex items-center justify-between gap-2 pt-4">
+                            <span className="text-sm text-muted-foreground shrink-0">
+                                Showing {rangeStart}-{rangeEnd} of {totalLeads}
+                            </span>
+                            <Pagination className="mx-0 w-auto">
+                                <PaginationContent>
+                                    <PaginationItem>
+                                        <PaginationPrevious
+                                            href="#"
+                                            aria-disabled={page === 1}
+                                            className={cn(page === 1 && "pointer-events-none opacity-50")}
+                                            onClick={(e) => {
+                                                e.preventDefault();
+                                                goToPage(page - 1);
+                                            }}
+                                        />
+                                    </PaginationItem>
+                                    {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                                        <PaginationItem key={pageNumber ?? `gap-${index}`}>
+                                            {pageNumber === null ? (
+                                                <PaginationEllipsis />
+                                            ) : (
+                                                <PaginationLink
+                                                    href="#"
+                                                    isActive={pageNumber === page}
+                                                    onClick={(e) => {
+                                                        e.preventDefault();
+                                                        goToPage(pageNumber);
+                                                    }}
+                                                >
+                                                    {pageNumber}
+                                                </PaginationLink>
+                                            )}
+                                        </PaginationItem>
+                                    ))}
+                                    <PaginationItem>
+                                        <PaginationNext
+                                            href="#"
+                                            aria-disabled={page === totalPages}
+                                            className={cn(page === totalPages && "pointer-events-none opacity-50")}
+                                            onClick={(e) => {
+                                                e.preventDefault();
+                                                goToPage(page + 1);
+                                            }}
+                                        />
+                                    </PaginationItem>
+                                </PaginationContent>
+                            </Pagination>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Notes Dialog */}
+            <Dialog open={!!notesLead} onOpenChange={(open) => !open && setNotesLead(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Lead notes</DialogTitle>
+                        <DialogDescription>
+                            {notesLead?.name || notesLead?.email || 'Lead'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="lead-notes">Notes</Label>
+                        <Textarea
+                            id="lead-notes"
+                            value={notesDraft}
+                            onChange={(e) => setNotesDraft(e.target.value)}
+                            placeholder="Follow-up details, requirements, next steps..."
+                            className="bg-background border-border min-h-[140px] resize-none"
+                            maxLength={2000}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setNotesLead(null)} disabled={isSavingNotes}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSaveNotes}
+                            disabled={isSavingNotes}
+                            className="bg-white text-black hover:bg-gray-100"
+                        >
+                            {isSavingNotes ? 'Saving...' : 'Save Notes'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 };
 
-export default Leads;
+export default LeadsPage;
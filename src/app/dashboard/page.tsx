@@ -1,51 +1,165 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { MessageSquare, Users, Bot, Plus, Settings, Activity, Clock, FileText, Plug } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MessageSquare, Users, Bot, Plus, Settings, Activity, Clock, FileText, Plug, HardDrive } from "lucide-react"
 import Link from 'next/link'
+import { useBusiness } from "@/contexts/business-context"
+import { Can } from "@/components/can"
+import { SetupChecklist } from "@/components/setup-checklist"
+import { businessAPI, ActivityEvent } from "@/lib/business-api"
+import { chatAPI, BusinessStats, PeriodMetric, StatsPeriod } from "@/lib/chat-api"
 
-export default function DashboardPage() {
-    const stats = [
+// How often the stats and activity feed refresh while the dashboard is open
+const REFRESH_INTERVAL_MS = 30000
+
+const PERIOD_LABELS: Record<StatsPeriod, string> = {
+    "24h": "last 24 hours",
+    "7d": "last 7 days",
+    "30d": "last 30 days",
+}
+
+type Trend = "up" | "down" | "flat"
+
+interface StatCard {
+    title: string
+    value: string
+    change?: string
+    trend: Trend
+    // Whether the trend is an improvement; response time going down is good
+    isPositive?: boolean
+    icon: typeof MessageSquare
+    description: string
+}
+
+// Period-over-period change, e.g. "+12.5%"; "New" when there is nothing to compare against
+const describeChange = (metric: PeriodMetric, lowerIsBetter = false): Pick<StatCard, "change" | "trend" | "isPositive"> => {
+    if (metric.previous === 0) {
+        return metric.current === 0
+            ? { change: "0%", trend: "flat" }
+            : { change: "New", trend: "up", isPositive: !lowerIsBetter }
+    }
+    const percent = ((metric.current - metric.previous) / metric.previous) * 100
+    const trend: Trend = percent > 0 ? "up" : percent < 0 ? "down" : "flat"
+    return {
+        change: `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`,
+        trend,
+        isPositive: trend === "flat" ? undefined : (trend === "down") === lowerIsBetter,
+    }
+}
+
+const formatResponseTime = (ms: number) =>
+    ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+
+const formatBytes = (bytes: number) => {
+    if (bytes === 0) return "0 Bytes"
+    const k = 1024
+    const sizes = ["Bytes", "KB", "MB", "GB"]
+    const i = Math.floor(Math.log(bytes) / Math.log(k))
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+}
+
+const buildStatCards = (stats: BusinessStats | null, period: StatsPeriod): StatCard[] => {
+    const periodLabel = PERIOD_LABELS[period]
+    const empty: PeriodMetric = { current: 0, previous: 0 }
+    return [
         {
-            title: "Active Chats",
-            value: "0",
-            change: "0",
-            trend: "up",
+            title: "Conversations",
+            value: (stats?.conversations.current ?? 0).toLocaleString(),
+            ...describeChange(stats?.conversations ?? empty),
             icon: MessageSquare,
-            description: "Total conversations this month"
+            description: `Conversations in the ${periodLabel}`
         },
         {
             title: "Users Online",
-            value: "0",
-            change: "0",
-            trend: "up",
+            value: (stats?.users_online ?? 0).toLocaleString(),
+            change: "Live",
+            trend: "flat",
             icon: Users,
-            description: "Currently active users"
+            description: `${stats?.active_conversations ?? 0} open conversations`
         },
         {
             title: "AI Responses",
-            value: "0",
-            change: "0",
-            trend: "up",
+            value: (stats?.ai_responses.current ?? 0).toLocaleString(),
+            ...describeChange(stats?.ai_responses ?? empty),
             icon: Bot,
-            description: "AI-generated responses today"
+            description: `AI-generated responses in the ${periodLabel}`
         },
         {
             title: "Response Time",
-            value: "0",
-            change: "0",
-            trend: "down",
+            value: formatResponseTime(stats?.avg_response_time_ms.current ?? 0),
+            ...describeChange(stats?.avg_response_time_ms ?? empty, true),
             icon: Clock,
             description: "Average response time"
         }
     ]
+}
 
+// Dot color for an activity event, by the resource it touched
+const activityColor = (event: ActivityEvent) => {
+    const resource = event.resource_type || event.type.split(".")[0]
+    switch (resource) {
+        case "conversation":
+        case "lead":
+            return "bg-green-400"
+        case "document":
+            return "bg-purple-400"
+        case "bot_config":
+        case "integration":
+        case "business":
+            return "bg-yellow-400"
+        default:
+            return "bg-blue-400"
+    }
+}
+
+export default function DashboardPage() {
+    const { currentBusiness: business } = useBusiness()
+    const [period, setPeriod] = useState<StatsPeriod>("30d")
+    const [stats, setStats] = useState<BusinessStats | null>(null)
+    const [activity, setActivity] = useState<ActivityEvent[]>([])
+    const [activityError, setActivityError] = useState<string | null>(null)
 
-    const recentActivity = [
-        { user: "Sarah Chen", action: "Started new chat session", time: "2 minutes ago", status: "active" },
-        { user: "Mike Johnson", action: "Completed bot training", time: "5 minutes ago", status: "completed" },
-        { user: "Emma Davis", action: "Updated integration settings", time: "12 minutes ago", status: "updated" },
-        { user: "Alex Rodriguez", action: "Created new document", time: "18 minutes ago", status: "created" },
+    // Stats and activity load independently so one failing doesn't blank the other
+    const loadMetrics = useCallback(async () => {
+        if (!business) return
+
+        const [statsResult, activityResult] = await Promise.allSettled([
+            chatAPI.getBusinessStats(business.namespace, period),
+            businessAPI.getActivity(business.id, 8),
+        ])
+
+        if (statsResult.status === "fulfilled") {
+            setStats(statsResult.value.stats)
+        } else {
+            console.error("Error loading business stats:", statsResult.reason)
+        }
+
+        if (activityResult.status === "fulfilled") {
+            setActivity(activityResult.value.events)
+            setActivityError(null)
+        } else {
+            console.error("Error loading activity:", activityResult.reason)
+            setActivityError("Couldn't load recent activity")
+        }
+    }, [business, period])
+
+    useEffect(() => {
+        loadMetrics()
+        const interval = setInterval(loadMetrics, REFRESH_INTERVAL_MS)
+        return () => clearInterval(interval)
+    }, [loadMetrics])
+
+    const statCards = buildStatCards(stats, period)
+
+    const usage = [
+        { label: "Messages", value: (business?.monthly_message_count ?? 0).toLocaleString(), icon: MessageSquare },
+        { label: "Document uploads", value: (business?.monthly_document_uploads ?? 0).toLocaleString(), icon: FileText },
+        { label: "Storage used", value: formatBytes(business?.storage_used_bytes ?? 0), icon: HardDrive },
     ]
 
     return (
@@ -57,24 +171,43 @@ export default function DashboardPage() {
                         Welcome back
                     </h1>
                     <p className="text-muted-foreground mt-2">
-                        Here&apos;s what&apos;s happening with your chat platform today.
+                        Here&apos;s what&apos;s happening with {business?.name || "your chat platform"} today.
                     </p>
                 </div>
                 <div className="flex items-center gap-3">
+                    <Select value={period} onValueChange={(value) => setPeriod(value as StatsPeriod)}>
+                        <SelectTrigger size="sm" className="w-[150px] bg-background border-border">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(PERIOD_LABELS) as StatsPeriod[]).map(option => (
+                                <SelectItem key={option} value={option}>
+                                    {PERIOD_LABELS[option].replace(/^last/, "Last")}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
                     <Button variant="outline" size="sm" className="gap-2">
                         <Settings className="h-4 w-4" />
                         Settings
                     </Button>
-                    <Button size="sm" className="gap-2 bg-white text-black hover:bg-gray-100">
-                        <Plus className="h-4 w-4" />
-                        New Chat
+                    <Button asChild size="sm" className="gap-2 bg-white text-black hover:bg-gray-100">
+                        <Link href="/dashboard/chat">
+                            <Plus className="h-4 w-4" />
+                            New Chat
+                        </Link>
                     </Button>
                 </div>
             </div>
 
+            {/* Setup Checklist */}
+            <Can permission="business:update">
+                <SetupChecklist />
+            </Can>
+
             {/* Stats Grid */}
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-                {stats.map((stat) => {
+                {statCards.map((stat) => {
                     const Icon = stat.icon
                     return (
                         <Card
@@ -93,11 +226,13 @@ export default function DashboardPage() {
                                 </div>
                                 <div className="flex items-center gap-2 mt-2">
                                     <Badge
-                                        variant={stat.trend === "up" ? "default" : "secondary"}
+                                        variant={stat.isPositive ? "default" : "secondary"}
                                         className={`text-xs ${
-                                            stat.trend === "up"
+                                            stat.isPositive === true
                                                 ? "bg-green-500/10 text-green-400 border-green-500/20"
-                                                : "bg-blue-500/10 text-blue-400 border-blue-500/20"
+                                                : stat.isPositive === false
+                                                    ? "bg-red-500/10 text-red-400 border-red-500/20"
+                                                    : "bg-blue-500/10 text-blue-400 border-blue-500/20"
                                         }`}
                                     >
                                         {stat.change}
@@ -126,70 +261,99 @@ export default function DashboardPage() {
                         </CardDescription>
                     </CardHeader>
                     <CardContent>
-                        <div className="space-y-4">
-                            {recentActivity.map((activity, index) => (
-                                <div key={index} className="flex items-center gap-4 p-3 rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors">
-                                    <div className={`w-2 h-2 rounded-full ${
-                                        activity.status === 'active' ? 'bg-green-400' :
-                                        activity.status === 'completed' ? 'bg-blue-400' :
-                                        activity.status === 'updated' ? 'bg-yellow-400' :
-                                        'bg-purple-400'
-                                    }`} />
-                                    <div className="flex-1 min-w-0">
-                                        <p className="text-sm font-medium text-card-foreground">
-                                            {activity.user}
-                                        </p>
-                                        <p className="text-sm text-muted-foreground">
-                                            {activity.action}
-                                        </p>
+                        {activityError ? (
+                            <p className="text-sm text-red-400 py-6 text-center">{activityError}</p>
+                        ) : activity.length === 0 ? (
+                            <p className="text-sm text-muted-foreground py-6 text-center">
+                                No activity yet. Events from your team and customers will show up here.
+                            </p>
+                        ) : (
+                            <div className="space-y-4">
+                                {activity.map((event) => (
+                                    <div key={event.id} className="flex items-center gap-4 p-3 rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors">
+                                        <div className={`w-2 h-2 rounded-full ${activityColor(event)}`} />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-medium text-card-foreground">
+                                                {event.actor_name || (event.actor_type === "system" ? "System" : event.actor_type === "customer" ? "Customer" : "Team member")}
+                                            </p>
+                                            <p className="text-sm text-muted-foreground truncate">
+                                                {event.description}
+                                            </p>
+                                        </div>
+                                        <div className="text-xs text-muted-foreground whitespace-nowrap">
+                                            {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                                        </div>
                                     </div>
-                                    <div className="text-xs text-muted-foreground">
-                                        {activity.time}
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
+                                ))}
+                            </div>
+                        )}
                     </CardContent>
                 </Card>
 
-                {/* Quick Actions */}
-                <Card className="bg-card border-border">
-                    <CardHeader>
-                        <CardTitle className="text-card-foreground">Quick Actions</CardTitle>
-                        <CardDescription>
-                            Common tasks and shortcuts
-                        </CardDescription>
-                    </CardHeader>
+                <div className="space-y-6">
+                    {/* Usage */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="text-card-foreground">This Month</CardTitle>
+                            <CardDescription>
+                                Usage for {business?.name || "your business"}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {usage.map(item => {
+                                const Icon = item.icon
+                                return (
+                                    <div key={item.label} className="flex items-center justify-between text-sm">
+                                        <span className="flex items-center gap-2 text-muted-foreground">
+                                            <Icon className="h-4 w-4" />
+                                            {item.label}
+                                        </span>
+                                        <span className="font-medium text-card-foreground">{item.value}</span>
+                                    </div>
+                                )
+                            })}
+                        </CardContent>
+                    </Card>
 
-                    <CardContent className="space-y-3">
-                        <Link href="/dashboard/documents" passHref>
-                            <Button asChild variant="outline" className="w-full justify-start gap-3 h-12">
-                              <span className="flex items-center gap-3">
-                                <FileText className="h-4 w-4" />
-                                Upload Documents
-                              </span>
-                            </Button>
-                        </Link>
+                    {/* Quick Actions */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="text-card-foreground">Quick Actions</CardTitle>
+                            <CardDescription>
+                                Common tasks and shortcuts
+                            </CardDescription>
+                        </CardHeader>
 
-                        <Link href="/dashboard/bot" passHref>
-                            <Button asChild variant="outline" className="w-full justify-start gap-3 h-12">
-      <span className="flex items-center gap-3">
-        <Bot className="h-4 w-4" />
-        Customize Chatbot
-      </span>
-                            </Button>
-                        </Link>
+                        <CardContent className="space-y-3">
+                            <Link href="/dashboard/documents" passHref>
+                                <Button asChild variant="outline" className="w-full justify-start gap-3 h-12">
+                                  <span className="flex items-center gap-3">
+                                    <FileText className="h-4 w-4" />
+                                    Upload Documents
+                                  </span>
+                                </Button>
+                            </Link>
 
-                        <Link href="/dashboard/integrations" passHref>
-                            <Button asChild variant="outline" className="w-full justify-start gap-3 h-12">
-      <span className="flex items-center gap-3">
-        <Plug className="h-4 w-4" />
-        Add Integrations
-      </span>
-                            </Button>
-                        </Link>
-                    </CardContent>
-                </Card>
+                            <Link href="/dashboard/bot" passHref>
+                                <Button asChild variant="outline" className="w-full justify-start gap-3 h-12">
+          <span className="flex items-center gap-3">
+            <Bot className="h-4 w-4" />
+            Customize Chatbot
+          </span>
+                                </Button>
+                            </Link>
+
+                            <Link href="/dashboard/integrations" passHref>
+                                <Button asChild variant="outline" className="w-full justify-start gap-3 h-12">
+          <span className="flex items-center gap-3">
+            <Plug className="h-4 w-4" />
+            Add Integrations
+          </span>
+                                </Button>
+                            </Link>
+                        </CardContent>
+                    </Card>
+                </div>
             </div>
         </div>
     )
@@ -0,0 +1,487 @@
+'use client'
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm, type Resolver } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { useBusiness, storeBusinessId } from "@/contexts/business-context";
+import { ProtectedRoute } from "@/components/protected-route";
+import { Can } from "@/components/can";
+import { TimezonePicker } from "@/components/timezone-picker";
+import { BusinessHoursEditor } from "@/components/business-hours-editor";
+import { useSlugAvailability } from "@/hooks/use-slug-availability";
+import { businessAPI, BusinessHours } from "@/lib/business-api";
+import { ApiError } from "@/lib/http-client";
+import {
+    businessSchema,
+    BusinessFormData,
+    businessHoursSchema,
+    businessTones,
+    industries,
+} from "@/lib/business-schemas";
+import { DEFAULT_TIMEZONE, normalizeBusinessHours } from "@/lib/business-hours";
+import { getOnboardingProgress } from "@/lib/onboarding";
+import {
+    AlertTriangle,
+    Briefcase,
+    Check,
+    Clock,
+    Globe,
+    Loader2,
+    RotateCcw,
+    Save,
+    SlidersHorizontal,
+    Trash2,
+} from "lucide-react";
+
+// Toggles stored in Business.settings; other keys there are preserved on save
+const settingToggles = [
+    { key: 'notifications_enabled', label: 'Email notifications', description: 'Get notified about new leads and escalated conversations' },
+    { key: 'auto_responses', label: 'Automatic responses', description: 'Let the bot reply to incoming messages without review' },
+] as const;
+
+type SettingToggleKey = typeof settingToggles[number]['key'];
+
+const SettingsPage = () => {
+    const router = useRouter();
+    const { businesses, currentBusiness, refreshBusinesses, setCurrentBusiness } = useBusiness();
+    const [isSaving, setIsSaving] = useState(false);
+    const [businessHours, setBusinessHours] = useState<BusinessHours>(
+        () => normalizeBusinessHours(currentBusiness?.business_hours)
+    );
+    const [hoursError, setHoursError] = useState<string | null>(null);
+    const [toggles, setToggles] = useState<Record<SettingToggleKey, boolean>>(() => ({
+        notifications_enabled: currentBusiness?.settings?.notifications_enabled !== false,
+        auto_responses: currentBusiness?.settings?.auto_responses !== false,
+    }));
+    const [extrasChanged, setExtrasChanged] = useState(false);
+
+    const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+    const [deleteConfirmation, setDeleteConfirmation] = useState("");
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        setValue,
+        reset,
+        formState: { errors, isDirty }
+    } = useForm<BusinessFormData>({
+        resolver: zodResolver(businessSchema) as Resolver<BusinessFormData>,
+        mode: "onChange",
+        defaultValues: {
+            name: currentBusiness?.name || "",
+            slug: currentBusiness?.slug || "",
+            industry: currentBusiness?.industry || "",
+            description: currentBusiness?.description || "",
+            tone: currentBusiness?.tone || "friendly",
+            timezone: currentBusiness?.timezone || DEFAULT_TIMEZONE,
+        }
+    });
+
+    const hasChanges = isDirty || extrasChanged;
+    const slugAvailability = useSlugAvailability(watch("slug"), {
+        currentSlug: currentBusiness?.slug,
+        excludeBusinessId: currentBusiness?.id,
+    });
+    const slugBlocked = slugAvailability.status === "checking" || slugAvailability.status === "taken";
+
+    const handleBusinessHoursChange = (hours: BusinessHours) => {
+        setBusinessHours(hours);
+        setHoursError(null);
+        setExtrasChanged(true);
+    };
+
+    const handleToggleChange = (key: SettingToggleKey, value: boolean) => {
+        setToggles(prev => ({ ...prev, [key]: value }));
+        setExtrasChanged(true);
+    };
+
+    const handleReset = () => {
+        reset();
+        setBusinessHours(normalizeBusinessHours(currentBusiness?.business_hours));
+        setHoursError(null);
+        setToggles({
+            notifications_enabled: currentBusiness?.settings?.notifications_enabled !== false,
+            auto_responses: currentBusiness?.settings?.auto_responses !== false,
+        });
+        setExtrasChanged(false);
+    };
+
+    const onSubmit = async (data: BusinessFormData) => {
+        if (!currentBusiness) return;
+
+        const parsedHours = businessHoursSchema.safeParse(businessHours);
+        if (!parsedHours.success) {
+            const message = parsedHours.error.issues[0]?.message || 'Invalid business hours';
+            setHoursError(message);
+            toast.error(`Please fix the business hours: ${message}`);
+            return;
+        }
+
+        // Saving hours here also completes that setup checklist step
+        const onboarding = getOnboardingProgress(currentBusiness);
+        if (!onboarding.completed_steps.includes('hours')) {
+            onboarding.completed_steps = [...onboarding.completed_steps, 'hours'];
+        }
+
+        try {
+            setIsSaving(true);
+            const response = await businessAPI.updateBusiness(currentBusiness.id, {
+                ...data,
+                business_hours: normalizeBusinessHours(parsedHours.data),
+                settings: { ...currentBusiness.settings, ...toggles, onboarding },
+            });
+
+            if (!response.business) {
+                throw new Error(response.message || 'Failed to update business');
+            }
+
+            setCurrentBusiness(response.business);
+            reset(data);
+            setExtrasChanged(false);
+            toast.success('Business settings saved');
+        } catch (err) {
+            console.error('Error saving business settings:', err);
+            const isConflict = err instanceof ApiError && err.status === 409;
+            toast.error(isConflict ? 'That slug is already taken' : err instanceof Error ? err.message : 'Failed to save settings');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!currentBusiness) return;
+
+        try {
+            setIsDeleting(true);
+            await businessAPI.deleteBusiness(currentBusiness.id);
+            toast.success(`${currentBusiness.name} was deleted`);
+
+            // Move to another business the user belongs to, or start over in onboarding
+            const nextBusiness = businesses.find(business => business.id !== currentBusiness.id);
+            storeBusinessId(nextBusiness?.id ?? null);
+            setIsDeleteOpen(false);
+
+            if (nextBusiness) {
+                await refreshBusinesses();
+                router.push('/dashboard');
+            } else {
+                router.push('/onboarding');
+            }
+        } catch (err) {
+            console.error('Error deleting business:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to delete business');
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-8 p-6">
+            {/* Header Section */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                        Business Settings
+                    </h1>
+                    <p className="text-muted-foreground mt-2">
+                        Update the profile and preferences of {currentBusiness?.name || 'your business'}
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <Button
+                        variant="outline"
+                        onClick={handleReset}
+                        className="gap-2"
+                        disabled={!hasChanges || isSaving}
+                    >
+                        <RotateCcw className="h-4 w-4" />
+                        Reset
+                    </Button>
+                    <Button
+                        onClick={handleSubmit(onSubmit)}
+                        className="gap-2 bg-white text-black hover:bg-gray-100"
+                        disabled={!hasChanges || isSaving || slugBlocked}
+                    >
+                        <Save className="h-4 w-4" />
+                        {isSaving ? 'Saving...' : 'Save Changes'}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid gap-8 lg:grid-cols-2">
+                {/* Business Information */}
+                <Card className="bg-card border-border">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-card-foreground">
+                            <Briefcase className="h-5 w-5" />
+                            Business Information
+                        </CardTitle>
+                        <CardDescription>
+                            How your business is identified across Traliq.ai
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name" className="text-sm font-medium">Business Name</Label>
+                            <Input id="name" {...register("name")} className="bg-background border-border" />
+                            {errors.name && <p className="text-red-400 text-sm">{errors.name.message}</p>}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="slug" className="text-sm font-medium">Business Slug</Label>
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm text-muted-foreground">traliq.ai/</span>
+                                <div className="relative flex-1">
+                                    <Input id="slug" {...register("slug")} className="bg-background border-border pr-9" />
+                                    <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                                        {slugAvailability.status === "checking" && <Loader2 className="h-4 w-4 text-muted-foreground animate-spin" />}
+                                        {slugAvailability.status === "available" && <Check className="h-4 w-4 text-green-400" />}
+                                    </div>
+                                </div>
+                            </div>
+                            {errors.slug ? (
+                                <p className="text-red-400 text-sm">{errors.slug.message}</p>
+                            ) : slugAvailability.status === "taken" ? (
+                                <div className="space-y-2">
+                                    <p className="text-red-400 text-sm">{slugAvailability.message || 'This slug is already taken'}</p>
+                                    {slugAvailability.suggestions.length > 0 && (
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className="text-sm text-muted-foreground">Try:</span>
+                                            {slugAvailability.suggestions.map((suggestion) => (
+                                                <Button
+                                                    key={suggestion}
+                                                    type="button"
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="h-7"
+                                                    onClick={() => setValue("slug", suggestion, { shouldDirty: true, shouldValidate: true })}
+                                                >
+                                                    {suggestion}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            ) : slugAvailability.status === "error" ? (
+                                <p className="text-yellow-400 text-sm">{slugAvailability.message}</p>
+                            ) : null}
+                            {currentBusiness?.namespace && (
+                                <p className="text-xs text-muted-foreground">
+                                    Chat namespace: <code className="font-mono">{currentBusiness.namespace}</code>. It stays the same when the slug changes, so installed widgets keep working.
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-sm font-medium">Industry</Label>
+                            <Select
+                                value={watch("industry")}
+                                onValueChange={(value) => setValue("industry", value, { shouldDirty: true, shouldValidate: true })}
+                            >
+                                <SelectTrigger className="w-full bg-background border-border">
+                                    <SelectValue placeholder="Select your industry" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {industries.map((industry) => (
+                                        <SelectItem key={industry} value={industry}>{industry}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {errors.industry && <p className="text-red-400 text-sm">{errors.industry.message}</p>}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="description" className="text-sm font-medium">Description</Label>
+                            <Textarea
+                                id="description"
+                                {...register("description")}
+                                rows={4}
+                                className="bg-background border-border resize-none"
+                            />
+                            {errors.description && <p className="text-red-400 text-sm">{errors.description.message}</p>}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-8">
+                    {/* Preferences */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-card-foreground">
+                                <Globe className="h-5 w-5" />
+                                Preferences
+                            </CardTitle>
+                            <CardDescription>
+                                Tone and locale used when talking to your customers
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Communication Tone</Label>
+                                <Select
+                                    value={watch("tone")}
+                                    onValueChange={(value) => setValue("tone", value, { shouldDirty: true })}
+                                >
+                                    <SelectTrigger className="w-full bg-background border-border">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {businessTones.map((tone) => (
+                                            <SelectItem key={tone.value} value={tone.value}>{tone.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Timezone</Label>
+                                <TimezonePicker
+                                    value={watch("timezone")}
+                                    onChange={(value) => setValue("timezone", value, { shouldDirty: true, shouldValidate: true })}
+                                    className="bg-background border-border"
+                                />
+                                {errors.timezone && <p className="text-red-400 text-sm">{errors.timezone.message}</p>}
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    {/* Workspace Settings */}
+                    <Card className="bg-card border-border">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-card-foreground">
+                                <SlidersHorizontal className="h-5 w-5" />
+                                Workspace
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {settingToggles.map((toggle) => (
+                                <div key={toggle.key} className="flex items-center justify-between gap-4">
+                                    <div>
+                                        <Label htmlFor={toggle.key} className="text-sm font-medium">{toggle.label}</Label>
+                                        <p className="text-xs text-muted-foreground">{toggle.description}</p>
+                                    </div>
+                                    <Switch
+                                        id={toggle.key}
+                                        checked={toggles[toggle.key]}
+                                        onCheckedChange={(checked) => handleToggleChange(toggle.key, checked)}
+                                    />
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+
+            {/* Business Hours */}
+            <Card className="bg-card border-border">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-card-foreground">
+                        <Clock className="h-5 w-5" />
+                        Business Hours
+                    </CardTitle>
+                    <CardDescription>
+                        Outside these hours the bot shows its offline message and collects contact details
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    <BusinessHoursEditor value={businessHours} onChange={handleBusinessHoursChange} />
+                    {hoursError && <p className="text-red-400 text-sm">{hoursError}</p>}
+                </CardContent>
+            </Card>
+
+            {/* Danger Zone */}
+            <Can permission="business:delete">
+                <Card className="bg-card border-red-500/30">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-red-400">
+                            <AlertTriangle className="h-5 w-5" />
+                            Danger Zone
+                        </CardTitle>
+                        <CardDescription>
+                            Deleting a business disables its bot, integrations and team access
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex items-center justify-between gap-4">
+                        <p className="text-sm text-muted-foreground">
+                            The business is archived and removed from your workspace list.
+                        </p>
+                        <Button
+                            variant="outline"
+                            className="gap-2 border-red-500/40 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                            onClick={() => {
+                                setDeleteConfirmation("");
+                                setIsDeleteOpen(true);
+                            }}
+                        >
+                            <Trash2 className="h-4 w-4" />
+                            Delete Business
+                        </Button>
+                    </CardContent>
+                </Card>
+            </Can>
+
+            {/* Delete Confirmation */}
+            <AlertDialog open={isDeleteOpen} onOpenChange={(open) => !isDeleting && setIsDeleteOpen(open)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {currentBusiness?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Your bot will stop answering on every channel and team members will lose access.
+                            Type <span className="font-semibold text-foreground">{currentBusiness?.name}</span> to confirm.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <Input
+                        value={deleteConfirmation}
+                        onChange={(e) => setDeleteConfirmation(e.target.value)}
+                        placeholder={currentBusiness?.name}
+                        className="bg-background border-border"
+                    />
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleDelete();
+                            }}
+                            disabled={isDeleting || deleteConfirmation.trim() !== currentBusiness?.name}
+                            className="bg-red-600 text-white hover:bg-red-700"
+                        >
+                            {isDeleting ? 'Deleting...' : 'Delete Business'}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+};
+
+const ProtectedSettingsPage = () => {
+    return (
+        <ProtectedRoute permission="business:update">
+            <SettingsPage />
+        </ProtectedRoute>
+    );
+};
+
+export default ProtectedSettingsPage;
@@ -0,0 +1,515 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/auth-context";
+import { useBusiness } from "@/contexts/business-context";
+import { usePermission } from "@/hooks/use-permission";
+import { businessAPI, BusinessRole, Invitation, TeamMember } from "@/lib/business-api";
+import {
+    AlertCircle,
+    Mail,
+    RefreshCw,
+    Trash2,
+    UserPlus,
+    Users,
+    X,
+} from "lucide-react";
+
+const roleStyles: Record<BusinessRole, string> = {
+    owner: 'bg-white/10 text-white border-white/20',
+    admin: 'bg-purple-500/10 text-purple-400 border-purple-500/20',
+    member: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+};
+
+const roleDescriptions: Record<Invitation['role'], string> = {
+    admin: 'Can manage documents, bot settings, integrations and the team',
+    member: 'Can use the chat, conversations and leads',
+};
+
+const inviteSchema = z.object({
+    email: z.email('Enter a valid email address'),
+    role: z.enum(['admin', 'member']),
+});
+
+const getInitials = (name?: string, email?: string) => {
+    if (name) return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+    return (email || 'U').slice(0, 2).toUpperCase();
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const TeamPage = () => {
+    const { user } = useAuth();
+    const { currentBusiness } = useBusiness();
+    const [members, setMembers] = useState<TeamMember[]>([]);
+    const [invitations, setInvitations] = useState<Invitation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [isInviteOpen, setIsInviteOpen] = useState(false);
+    const [inviteEmail, setInviteEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<Invitation['role']>('member');
+    const [inviteError, setInviteError] = useState<string | null>(null);
+    const [isInviting, setIsInviting] = useState(false);
+
+    const [memberToRemove, setMemberToRemove] = useState<TeamMember | null>(null);
+    const [isRemoving, setIsRemoving] = useState(false);
+    const [pendingInvitationId, setPendingInvitationId] = useState<string | null>(null);
+
+    const canManage = usePermission('team:manage');
+
+    const loadTeam = useCallback(async () => {
+        if (!currentBusiness) return;
+
+        try {
+            setIsLoading(true);
+            setError(null);
+
+            const [membersResponse, invitationsResponse] = await Promise.all([
+                businessAPI.listMembers(currentBusiness.id),
+                canManage
+                    ? businessAPI.listInvitations(currentBusiness.id)
+                    : Promise.resolve({ success: true, invitations: [], total: 0 }),
+            ]);
+            setMembers(membersResponse.members);
+            setInvitations(invitationsResponse.invitations);
+        } catch (err) {
+            console.error('Error loading team:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load team');
+            toast.error('Failed to load team');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentBusiness, canManage]);
+
+    useEffect(() => {
+        loadTeam();
+    }, [loadTeam]);
+
+    const openInviteDialog = () => {
+        setInviteEmail("");
+        setInviteRole('member');
+        setInviteError(null);
+        setIsInviteOpen(true);
+    };
+
+    const handleInvite = async () => {
+        if (!currentBusiness) return;
+
+        const parsed = inviteSchema.safeParse({ email: inviteEmail.trim(), role: inviteRole });
+        if (!parsed.success) {
+            setInviteError(parsed.error.issues[0]?.message || 'Invalid invitation');
+            return;
+        }
+
+        const email = parsed.data.email.toLowerCase();
+        if (members.some(member => member.email.toLowerCase() === email)) {
+            setInviteError('This person is already a member');
+            return;
+        }
+
+        try {
+            setIsInviting(true);
+            const response = await businessAPI.inviteMember(currentBusiness.id, { ...parsed.data, email });
+            setInvitations(prev => [response.invitation, ...prev.filter(invite => invite.id !== response.invitation.id)]);
+            toast.success(`Invitation sent to ${email}`);
+            setIsInviteOpen(false);
+        } catch (err) {
+            console.error('Error inviting member:', err);
+            setInviteError(err instanceof Error ? err.message : 'Failed to send invitation');
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRoleChange = async (member: TeamMember, role: BusinessRole) => {
+        if (!currentBusiness || member.role === role) return;
+
+        // Optimistic update, reverted on failure
+        setMembers(prev => prev.map(item => item.id === member.id ? { ...item, role } : item));
+        try {
+            const response = await businessAPI.updateMemberRole(currentBusiness.id, member.id, role);
+            setMembers(prev => prev.map(item => item.id === member.id ? response.member : item));
+            toast.success(`${member.name || member.email} is now ${role === 'admin' ? 'an admin' : 'a member'}`);
+        } catch (err) {
+            console.error('Error updating role:', err);
+            setMembers(prev => prev.map(item => item.id === member.id ? member : item));
+            toast.error(err instanceof Error ? err.message : 'Failed to update role');
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!currentBusiness || !memberToRemove) return;
+
+        try {
+            setIsRemoving(true);
+            await businessAPI.removeMember(currentBusiness.id, memberToRemove.id);
+            setMembers(prev => prev.filter(member => member.id !== memberToRemove.id));
+            toast.success(`${memberToRemove.name || memberToRemove.email} was removed from the team`);
+            setMemberToRemove(null);
+        } catch (err) {
+            console.error('Error removing member:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to remove member');
+        } finally {
+            setIsRemoving(false);
+        }
+    };
+
+    const handleResend = async (invitation: Invitation) => {
+        if (!currentBusiness) return;
+
+        try {
+            setPendingInvitationId(invitation.id);
+            const response = await businessAPI.resendInvitation(currentBusiness.id, invitation.id);
+            setInvitations(prev => prev.map(item => item.id === invitation.id ? response.invitation : item));
+            toast.success(`Invitation resent to ${invitation.email}`);
+        } catch (err) {
+            console.error('Error resending invitation:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to resend invitation');
+        } finally {
+            setPendingInvitationId(null);
+        }
+    };
+
+    const handleRevoke = async (invitation: Invitation) => {
+        if (!currentBusiness) return;
+
+        try {
+            setPendingInvitationId(invitation.id);
+            await businessAPI.revokeInvitation(currentBusiness.id, invitation.id);
+            setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+            toast.info(`Invitation for ${invitation.email} revoked`);
+        } catch (err) {
+            console.error('Error revoking invitation:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to revoke invitation');
+        } finally {
+            setPendingInvitationId(null);
+        }
+    };
+
+    // Owners can't be demoted or removed here, and nobody edits their own membership
+    const isEditable = (member: TeamMember) =>
+        canManage && member.role !== 'owner' && member.user_id !== user?.id;
+
+    // Show loading state
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+                    <p className="text-muted-foreground">Loading team...</p>
+                </div>
+            </div>
+        );
+    }
+
+    // Show error state
+    if (error) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-4" />
+                    <p className="text-red-400 mb-4">{error}</p>
+                    <Button onClick={loadTeam} variant="outline">
+                        Try Again
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-8 p-6">
+            {/* Header Section */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight text-foreground">
+                        Team
+                    </h1>
+                    <p className="text-muted-foreground mt-2">
+                        Manage who has access to {currentBusiness?.name || 'your business'}
+                    </p>
+                </div>
+                {canManage && (
+                    <Button onClick={openInviteDialog} className="gap-2 bg-white text-black hover:bg-gray-100">
+                        <UserPlus className="h-4 w-4" />
+                        Invite Member
+                    </Button>
+                )}
+            </div>
+
+            {/* Members */}
+            <Card className="bg-card border-border">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-card-foreground">
+                        <Users className="h-5 w-5" />
+                        Members ({members.length})
+                    </CardTitle>
+                    <CardDescription>
+                        People who can sign in to this business
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Member</TableHead>
+                                <TableHead>Role</TableHead>
+                                <TableHead>Joined</TableHead>
+                                <TableHead className="w-12" />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {members.map(member => (
+                                <TableRow key={member.id}>
+                                    <TableCell>
+                                        <div className="flex items-center gap-3">
+                                            <Avatar className="h-8 w-8">
+                                                <AvatarImage src={member.avatar_url} alt={member.name || member.email} />
+                                                <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                                                    {getInitials(member.name, member.email)}
+                                                </AvatarFallback>
+                                            </Avatar>
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-medium text-card-foreground truncate">
+                                                    {member.name || member.email}
+                                                    {member.user_id === user?.id && (
+                                                        <span className="text-muted-foreground font-normal"> (you)</span>
+                                                    )}
+                                                </p>
+                                                {member.name && (
+                                                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </TableCell>
+                                    <TableCell>
+                                        {isEditable(member) ? (
+                                            <Select
+                                                value={member.role}
+                                                onValueChange={(value) => handleRoleChange(member, value as BusinessRole)}
+                                            >
+                                                <SelectTrigger size="sm" className="w-[120px] bg-background border-border">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="admin">Admin</SelectItem>
+                                                    <SelectItem value="member">Member</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        ) : (
+                                            <Badge variant="outline" className={`capitalize ${roleStyles[member.role]}`}>
+                                                {member.role}
+                                            </Badge>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-sm text-muted-foreground">
+                                        {formatDate(member.accepted_at || member.created_at)}
+                                    </TableCell>
+                                    <TableCell>
+                                        {isEditable(member) && (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => setMemberToRemove(member)}
+                                                title="Remove member"
+                                                className="text-muted-foreground hover:text-red-400"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            {/* Pending Invitations */}
+            {canManage && (
+                <Card className="bg-card border-border">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-card-foreground">
+                            <Mail className="h-5 w-5" />
+                            Pending Invitations ({invitations.length})
+                        </CardTitle>
+                        <CardDescription>
+                            Invitations that haven&apos;t been accepted yet
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {invitations.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-6">
+                                No pending invitations
+                            </p>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Email</TableHead>
+                                        <TableHead>Role</TableHead>
+                                        <TableHead>Invited by</TableHead>
+                                        <TableHead>Expires</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {invitations.map(invitation => {
+                                        const isExpired = new Date(invitation.expires_at) < new Date();
+                                        return (
+                                            <TableRow key={invitation.id}>
+                                                <TableCell className="text-sm">{invitation.email}</TableCell>
+                                                <TableCell>
+                                                    <Badge variant="outline" className={`capitalize ${roleStyles[invitation.role]}`}>
+                                                        {invitation.role}
+                                                    </Badge>
+                                                </TableCell>
+                                                <TableCell className="text-sm text-muted-foreground">
+                                                    {invitation.invited_by_name || '—'}
+                                                </TableCell>
+                                                <TableCell className={`text-sm ${isExpired ? 'text-red-400' : 'text-muted-foreground'}`}>
+                                                    {isExpired ? 'Expired' : formatDate(invitation.expires_at)}
+                                                </TableCell>
+                                                <TableCell>
+                                                    <div className="flex justify-end gap-2">
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="gap-1"
+                                                            disabled={pendingInvitationId === invitation.id}
+                                                            onClick={() => handleResend(invitation)}
+                                                        >
+                                                            <RefreshCw className="h-3 w-3" />
+                                                            Resend
+                                                        </Button>
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="gap-1"
+                                                            disabled={pendingInvitationId === invitation.id}
+                                                            onClick={() => handleRevoke(invitation)}
+                                                        >
+                                                            <X className="h-3 w-3" />
+                                                            Revoke
+                                                        </Button>
+                                                    </div>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Invite Dialog */}
+            <Dialog open={isInviteOpen} onOpenChange={(open) => !isInviting && setIsInviteOpen(open)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Invite a team member</DialogTitle>
+                        <DialogDescription>
+                            They&apos;ll get an email with a link to join {currentBusiness?.name || 'your business'}.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="invite-email" className="text-sm font-medium">Email</Label>
+                            <Input
+                                id="invite-email"
+                                type="email"
+                                value={inviteEmail}
+                                onChange={(e) => {
+                                    setInviteEmail(e.target.value);
+                                    setInviteError(null);
+                                }}
+                                onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                                placeholder="colleague@company.com"
+                                className="bg-background border-border"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-sm font-medium">Role</Label>
+                            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Invitation['role'])}>
+                                <SelectTrigger className="w-full bg-background border-border">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="member">Member</SelectItem>
+                                    <SelectItem value="admin">Admin</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">{roleDescriptions[inviteRole]}</p>
+                        </div>
+                        {inviteError && <p className="text-red-400 text-sm">{inviteError}</p>}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsInviteOpen(false)} disabled={isInviting}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleInvite} disabled={isInviting} className="bg-white text-black hover:bg-gray-100">
+                            {isInviting ? 'Sending...' : 'Send Invitation'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Remove Member Confirmation */}
+            <AlertDialog open={!!memberToRemove} onOpenChange={(open) => !open && !isRemoving && setMemberToRemove(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Remove {memberToRemove?.name || memberToRemove?.email}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            They will immediately lose access to {currentBusiness?.name || 'this business'}. You can invite them again later.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isRemoving}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleRemove();
+                            }}
+                            disabled={isRemoving}
+                            className="bg-red-600 text-white hover:bg-red-700"
+                        >
+                            {isRemoving ? 'Removing...' : 'Remove'}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+};
+
+export default TeamPage;
@@ -1,10 +1,9 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useRouter } from "next/navigation"
 import { useForm, type Resolver } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import * as z from "zod"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -12,103 +11,179 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
-import { Building2, Clock, Globe, Briefcase, ArrowRight, Check } from "lucide-react"
+import { Building2, Clock, Globe, Briefcase, ArrowRight, Check, Upload, FileText, Bot, MessagesSquare, Loader2, Send, XCircle } from "lucide-react"
 import { toast } from "sonner"
-import { businessAPI } from "@/lib/business-api"
+import { businessAPI, Business } from "@/lib/business-api"
+import { documentAPI } from "@/lib/api"
+import { chatAPI } from "@/lib/chat-api"
+import config from "@/lib/config"
+import { ApiError } from "@/lib/http-client"
 import { useAuth } from "@/contexts/auth-context"
+import { storeBusinessId } from "@/contexts/business-context"
 import { ProtectedRoute } from "@/components/protected-route"
-
-// Business registration schema
-const businessSchema = z.object({
-  name: z.string().min(2, "Business name must be at least 2 characters"),
-  slug: z.string().min(2, "Slug is required"),
-  industry: z.string().min(1, "Please select an industry"),
-  description: z.string().min(10, "Description must be at least 10 characters"),
-  tone: z.string().default("friendly"),
-})
-
-type BusinessFormData = z.infer<typeof businessSchema>
-
-interface BusinessHours {
-  [key: string]: {
-    open: string
-    close: string
-    isOpen: boolean
-  }
-}
-
-const industries = [
-  "Technology",
-  "Healthcare",
-  "Finance",
-  "Education",
-  "Retail",
-  "Manufacturing",
-  "Real Estate",
-  "Food & Beverage",
-  "Transportation",
-  "Entertainment",
-  "Consulting",
-  "Other"
+import { TimezonePicker } from "@/components/timezone-picker"
+import { useSlugAvailability } from "@/hooks/use-slug-availability"
+import { businessSchema, BusinessFormData, businessTones, industries, slugify } from "@/lib/business-schemas"
+import type { BusinessHours, DayHours, Weekday } from "@/lib/business-api"
+import { DEFAULT_BUSINESS_HOURS, WEEKDAYS, getBrowserTimezone } from "@/lib/business-hours"
+import { DEFAULT_BOT_CONFIG } from "@/lib/bot-config"
+import {
+  clearOnboardingDraft,
+  completeOnboardingSteps,
+  loadOnboardingDraft,
+  OnboardingStep,
+  saveOnboardingDraft,
+  updateOnboardingProgress,
+} from "@/lib/onboarding"
+
+// Steps 1-3 collect the business profile and create it; 4-6 set it up
+const STEPS = [
+  { step: 1, label: "Business" },
+  { step: 2, label: "Preferences" },
+  { step: 3, label: "Hours" },
+  { step: 4, label: "Document" },
+  { step: 5, label: "Bot" },
+  { step: 6, label: "Test" },
 ]
+const LAST_PROFILE_STEP = 3
 
+// Fields validated before leaving each profile step
+const STEP_FIELDS: Record<number, (keyof BusinessFormData)[]> = {
+  1: ["name", "slug", "industry", "description"],
+  2: ["tone", "timezone"],
+}
 
-const daysOfWeek = [
-  { key: "monday", label: "Monday" },
-  { key: "tuesday", label: "Tuesday" },
-  { key: "wednesday", label: "Wednesday" },
-  { key: "thursday", label: "Thursday" },
-  { key: "friday", label: "Friday" },
-  { key: "saturday", label: "Saturday" },
-  { key: "sunday", label: "Sunday" }
-]
+type UploadState = { filename: string; progress: number; status: "uploading" | "done" | "error"; error?: string }
 
 const Onboarding = () => {
   const router = useRouter()
-  useAuth() // keep hook call in case you need auth effects later; don't destructure unused value
+  const { user } = useAuth()
+  const userId = user?.id
   const [currentStep, setCurrentStep] = useState(1)
   const [isLoading, setIsLoading] = useState(false)
-  const [businessHours, setBusinessHours] = useState<BusinessHours>({
-    monday: { open: "09:00", close: "17:00", isOpen: true },
-    tuesday: { open: "09:00", close: "17:00", isOpen: true },
-    wednesday: { open: "09:00", close: "17:00", isOpen: true },
-    thursday: { open: "09:00", close: "17:00", isOpen: true },
-    friday: { open: "09:00", close: "17:00", isOpen: true },
-    saturday: { open: "10:00", close: "16:00", isOpen: false },
-    sunday: { open: "10:00", close: "16:00", isOpen: false }
-  })
+  const [businessHours, setBusinessHours] = useState<BusinessHours>(DEFAULT_BUSINESS_HOURS)
+  // The business once created in step 3; later steps work against it
+  const [business, setBusiness] = useState<Business | null>(null)
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  // Stop deriving the slug from the name once the user has chosen one
+  const [slugEdited, setSlugEdited] = useState(false)
+
+  const [upload, setUpload] = useState<UploadState | null>(null)
+  const [botName, setBotName] = useState("")
+  const [greeting, setGreeting] = useState(DEFAULT_BOT_CONFIG.greeting_message || "")
+  const [isSavingBot, setIsSavingBot] = useState(false)
+  const [testQuestion, setTestQuestion] = useState("")
+  const [testReply, setTestReply] = useState<string | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
 
   const {
     register,
     handleSubmit,
     watch,
     setValue,
+    getValues,
+    reset,
+    trigger,
     formState: { errors, isValid }
   } = useForm<BusinessFormData>({
     resolver: zodResolver(businessSchema) as Resolver<BusinessFormData>, // <- fixed type assertion
     mode: "onChange",
     defaultValues: {
-      tone: "friendly"
+      tone: "friendly",
+      timezone: getBrowserTimezone()
     }
   })
 
   const watchedName = watch("name")
+  const watchedSlug = watch("slug")
+  const watchedTimezone = watch("timezone")
+  const slugAvailability = useSlugAvailability(business ? undefined : watchedSlug)
+  const slugBlocked = slugAvailability.status === "checking" || slugAvailability.status === "taken"
 
   // Auto-generate slug from business name
   useEffect(() => {
-    if (watchedName) {
-      const slug = watchedName
-          .toLowerCase()
-          .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
-          .replace(/\s+/g, '-') // Replace spaces with hyphens
-          .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-          .trim()
-      setValue("slug", slug)
+    if (watchedName && !slugEdited) {
+      setValue("slug", slugify(watchedName), { shouldValidate: true })
     }
-  }, [watchedName, setValue])
+  }, [watchedName, slugEdited, setValue])
+
+  const chooseSlug = (slug: string) => {
+    setSlugEdited(true)
+    setValue("slug", slug, { shouldValidate: true })
+  }
+
+  // Resume a setup the user left halfway
+  useEffect(() => {
+    if (!userId) return
+    const draft = loadOnboardingDraft(userId)
+
+    const restore = async () => {
+      if (!draft) return
+
+      reset({ ...getValues(), ...draft.values })
+      if (draft.values.slug && draft.values.slug !== slugify(draft.values.name || "")) {
+        setSlugEdited(true)
+      }
+      setBusinessHours(draft.business_hours || DEFAULT_BUSINESS_HOURS)
+      if (draft.bot_name !== undefined) setBotName(draft.bot_name)
+      if (draft.greeting_message !== undefined) setGreeting(draft.greeting_message)
+
+      if (draft.business) {
+        try {
+          const response = await businessAPI.getBusiness(draft.business.id)
+          if (!response.business) throw new Error(response.message || "Business not found")
+          setBusiness(response.business)
+          setCurrentStep(Math.max(draft.step, LAST_PROFILE_STEP + 1))
+        } catch (err) {
+          // The business is gone (deleted or access revoked), start over
+          console.warn("Could not resume onboarding for saved business:", err)
+          clearOnboardingDraft(userId)
+          setCurrentStep(1)
+          return
+        }
+      } else {
+        setCurrentStep(Math.min(draft.step, LAST_PROFILE_STEP))
+      }
+      toast("Picked up where you left off")
+    }
+
+    restore().finally(() => setDraftLoaded(true))
+  }, [userId, reset, getValues])
+
+  // Keep the draft in sync so leaving the page doesn't lose progress
+  const persistDraft = useCallback(() => {
+    if (!userId || !draftLoaded) return
+    saveOnboardingDraft(userId, {
+      step: currentStep,
+      values: getValues(),
+      business_hours: businessHours,
+      business: business ? { id: business.id, name: business.name, namespace: business.namespace } : undefined,
+      bot_name: botName,
+      greeting_message: greeting,
+    })
+  }, [userId, draftLoaded, currentStep, getValues, businessHours, business, botName, greeting])
 
-  const handleBusinessHoursChange = (day: string, field: string, value: string | boolean) => {
+  useEffect(() => {
+    persistDraft()
+  }, [persistDraft])
+
+  useEffect(() => {
+    const subscription = watch(() => persistDraft())
+    return () => subscription.unsubscribe()
+  }, [watch, persistDraft])
+
+  const completeSteps = async (target: Business, steps: OnboardingStep[]) => {
+    try {
+      const updated = await completeOnboardingSteps(target, steps)
+      if (updated) setBusiness(updated)
+    } catch (err) {
+      console.warn("Failed to record setup progress:", err)
+    }
+  }
+
+  const handleBusinessHoursChange = <K extends keyof DayHours>(day: Weekday, field: K, value: DayHours[K]) => {
     setBusinessHours(prev => ({
       ...prev,
       [day]: {
@@ -126,10 +201,12 @@ const Onboarding = () => {
       const businessData = {
         name: data.name,
         slug: data.slug,
+        // The slug is what the chat API and widget address this business by
+        namespace: data.slug,
         industry: data.industry,
         description: data.description,
         tone: data.tone,
-        timezone: "UTC",
+        timezone: data.timezone,
         business_hours: businessHours,
         settings: {
           notifications_enabled: true,
@@ -143,30 +220,39 @@ const Onboarding = () => {
       // Create business using the API
       const response = await businessAPI.createBusiness(businessData)
 
-      if (response.success) {
+      if (response.success && response.business) {
+        storeBusinessId(response.business.id)
+        setBusiness(response.business)
+        setBotName(`${data.name} Assistant`)
+        await completeSteps(response.business, ["business", "hours"])
+
         toast.success('Business registered successfully!', {
-          description: 'Welcome to Traliq.ai! Redirecting to your dashboard...'
+          description: 'Next, teach your assistant about your business.'
         })
-
-        // Redirect to dashboard after successful registration
-        setTimeout(() => {
-          router.push('/dashboard')
-        }, 1500)
+        setCurrentStep(LAST_PROFILE_STEP + 1)
       } else {
         throw new Error(response.message || 'Failed to create business')
       }
 
     } catch (error) {
       console.error('Business registration error:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      if (error instanceof ApiError && error.status === 409) {
+        // Someone claimed the slug between the check and the submit
+        toast.error('That slug is already taken', {
+          description: 'Pick another one to continue.'
+        })
+        setCurrentStep(1)
+        return
+      }
+      const isAuthError = error instanceof ApiError && (error.status === 401 || error.status === 403)
       toast.error('Registration failed', {
-        description: errorMessage.includes('401') || errorMessage.includes('403')
+        description: isAuthError
             ? 'Please log in again to continue.'
             : 'Please try again or contact support if the issue persists.'
       })
 
       // If authentication error, redirect to login
-      if (errorMessage.includes('401') || errorMessage.includes('403')) {
+      if (isAuthError) {
         setTimeout(() => {
           router.push('/auth/login')
         }, 2000)
@@ -176,18 +262,114 @@ const Onboarding = () => {
     }
   }
 
-  const nextStep = () => {
-    if (currentStep < 3) {
+  const nextStep = async () => {
+    const fields = STEP_FIELDS[currentStep]
+    if (fields && !(await trigger(fields))) return
+    if (currentStep === 1 && slugBlocked) return
+
+    if (currentStep < STEPS.length) {
       setCurrentStep(currentStep + 1)
     }
   }
 
   const prevStep = () => {
-    if (currentStep > 1) {
+    // The profile can't be revisited here once the business exists; it's editable in settings
+    if (currentStep > 1 && currentStep !== LAST_PROFILE_STEP + 1) {
       setCurrentStep(currentStep - 1)
     }
   }
 
+  const handleDocumentUpload = async (file: File) => {
+    if (!business) return
+
+    const extension = '.' + file.name.split('.').pop()?.toLowerCase()
+    if (!config.upload.acceptedFileTypes.includes(extension)) {
+      toast.error(`Invalid file type. Supported types: ${config.upload.acceptedFileTypes.join(', ')}`)
+      return
+    }
+    if (file.size > config.upload.maxFileSize) {
+      toast.error('File too large. Maximum size is 10MB')
+      return
+    }
+
+    setUpload({ filename: file.name, progress: 0, status: "uploading" })
+    try {
+      await documentAPI.uploadDocument(file, business.id, (progress) => {
+        setUpload(prev => prev && { ...prev, progress })
+      })
+      setUpload({ filename: file.name, progress: 100, status: "done" })
+      toast.success(`Upload successful: ${file.name}`)
+      await completeSteps(business, ["document"])
+    } catch (err) {
+      console.error('Onboarding upload error:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Upload failed'
+      setUpload({ filename: file.name, progress: 0, status: "error", error: errorMessage })
+      toast.error(`Upload failed: ${errorMessage}`)
+    }
+  }
+
+  const handleSaveBot = async () => {
+    if (!business) return
+    if (!botName.trim()) {
+      toast.error('Please give your assistant a name')
+      return
+    }
+
+    try {
+      setIsSavingBot(true)
+      await chatAPI.updateBotConfig(business.namespace, {
+        bot_name: botName.trim(),
+        greeting_message: greeting.trim() || DEFAULT_BOT_CONFIG.greeting_message,
+      })
+      await completeSteps(business, ["bot"])
+      setCurrentStep(currentStep + 1)
+    } catch (err) {
+      console.error('Onboarding bot config error:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to save your assistant')
+    } finally {
+      setIsSavingBot(false)
+    }
+  }
+
+  const handleTestChat = async () => {
+    if (!business || !testQuestion.trim()) return
+
+    try {
+      setIsTesting(true)
+      setTestReply(null)
+      const response = await chatAPI.sendMessage({
+        message: testQuestion.trim(),
+        business_namespace: business.namespace,
+        session_id: chatAPI.generateSessionId(),
+        customer_name: user?.name || user?.email,
+        customer_email: user?.email,
+        channel: 'web_chat'
+      })
+      setTestReply(response.response)
+      await completeSteps(business, ["test_chat"])
+    } catch (err) {
+      console.error('Onboarding test chat error:', err)
+      toast.error(err instanceof Error ? err.message : 'The assistant could not answer right now')
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const finishSetup = async () => {
+    if (!business || !userId) return
+
+    try {
+      setIsLoading(true)
+      await updateOnboardingProgress(business, { completed_at: new Date().toISOString() })
+    } catch (err) {
+      console.warn("Failed to record setup completion:", err)
+    } finally {
+      clearOnboardingDraft(userId)
+      setIsLoading(false)
+    }
+    router.push('/dashboard')
+  }
+
   return (
       <div className="min-h-screen bg-black text-white flex items-center justify-center p-6">
         <div className="w-full max-w-3xl">
@@ -200,24 +382,31 @@ const Onboarding = () => {
               </h1>
             </div>
             <h2 className="text-2xl font-light mb-3 tracking-wide">Welcome to your AI-powered chat platform</h2>
-            <p className="text-gray-400 text-lg">Let&apos;s set up your business profile to get started</p>
+            <p className="text-gray-400 text-lg">
+              {currentStep <= LAST_PROFILE_STEP
+                  ? <>Let&apos;s set up your business profile to get started</>
+                  : <>Let&apos;s get {business?.name || 'your assistant'} ready to answer customers</>}
+            </p>
           </div>
 
           {/* Progress Steps */}
           <div className="flex items-center justify-center mb-12">
-            {[1, 2, 3].map((step) => (
+            {STEPS.map(({ step, label }) => (
                 <div key={step} className="flex items-center">
-                  <div className={`
-                w-12 h-12 rounded-full flex items-center justify-center text-sm font-medium transition-all duration-300
-                ${currentStep >= step
-                      ? 'bg-white text-black shadow-lg'
-                      : 'bg-black text-white border-2 border-white/20'
-                  }
-              `}>
-                    {currentStep > step ? <Check className="h-5 w-5" /> : step}
+                  <div className="flex flex-col items-center gap-2">
+                    <div className={`
+                  w-12 h-12 rounded-full flex items-center justify-center text-sm font-medium transition-all duration-300
+                  ${currentStep >= step
+                        ? 'bg-white text-black shadow-lg'
+                        : 'bg-black text-white border-2 border-white/20'
+                    }
+                `}>
+                      {currentStep > step ? <Check className="h-5 w-5" /> : step}
+                    </div>
+                    <span className="text-xs text-white/50">{label}</span>
                   </div>
-                  {step < 3 && (
-                      <div className={`w-16 h-0.5 mx-4 transition-all duration-300 ${
+                  {step < STEPS.length && (
+                      <div className={`w-8 h-0.5 mx-2 mb-6 transition-all duration-300 ${
                           currentStep > step ? 'bg-white' : 'bg-white/20'
                       }`} />
                   )}
@@ -225,6 +414,7 @@ const Onboarding = () => {
             ))}
           </div>
 
+          {currentStep <= LAST_PROFILE_STEP ? (
           <form onSubmit={handleSubmit(onSubmit)}>
             {/* Step 1: Business Information */}
             {currentStep === 1 && (
@@ -256,17 +446,49 @@ const Onboarding = () => {
                       <Label htmlFor="slug" className="text-white font-medium text-base">Business Slug *</Label>
                       <div className="flex items-center gap-3">
                         <span className="text-white/60 text-base font-medium">traliq.ai/</span>
-                        <Input
-                            id="slug"
-                            {...register("slug")}
-                            placeholder="business-slug"
-                            className="bg-black border-white/30 text-white placeholder-white/40 focus:border-white focus:ring-2 focus:ring-white/20 h-12 text-base"
-                        />
+                        <div className="relative flex-1">
+                          <Input
+                              id="slug"
+                              {...register("slug", { onChange: () => setSlugEdited(true) })}
+                              placeholder="business-slug"
+                              className="bg-black border-white/30 text-white placeholder-white/40 focus:border-white focus:ring-2 focus:ring-white/20 h-12 text-base pr-10"
+                          />
+                          <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                            {slugAvailability.status === "checking" && <Loader2 className="h-5 w-5 text-white/60 animate-spin" />}
+                            {slugAvailability.status === "available" && <Check className="h-5 w-5 text-green-400" />}
+                            {slugAvailability.status === "taken" && <XCircle className="h-5 w-5 text-red-400" />}
+                          </div>
+                        </div>
                       </div>
-                      {errors.slug && (
+                      {errors.slug ? (
                           <p className="text-red-400 text-sm mt-2">{errors.slug.message}</p>
-                      )}
-                      <p className="text-white/50 text-sm">This will be your unique URL identifier</p>
+                      ) : slugAvailability.status === "taken" ? (
+                          <div className="space-y-2">
+                            <p className="text-red-400 text-sm mt-2">{slugAvailability.message || "This slug is already taken"}</p>
+                            {slugAvailability.suggestions.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <span className="text-white/50 text-sm">Try:</span>
+                                  {slugAvailability.suggestions.map((suggestion) => (
+                                      <Badge
+                                          key={suggestion}
+                                          asChild
+                                          variant="outline"
+                                          className="border-white/30 text-white cursor-pointer hover:bg-white/10"
+                                      >
+                                        <button type="button" onClick={() => chooseSlug(suggestion)}>
+                                          {suggestion}
+                                        </button>
+                                      </Badge>
+                                  ))}
+                                </div>
+                            )}
+                          </div>
+                      ) : slugAvailability.status === "error" ? (
+                          <p className="text-yellow-400 text-sm mt-2">{slugAvailability.message}</p>
+                      ) : null}
+                      <p className="text-white/50 text-sm">
+                        Your unique URL identifier. It&apos;s also the chat namespace your website widget connects to, so it can&apos;t change later.
+                      </p>
                     </div>
 
                     <div className="space-y-3">
@@ -325,13 +547,27 @@ const Onboarding = () => {
                           <SelectValue placeholder="Select communication tone" />
                         </SelectTrigger>
                         <SelectContent className="bg-black border-white/30">
-                          <SelectItem value="friendly" className="text-white hover:bg-white/10 focus:bg-white/10">Friendly</SelectItem>
-                          <SelectItem value="professional" className="text-white hover:bg-white/10 focus:bg-white/10">Professional</SelectItem>
-                          <SelectItem value="casual" className="text-white hover:bg-white/10 focus:bg-white/10">Casual</SelectItem>
-                          <SelectItem value="formal" className="text-white hover:bg-white/10 focus:bg-white/10">Formal</SelectItem>
+                          {businessTones.map((tone) => (
+                              <SelectItem key={tone.value} value={tone.value} className="text-white hover:bg-white/10 focus:bg-white/10">
+                                {tone.label}
+                              </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div className="space-y-3">
+                      <Label className="text-white font-medium text-base">Timezone</Label>
+                      <TimezonePicker
+                          value={watchedTimezone}
+                          onChange={(value) => setValue("timezone", value, { shouldValidate: true })}
+                          className="bg-black border-white/30 text-white hover:bg-white/10 hover:text-white h-12 text-base"
+                      />
+                      {errors.timezone && (
+                          <p className="text-red-400 text-sm mt-2">{errors.timezone.message}</p>
+                      )}
+                      <p className="text-white/50 text-sm">Business hours are interpreted in this timezone</p>
+                    </div>
                   </CardContent>
                 </Card>
             )}
@@ -349,14 +585,14 @@ const Onboarding = () => {
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-5">
-                    {daysOfWeek.map((day) => (
+                    {WEEKDAYS.map((day) => (
                         <div key={day.key} className="flex items-center gap-6 p-4 rounded-lg bg-black border border-white/20 hover:border-white/40 transition-all duration-200">
                           <div className="flex items-center space-x-3 min-w-[140px]">
                             <Checkbox
                                 id={day.key}
-                                checked={businessHours[day.key]?.isOpen}
+                                checked={businessHours[day.key].isOpen}
                                 onCheckedChange={(checked) =>
-                                    handleBusinessHoursChange(day.key, 'isOpen', checked as boolean)
+                                    handleBusinessHoursChange(day.key, 'isOpen', checked === true)
                                 }
                                 className="border-white/30 data-[state=checked]:bg-white data-[state=checked]:text-black"
                             />
@@ -365,25 +601,25 @@ const Onboarding = () => {
                             </Label>
                           </div>
 
-                          {businessHours[day.key]?.isOpen && (
+                          {businessHours[day.key].isOpen && (
                               <div className="flex items-center gap-4 flex-1">
                                 <Input
                                     type="time"
-                                    value={businessHours[day.key]?.open}
+                                    value={businessHours[day.key].open}
                                     onChange={(e) => handleBusinessHoursChange(day.key, 'open', e.target.value)}
                                     className="bg-black border-white/30 text-white w-36 h-10 focus:border-white focus:ring-2 focus:ring-white/20"
                                 />
                                 <span className="text-white/60 font-medium">to</span>
                                 <Input
                                     type="time"
-                                    value={businessHours[day.key]?.close}
+                                    value={businessHours[day.key].close}
                                     onChange={(e) => handleBusinessHoursChange(day.key, 'close', e.target.value)}
                                     className="bg-black border-white/30 text-white w-36 h-10 focus:border-white focus:ring-2 focus:ring-white/20"
                                 />
                               </div>
                           )}
 
-                          {!businessHours[day.key]?.isOpen && (
+                          {!businessHours[day.key].isOpen && (
                               <Badge variant="secondary" className="bg-white/10 text-white/60 border-white/20">
                                 Closed
                               </Badge>
@@ -406,10 +642,11 @@ const Onboarding = () => {
                 Previous
               </Button>
 
-              {currentStep < 3 ? (
+              {currentStep < LAST_PROFILE_STEP ? (
                   <Button
                       type="button"
                       onClick={nextStep}
+                      disabled={currentStep === 1 && slugBlocked}
                       className="bg-white text-black hover:bg-white/90 h-12 px-8 text-base font-medium shadow-lg hover:shadow-xl transition-all duration-200"
                   >
                     Next
@@ -418,14 +655,210 @@ const Onboarding = () => {
               ) : (
                   <Button
                       type="submit"
-                      disabled={!isValid || isLoading}
+                      disabled={!isValid || isLoading || slugBlocked}
                       className="bg-white text-black hover:bg-white/90 disabled:opacity-50 h-12 px-8 text-base font-medium shadow-lg hover:shadow-xl transition-all duration-200"
                   >
-                    {isLoading ? 'Setting up...' : 'Complete Setup'}
+                    {isLoading ? 'Setting up...' : 'Create Business'}
                   </Button>
               )}
             </div>
           </form>
+          ) : (
+          <div>
+            {/* Step 4: First Document */}
+            {currentStep === 4 && (
+                <Card className="bg-black border-white/20 text-white shadow-2xl">
+                  <CardHeader className="pb-8">
+                    <CardTitle className="flex items-center gap-3 text-2xl font-light">
+                      <FileText className="h-6 w-6" />
+                      Upload Your First Document
+                    </CardTitle>
+                    <CardDescription className="text-white/60 text-lg">
+                      FAQs, price lists or policies your assistant should answer from
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div
+                        className="rounded-lg border-2 border-dashed border-white/20 hover:border-white/50 p-10 text-center cursor-pointer transition-all duration-200"
+                        onClick={() => upload?.status !== "uploading" && document.getElementById('onboarding-file-input')?.click()}
+                    >
+                      <div className="mx-auto w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mb-4">
+                        <Upload className="w-8 h-8 text-white" />
+                      </div>
+                      <p className="text-lg">Click to choose a file</p>
+                      <p className="text-white/50 text-sm mt-1">
+                        {config.upload.acceptedFileTypes.join(', ').toUpperCase()} up to 10MB
+                      </p>
+                    </div>
+                    <input
+                        id="onboarding-file-input"
+                        type="file"
+                        accept={config.upload.acceptedFileTypes.join(',')}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          if (file) handleDocumentUpload(file)
+                          e.target.value = ""
+                        }}
+                        className="hidden"
+                    />
+
+                    {upload && (
+                        <div className="space-y-2 p-4 rounded-lg border border-white/20">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="truncate">{upload.filename}</span>
+                            <span className={upload.status === "error" ? "text-red-400" : "text-white/60"}>
+                              {upload.status === "uploading" && `${Math.round(upload.progress)}%`}
+                              {upload.status === "done" && "Uploaded, processing in the background"}
+                              {upload.status === "error" && (upload.error || "Upload failed")}
+                            </span>
+                          </div>
+                          {upload.status === "uploading" && <Progress value={upload.progress} className="h-2" />}
+                        </div>
+                    )}
+                  </CardContent>
+                </Card>
+            )}
+
+            {/* Step 5: Bot */}
+            {currentStep === 5 && (
+                <Card className="bg-black border-white/20 text-white shadow-2xl">
+                  <CardHeader className="pb-8">
+                    <CardTitle className="flex items-center gap-3 text-2xl font-light">
+                      <Bot className="h-6 w-6" />
+                      Meet Your Assistant
+                    </CardTitle>
+                    <CardDescription className="text-white/60 text-lg">
+                      How it introduces itself to customers
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-8">
+                    <div className="space-y-3">
+                      <Label htmlFor="bot-name" className="text-white font-medium text-base">Assistant Name *</Label>
+                      <Input
+                          id="bot-name"
+                          value={botName}
+                          onChange={(e) => setBotName(e.target.value)}
+                          placeholder="e.g. Acme Assistant"
+                          className="bg-black border-white/30 text-white placeholder-white/40 focus:border-white focus:ring-2 focus:ring-white/20 h-12 text-base"
+                      />
+                    </div>
+                    <div className="space-y-3">
+                      <Label htmlFor="greeting" className="text-white font-medium text-base">Greeting Message</Label>
+                      <Textarea
+                          id="greeting"
+                          value={greeting}
+                          onChange={(e) => setGreeting(e.target.value)}
+                          rows={3}
+                          className="bg-black border-white/30 text-white placeholder-white/40 focus:border-white focus:ring-2 focus:ring-white/20 resize-none text-base"
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+            )}
+
+            {/* Step 6: Test Chat */}
+            {currentStep === 6 && (
+                <Card className="bg-black border-white/20 text-white shadow-2xl">
+                  <CardHeader className="pb-8">
+                    <CardTitle className="flex items-center gap-3 text-2xl font-light">
+                      <MessagesSquare className="h-6 w-6" />
+                      Try It Out
+                    </CardTitle>
+                    <CardDescription className="text-white/60 text-lg">
+                      Ask something a customer would ask
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="space-y-3 min-h-[120px] p-4 rounded-lg border border-white/20">
+                      <div className="inline-block px-4 py-3 rounded-2xl text-sm bg-gray-900">
+                        {greeting || DEFAULT_BOT_CONFIG.greeting_message}
+                      </div>
+                      {isTesting && <Loader2 className="h-4 w-4 animate-spin text-white/60" />}
+                      {testReply && (
+                          <div className="inline-block px-4 py-3 rounded-2xl text-sm bg-gray-900">
+                            {testReply}
+                          </div>
+                      )}
+                    </div>
+                    <div className="flex gap-3">
+                      <Input
+                          value={testQuestion}
+                          onChange={(e) => setTestQuestion(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleTestChat()}
+                          placeholder="e.g. What are your opening hours?"
+                          className="bg-black border-white/30 text-white placeholder-white/40 focus:border-white focus:ring-2 focus:ring-white/20 h-12 text-base"
+                      />
+                      <Button
+                          type="button"
+                          onClick={handleTestChat}
+                          disabled={isTesting || !testQuestion.trim()}
+                          className="bg-white text-black hover:bg-white/90 h-12 px-5"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+            )}
+
+            {/* Navigation Buttons */}
+            <div className="flex justify-between mt-12">
+              <Button
+                  type="button"
+                  variant="outline"
+                  onClick={prevStep}
+                  disabled={currentStep === LAST_PROFILE_STEP + 1}
+                  className="border-white/30 text-white hover:bg-white/10 hover:border-white disabled:opacity-50 h-12 px-8 text-base"
+              >
+                Previous
+              </Button>
+
+              <div className="flex gap-3">
+                {currentStep < STEPS.length && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => setCurrentStep(currentStep + 1)}
+                        className="text-white/60 hover:bg-white/10 hover:text-white h-12 px-6 text-base"
+                    >
+                      Skip for now
+                    </Button>
+                )}
+                {currentStep === 4 && (
+                    <Button
+                        type="button"
+                        onClick={nextStep}
+                        disabled={upload?.status !== "done"}
+                        className="bg-white text-black hover:bg-white/90 disabled:opacity-50 h-12 px-8 text-base font-medium shadow-lg hover:shadow-xl transition-all duration-200"
+                    >
+                      Next
+                      <ArrowRight className="ml-2 h-5 w-5" />
+                    </Button>
+                )}
+                {currentStep === 5 && (
+                    <Button
+                        type="button"
+                        onClick={handleSaveBot}
+                        disabled={isSavingBot}
+                        className="bg-white text-black hover:bg-white/90 disabled:opacity-50 h-12 px-8 text-base font-medium shadow-lg hover:shadow-xl transition-all duration-200"
+                    >
+                      {isSavingBot ? 'Saving...' : 'Save & Continue'}
+                    </Button>
+                )}
+                {currentStep === 6 && (
+                    <Button
+                        type="button"
+                        onClick={finishSetup}
+                        disabled={isLoading}
+                        className="bg-white text-black hover:bg-white/90 disabled:opacity-50 h-12 px-8 text-base font-medium shadow-lg hover:shadow-xl transition-all duration-200"
+                    >
+                      {isLoading ? 'Finishing...' : 'Go to Dashboard'}
+                    </Button>
+                )}
+              </div>
+            </div>
+          </div>
+          )}
         </div>
       </div>
   )
@@ -10,8 +10,9 @@ import {
     SidebarMenuItem,
     SidebarMenuButton,
 } from "@/components/ui/sidebar"
-import { LayoutDashboard, FileText, Bot, Plug, ChevronRight, User, LogOut, Settings, MessagesSquare } from "lucide-react"
+import { LayoutDashboard, FileText, Bot, Plug, ChevronRight, User, LogOut, Settings, MessagesSquare, MessageSquare, Target, BarChart3, Users, Building2, Check, ChevronsUpDown, Plus } from "lucide-react"
 import { useAuth } from "@/contexts/auth-context"
+import { useBusiness } from "@/contexts/business-context"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import {
@@ -23,19 +24,23 @@ import {
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { usePathname } from "next/navigation"
+import Link from "next/link"
 
 export function AppSidebar() {
     const { user, logout } = useAuth()
+    const { businesses, currentBusiness, switchBusiness } = useBusiness()
     const pathname = usePathname()
     
     const menuItems = [
         { name: "Dashboard", icon: LayoutDashboard, url: "/dashboard" },
         { name: "Documents", icon: FileText, url: "/dashboard/documents" },
         { name: "Bot Customizer", icon: Bot, url: "/dashboard/bot" },
-        // { name: "Conversations", icon: MessageSquare, url: "/dashboard/conversations" },
-            // { name: "Leads", icon: Target, url: "/dashboard/leads" },
+        { name: "Conversations", icon: MessageSquare, url: "/dashboard/conversations" },
+        { name: "Leads", icon: Target, url: "/dashboard/leads" },
+        { name: "Analytics", icon: BarChart3, url: "/dashboard/analytics" },
         { name: "Chat", icon: MessagesSquare, url: "/dashboard/chat" },
         { name: "Integrations", icon: Plug, url: "/dashboard/integrations" },
+        { name: "Team", icon: Users, url: "/dashboard/team" },
     ]
 
     // Function to determine if a menu item is active
@@ -71,6 +76,44 @@ export function AppSidebar() {
                 <div className="text-xs text-muted-foreground mt-1 tracking-wide">
                     INTELLIGENT CHAT PLATFORM
                 </div>
+
+                {/* Workspace Switcher */}
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button
+                            variant="outline"
+                            className="w-full justify-between mt-6 h-auto py-2 px-3 border-sidebar-border bg-transparent hover:bg-sidebar-accent"
+                        >
+                            <div className="flex items-center gap-2 min-w-0">
+                                <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                <span className="text-sm font-medium truncate">
+                                    {currentBusiness?.name || 'Select business'}
+                                </span>
+                            </div>
+                            <ChevronsUpDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-56">
+                        <DropdownMenuLabel>Businesses</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        {businesses.map((business) => (
+                            <DropdownMenuItem key={business.id} onClick={() => switchBusiness(business.id)}>
+                                <div className="flex-1 min-w-0">
+                                    <div className="truncate">{business.name}</div>
+                                    <div className="text-xs text-muted-foreground capitalize">{business.user_role}</div>
+                                </div>
+                                {business.id === currentBusiness?.id && <Check className="h-4 w-4" />}
+                            </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem asChild>
+                            <Link href="/onboarding">
+                                <Plus className="mr-2 h-4 w-4" />
+                                <span>Add business</span>
+                            </Link>
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
             </SidebarHeader>
             
             <SidebarContent className="px-4 py-6">
@@ -85,7 +128,7 @@ export function AppSidebar() {
                                         isActive={isActive}
                                         className="group relative"
                                     >
-                                        <a
+                                        <Link
                                             href={item.url}
                                             className={`
                                                 flex items-center justify-between w-full px-4 py-3 rounded-xl
@@ -111,7 +154,7 @@ export function AppSidebar() {
                                                     ? 'opacity-100 translate-x-0' 
                                                     : 'opacity-0 -translate-x-2 group-hover:opacity-60 group-hover:translate-x-0'
                                             }`} />
-                                        </a>
+                                        </Link>
                                     </SidebarMenuButton>
                                 </SidebarMenuItem>
                             )
@@ -155,9 +198,11 @@ export function AppSidebar() {
                                 <User className="mr-2 h-4 w-4" />
                                 <span>Profile</span>
                             </DropdownMenuItem>
-                            <DropdownMenuItem>
-                                <Settings className="mr-2 h-4 w-4" />
-                                <span>Settings</span>
+                            <DropdownMenuItem asChild>
+                                <Link href="/dashboard/settings">
+                                    <Settings className="mr-2 h-4 w-4" />
+                                    <span>Business settings</span>
+                                </Link>
                             </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem onClick={handleLogout} className="text-destructive">
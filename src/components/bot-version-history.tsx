@@ -0,0 +1,243 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { History, RotateCcw, Loader2, GitCompare } from 'lucide-react'
+import { chatAPI, BotConfig, BotConfigVersion } from '@/lib/chat-api'
+import { diffBotConfigs, formatBotConfigValue, withBotConfigDefaults } from '@/lib/bot-config'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Can } from '@/components/can'
+
+interface BotVersionHistoryProps {
+  businessNamespace: string
+  // Bumped by the parent after each save so the list reloads
+  refreshKey?: number
+  hasUnsavedChanges?: boolean
+  onRollback: (config: BotConfig) => void
+}
+
+const formatAuthor = (version: BotConfigVersion) =>
+  version.created_by?.name || version.created_by?.email || 'Unknown'
+
+export function BotVersionHistory({ businessNamespace, refreshKey, hasUnsavedChanges, onRollback }: BotVersionHistoryProps) {
+  const [versions, setVersions] = useState<BotConfigVersion[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [compareFrom, setCompareFrom] = useState<string>('')
+  const [compareTo, setCompareTo] = useState<string>('')
+  const [rollbackTarget, setRollbackTarget] = useState<BotConfigVersion | null>(null)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await chatAPI.listBotConfigVersions(businessNamespace)
+      setVersions(response.versions)
+
+      // Default to comparing the active version with the one before it
+      setCompareTo(response.versions[0]?.version || '')
+      setCompareFrom(response.versions[1]?.version || response.versions[0]?.version || '')
+    } catch (err) {
+      console.error('Error loading bot config versions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load version history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [businessNamespace])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions, refreshKey])
+
+  const changes = useMemo(() => {
+    const from = versions.find(v => v.version === compareFrom)
+    const to = versions.find(v => v.version === compareTo)
+    if (!from || !to) return []
+    return diffBotConfigs(withBotConfigDefaults(from.config), withBotConfigDefaults(to.config))
+  }, [versions, compareFrom, compareTo])
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return
+
+    try {
+      setIsRollingBack(true)
+      const response = await chatAPI.rollbackBotConfig(businessNamespace, rollbackTarget.version)
+      onRollback(withBotConfigDefaults(response.config))
+      toast.success(`Restored version ${rollbackTarget.version}`)
+      setRollbackTarget(null)
+      await loadVersions()
+    } catch (err) {
+      console.error('Error rolling back bot config:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setIsRollingBack(false)
+    }
+  }
+
+  const renderVersionOptions = () =>
+    versions.map(version => (
+      <SelectItem key={version.version} value={version.version}>
+        v{version.version} · {new Date(version.created_at).toLocaleString()}
+      </SelectItem>
+    ))
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-card-foreground">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Every save creates a new version. Compare versions or restore an earlier one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 space-y-3">
+            <p className="text-sm text-red-400">{error}</p>
+            <Button variant="outline" size="sm" onClick={loadVersions}>
+              Try Again
+            </Button>
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No versions yet. Save your configuration to create the first one.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ScrollArea className="h-[360px] pr-3">
+              <div className="space-y-2">
+                {versions.map(version => (
+                  <div
+                    key={version.version}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">v{version.version}</span>
+                        {version.is_active && (
+                          <Badge variant="secondary" className="text-xs">Active</Badge>
+                        )}
+                        {version.restored_from && (
+                          <span className="text-xs text-muted-foreground">restored from v{version.restored_from}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {formatAuthor(version)} · {new Date(version.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {!version.is_active && (
+                      <Can permission="bot:update">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1 shrink-0"
+                          onClick={() => setRollbackTarget(version)}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Restore
+                        </Button>
+                      </Can>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">From</Label>
+                  <Select value={compareFrom} onValueChange={setCompareFrom}>
+                    <SelectTrigger className="w-full bg-background border-border" size="sm">
+                      <SelectValue placeholder="Version" />
+                    </SelectTrigger>
+                    <SelectContent>{renderVersionOptions()}</SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">To</Label>
+                  <Select value={compareTo} onValueChange={setCompareTo}>
+                    <SelectTrigger className="w-full bg-background border-border" size="sm">
+                      <SelectValue placeholder="Version" />
+                    </SelectTrigger>
+                    <SelectContent>{renderVersionOptions()}</SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {changes.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-8 text-center">
+                  <GitCompare className="h-8 w-8 text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">No differences between these versions</p>
+                </div>
+              ) : (
+                <ScrollArea className="h-[300px] pr-3">
+                  <div className="space-y-3">
+                    {changes.map(change => (
+                      <div key={change.field} className="rounded-lg border border-border p-3 space-y-2">
+                        <p className="text-sm font-medium">{change.label}</p>
+                        <p className="text-xs rounded bg-red-500/10 text-red-300 px-2 py-1 whitespace-pre-wrap break-words">
+                          − {formatBotConfigValue(change.before)}
+                        </p>
+                        <p className="text-xs rounded bg-green-500/10 text-green-300 px-2 py-1 whitespace-pre-wrap break-words">
+                          + {formatBotConfigValue(change.after)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {rollbackTarget?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The bot will immediately start using this configuration. Your current settings stay in
+              the history, so you can switch back at any time.
+              {hasUnsavedChanges && ' Unsaved changes in the customizer will be discarded.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRollingBack}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleRollback()
+              }}
+              disabled={isRollingBack}
+            >
+              {isRollingBack ? 'Restoring...' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
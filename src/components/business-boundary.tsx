@@ -0,0 +1,58 @@
+"use client"
+
+import { Fragment, ReactNode } from 'react'
+import Link from 'next/link'
+import { AlertCircle, Building2 } from 'lucide-react'
+import { useBusiness } from '@/contexts/business-context'
+import { Button } from '@/components/ui/button'
+
+interface BusinessBoundaryProps {
+  children: ReactNode
+}
+
+// Renders dashboard pages only once the active business is known.
+// Pages are keyed by business so switching starts them from a clean state.
+export function BusinessBoundary({ children }: BusinessBoundaryProps) {
+  const { currentBusiness, isLoading, error, refreshBusinesses } = useBusiness()
+
+  if (isLoading && !currentBusiness) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your business...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <AlertCircle className="h-8 w-8 text-red-400 mx-auto mb-4" />
+          <p className="text-red-400 mb-4">{error}</p>
+          <Button onClick={refreshBusinesses} variant="outline">
+            Try Again
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!currentBusiness) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Building2 className="h-8 w-8 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground mb-4">No business found. Please create a business first.</p>
+          <Button asChild className="bg-white text-black hover:bg-gray-100">
+            <Link href="/onboarding">Create Business</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return <Fragment key={currentBusiness.id}>{children}</Fragment>
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import type { BusinessHours, DayHours, HolidayHours, Weekday } from '@/lib/business-api'
+import { WEEKDAYS } from '@/lib/business-hours'
+
+interface BusinessHoursEditorProps {
+  value: BusinessHours
+  onChange: (hours: BusinessHours) => void
+}
+
+// Weekly schedule plus holiday / exception dates, edited in the business timezone
+export function BusinessHoursEditor({ value, onChange }: BusinessHoursEditorProps) {
+  const holidays = value.holidays || []
+
+  const updateDay = (day: Weekday, changes: Partial<DayHours>) => {
+    onChange({ ...value, [day]: { ...value[day], ...changes } })
+  }
+
+  const updateHoliday = (index: number, changes: Partial<HolidayHours>) => {
+    onChange({ ...value, holidays: holidays.map((holiday, i) => (i === index ? { ...holiday, ...changes } : holiday)) })
+  }
+
+  const addHoliday = () => {
+    onChange({ ...value, holidays: [...holidays, { date: '', name: '', isOpen: false, open: '10:00', close: '14:00' }] })
+  }
+
+  const removeHoliday = (index: number) => {
+    onChange({ ...value, holidays: holidays.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {WEEKDAYS.map((day) => (
+          <div key={day.key} className="flex items-center gap-6 p-3 rounded-lg border border-border">
+            <div className="flex items-center space-x-3 min-w-[140px]">
+              <Checkbox
+                id={`hours-${day.key}`}
+                checked={value[day.key].isOpen}
+                onCheckedChange={(checked) => updateDay(day.key, { isOpen: checked === true })}
+              />
+              <Label htmlFor={`hours-${day.key}`} className="font-medium">
+                {day.label}
+              </Label>
+            </div>
+
+            {value[day.key].isOpen ? (
+              <div className="flex items-center gap-3 flex-1">
+                <Input
+                  type="time"
+                  value={value[day.key].open}
+                  onChange={(e) => updateDay(day.key, { open: e.target.value })}
+                  className="bg-background border-border w-36"
+                />
+                <span className="text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={value[day.key].close}
+                  onChange={(e) => updateDay(day.key, { close: e.target.value })}
+                  className="bg-background border-border w-36"
+                />
+              </div>
+            ) : (
+              <Badge variant="secondary">Closed</Badge>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-card-foreground">Holidays &amp; exceptions</h4>
+            <p className="text-xs text-muted-foreground">Dates that replace the weekly schedule</p>
+          </div>
+          <Button type="button" variant="outline" size="sm" className="gap-1" onClick={addHoliday}>
+            <Plus className="h-3 w-3" />
+            Add date
+          </Button>
+        </div>
+
+        {holidays.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4 rounded-lg border border-dashed border-border">
+            No holidays added
+          </p>
+        ) : (
+          holidays.map((holiday, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-border">
+              <Input
+                type="date"
+                value={holiday.date}
+                onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                className="bg-background border-border w-40"
+              />
+              <Input
+                value={holiday.name || ''}
+                onChange={(e) => updateHoliday(index, { name: e.target.value })}
+                placeholder="e.g. New Year's Day"
+                className="bg-background border-border flex-1 min-w-[160px]"
+              />
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`holiday-open-${index}`}
+                  checked={holiday.isOpen}
+                  onCheckedChange={(checked) => updateHoliday(index, { isOpen: checked === true })}
+                />
+                <Label htmlFor={`holiday-open-${index}`} className="text-sm">Open</Label>
+              </div>
+              {holiday.isOpen && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={holiday.open || ''}
+                    onChange={(e) => updateHoliday(index, { open: e.target.value })}
+                    className="bg-background border-border w-32"
+                  />
+                  <span className="text-muted-foreground text-sm">to</span>
+                  <Input
+                    type="time"
+                    value={holiday.close || ''}
+                    onChange={(e) => updateHoliday(index, { close: e.target.value })}
+                    className="bg-background border-border w-32"
+                  />
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeHoliday(index)}
+                className="text-muted-foreground hover:text-red-400"
+                title="Remove date"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+"use client"
+
+import { usePermission } from "@/hooks/use-permission"
+import type { Permission } from "@/lib/permissions"
+
+interface CanProps {
+  permission: Permission
+  children: React.ReactNode
+  fallback?: React.ReactNode
+}
+
+// Renders children only when the active business membership grants the permission
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = usePermission(permission)
+  return <>{allowed ? children : fallback}</>
+}
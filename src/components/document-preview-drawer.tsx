@@ -0,0 +1,207 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, Download, FileText, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { documentAPI, DocumentInfo } from '@/lib/api'
+import { ApiError } from '@/lib/http-client'
+
+// Large files are cut off so the drawer stays responsive
+const MAX_TEXT_CHARS = 200_000
+const MAX_CSV_ROWS = 200
+
+export type PreviewableDocument = Pick<DocumentInfo, 'id' | 'original_filename' | 'file_type' | 'mime_type'>
+
+type PreviewKind = 'pdf' | 'txt' | 'csv'
+
+type PreviewContent =
+  | { kind: 'pdf'; url: string }
+  | { kind: 'txt'; text: string; truncated: boolean }
+  | { kind: 'csv'; rows: string[][]; truncated: boolean }
+
+export const getPreviewKind = (doc: PreviewableDocument): PreviewKind | null => {
+  const type = (doc.file_type || doc.original_filename.split('.').pop() || '').toLowerCase().replace(/^\./, '')
+  if (type === 'pdf' || doc.mime_type === 'application/pdf') return 'pdf'
+  if (type === 'csv' || doc.mime_type === 'text/csv') return 'csv'
+  if (type === 'txt' || doc.mime_type === 'text/plain') return 'txt'
+  return null
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+const parseCsv = (text: string, maxRows: number): { rows: string[][]; truncated: boolean } => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+      if (rows.length > maxRows) return { rows: rows.slice(0, maxRows), truncated: true }
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return { rows: rows.slice(0, maxRows), truncated: rows.length > maxRows }
+}
+
+interface DocumentPreviewDrawerProps {
+  document: PreviewableDocument | null
+  onOpenChange: (open: boolean) => void
+  onDownload: (doc: PreviewableDocument) => void
+}
+
+// Side drawer showing PDF, TXT and CSV documents without leaving the page
+export function DocumentPreviewDrawer({ document, onOpenChange, onDownload }: DocumentPreviewDrawerProps) {
+  const [content, setContent] = useState<PreviewContent | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const kind = document ? getPreviewKind(document) : null
+
+  useEffect(() => {
+    setContent(null)
+    setError(null)
+    if (!document || !kind) return
+
+    const controller = new AbortController()
+    const load = async () => {
+      try {
+        setIsLoading(true)
+        if (kind === 'pdf') {
+          const { download_url } = await documentAPI.getDownloadUrl(document.id, 3600, true, controller.signal)
+          if (controller.signal.aborted) return
+          setContent({ kind, url: download_url })
+          return
+        }
+
+        const text = await documentAPI.getDocumentText(document.id, controller.signal)
+        // The drawer may have moved on to another document while the text loaded
+        if (controller.signal.aborted) return
+        const truncated = text.length > MAX_TEXT_CHARS
+        const visible = truncated ? text.slice(0, MAX_TEXT_CHARS) : text
+        if (kind === 'csv') {
+          const parsed = parseCsv(visible, MAX_CSV_ROWS)
+          setContent({ kind, rows: parsed.rows, truncated: truncated || parsed.truncated })
+        } else {
+          setContent({ kind, text: visible, truncated })
+        }
+      } catch (err) {
+        if (controller.signal.aborted || (err instanceof ApiError && err.isAborted)) return
+        console.error('Error loading document preview:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load preview')
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => controller.abort()
+  }, [document, kind])
+
+  const [header, ...body] = content?.kind === 'csv' ? content.rows : []
+
+  return (
+    <Sheet open={!!document} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col gap-0">
+        <SheetHeader className="border-b border-border pr-10">
+          <SheetTitle className="truncate">{document?.original_filename}</SheetTitle>
+          <SheetDescription>
+            {kind ? `${kind.toUpperCase()} preview` : 'Preview is not available for this file type'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 min-h-0 overflow-auto p-4">
+          {isLoading ? (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="flex h-full flex-col items-center justify-center text-center">
+              <AlertCircle className="h-8 w-8 text-red-400 mb-4" />
+              <p className="text-red-400">{error}</p>
+            </div>
+          ) : !kind ? (
+            <div className="flex h-full flex-col items-center justify-center text-center text-muted-foreground">
+              <FileText className="h-8 w-8 mb-4" />
+              <p>Only PDF, TXT and CSV files can be previewed. Download the file to open it.</p>
+            </div>
+          ) : content?.kind === 'pdf' ? (
+            <iframe
+              src={content.url}
+              title={document?.original_filename}
+              className="h-full min-h-[70vh] w-full rounded-md border border-border bg-white"
+            />
+          ) : content?.kind === 'txt' ? (
+            <pre className="whitespace-pre-wrap break-words text-sm text-foreground font-mono">{content.text}</pre>
+          ) : content?.kind === 'csv' ? (
+            <Table>
+              {header && (
+                <TableHeader>
+                  <TableRow className="border-border">
+                    {header.map((cell, index) => (
+                      <TableHead key={index} className="text-muted-foreground">{cell}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+              )}
+              <TableBody>
+                {body.map((row, rowIndex) => (
+                  <TableRow key={rowIndex} className="border-border">
+                    {row.map((cell, index) => (
+                      <TableCell key={index} className="text-sm">{cell}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : null}
+
+          {content && content.kind !== 'pdf' && content.truncated && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              Preview truncated. Download the file to see all of it.
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-border p-4 flex justify-end">
+          <Button
+            variant="outline"
+            className="gap-2"
+            disabled={!document}
+            onClick={() => document && onDownload(document)}
+          >
+            <Download className="h-4 w-4" />
+            Download
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
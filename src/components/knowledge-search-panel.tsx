@@ -0,0 +1,192 @@
+"use client"
+
+import { Fragment, useState } from 'react'
+import Link from 'next/link'
+import { ArrowUpRight, Loader2, Search, Sparkles } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Slider } from '@/components/ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { documentAPI, SearchResult } from '@/lib/api'
+import { chatAPI } from '@/lib/chat-api'
+
+type SearchSource = 'documents' | 'chatbot'
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Wrap every occurrence of the query's words in <mark>
+const highlightMatches = (text: string, query: string) => {
+  const terms = Array.from(new Set(query.toLowerCase().split(/\s+/).filter(term => term.length > 1)))
+  if (terms.length === 0) return text
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="rounded-sm bg-yellow-400/30 px-0.5 text-foreground">{part}</mark>
+      : <Fragment key={index}>{part}</Fragment>
+  )
+}
+
+// Detail page of the source document, scrolled to the matching chunk
+const getSourceHref = (result: SearchResult) => {
+  const chunk = result.chunk_id ?? result.chunk_index
+  const href = `/dashboard/documents/${result.document_id}`
+  return chunk === undefined ? href : `${href}?chunk=${encodeURIComponent(String(chunk))}`
+}
+
+interface KnowledgeSearchPanelProps {
+  businessId: string
+  businessNamespace: string
+  // Tags that can scope chatbot retrieval
+  availableTags?: string[]
+}
+
+// Playground for querying the knowledge base the way the assistant does
+export function KnowledgeSearchPanel({ businessId, businessNamespace, availableTags = [] }: KnowledgeSearchPanelProps) {
+  const [query, setQuery] = useState('')
+  const [topK, setTopK] = useState(5)
+  const [source, setSource] = useState<SearchSource>('chatbot')
+  const [scopeTags, setScopeTags] = useState<string[]>([])
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [searchedQuery, setSearchedQuery] = useState('')
+  const [isSearching, setIsSearching] = useState(false)
+
+  const handleSearch = async () => {
+    const trimmed = query.trim()
+    if (!trimmed) return
+
+    try {
+      setIsSearching(true)
+      const response = source === 'documents'
+        ? await documentAPI.searchDocuments(trimmed, businessId, topK)
+        : await chatAPI.searchContext(businessNamespace, trimmed, topK, scopeTags)
+      setResults(response.results)
+      setSearchedQuery(trimmed)
+    } catch (err) {
+      console.error('Knowledge search failed:', err)
+      toast.error(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const toggleScopeTag = (tag: string) => {
+    setScopeTags(prev => (prev.includes(tag) ? prev.filter(item => item !== tag) : [...prev, tag]))
+  }
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-card-foreground">
+          <Sparkles className="h-5 w-5" />
+          Knowledge Search
+        </CardTitle>
+        <CardDescription>
+          Ask a question to see which passages your assistant would draw its answer from
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="e.g. Do you offer refunds?"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              className="pl-10 bg-background border-border"
+            />
+          </div>
+          <Select value={source} onValueChange={(value) => setSource(value as SearchSource)}>
+            <SelectTrigger className="w-full sm:w-[190px] bg-background border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="chatbot">Chatbot retrieval</SelectItem>
+              <SelectItem value="documents">Document search</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleSearch}
+            disabled={isSearching || !query.trim()}
+            className="gap-2 bg-white text-black hover:bg-gray-100"
+          >
+            {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Search
+          </Button>
+        </div>
+
+        <div className="space-y-3 max-w-sm">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Results (top_k)</Label>
+            <span className="text-sm text-muted-foreground">{topK}</span>
+          </div>
+          <Slider value={[topK]} min={1} max={20} step={1} onValueChange={([value]) => setTopK(value)} />
+        </div>
+
+        {source === 'chatbot' && availableTags.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Limit to tags</Label>
+            <div className="flex flex-wrap gap-2">
+              {availableTags.map(tag => (
+                <Badge key={tag} variant={scopeTags.includes(tag) ? 'default' : 'outline'} asChild>
+                  <button type="button" onClick={() => toggleScopeTag(tag)} aria-pressed={scopeTags.includes(tag)}>
+                    {tag}
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {scopeTags.length > 0
+                ? 'Only documents with at least one of the selected tags are searched.'
+                : 'All documents are searched.'}
+            </p>
+          </div>
+        )}
+
+        {results && (
+          results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing in the knowledge base matches &quot;{searchedQuery}&quot;
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {results.map((result, index) => (
+                <li
+                  key={`${result.document_id}-${result.chunk_id ?? result.chunk_index ?? index}`}
+                  className="rounded-lg border border-border p-4 space-y-2"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex min-w-0 items-center gap-2 text-sm">
+                      <span className="font-medium text-foreground">#{index + 1}</span>
+                      <span className="truncate text-muted-foreground">{result.filename}</span>
+                      {result.page !== undefined && (
+                        <Badge variant="outline" className="text-xs">Page {result.page}</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">Score {result.score.toFixed(3)}</Badge>
+                      <Button variant="ghost" size="sm" asChild className="h-7 gap-1 text-xs">
+                        <Link href={getSourceHref(result)}>
+                          Open source
+                          <ArrowUpRight className="h-3 w-3" />
+                        </Link>
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-wrap line-clamp-6">
+                    {highlightMatches(result.text, searchedQuery)}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,16 +1,51 @@
 "use client"
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/auth-context'
-import { Loader2 } from 'lucide-react'
+import { usePermission } from '@/hooks/use-permission'
+import { Button } from '@/components/ui/button'
+import type { Permission } from '@/lib/permissions'
+import { Loader2, ShieldAlert } from 'lucide-react'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
   fallback?: React.ReactNode
+  // Required business permission; only usable inside a BusinessProvider
+  permission?: Permission
 }
 
-export function ProtectedRoute({ children, fallback }: ProtectedRouteProps) {
+interface PermissionGateProps {
+  permission: Permission
+  children: React.ReactNode
+}
+
+// Kept separate so routes without a permission don't need a BusinessProvider
+function PermissionGate({ permission, children }: PermissionGateProps) {
+  const allowed = usePermission(permission)
+
+  if (!allowed) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center space-y-4">
+          <ShieldAlert className="h-8 w-8 mx-auto text-muted-foreground" />
+          <div>
+            <p className="font-medium text-foreground">You don&apos;t have access to this page</p>
+            <p className="text-sm text-muted-foreground">Ask an owner or admin of this business for access.</p>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
+
+export function ProtectedRoute({ children, fallback, permission }: ProtectedRouteProps) {
   const { isAuthenticated, isLoading, user } = useAuth()
   const router = useRouter()
   const [isRedirecting, setIsRedirecting] = useState(false)
@@ -49,17 +84,22 @@ export function ProtectedRoute({ children, fallback }: ProtectedRouteProps) {
     return null // This should trigger the redirect useEffect
   }
 
+  if (permission) {
+    return <PermissionGate permission={permission}>{children}</PermissionGate>
+  }
+
   console.log('ProtectedRoute: Rendering protected content for user:', user.email)
   return <>{children}</>
 }
 
 // Higher-order component for protecting pages
 export function withAuth<P extends object>(
-  Component: React.ComponentType<P>
+  Component: React.ComponentType<P>,
+  permission?: Permission
 ) {
   return function AuthenticatedComponent(props: P) {
     return (
-      <ProtectedRoute>
+      <ProtectedRoute permission={permission}>
         <Component {...props} />
       </ProtectedRoute>
     )
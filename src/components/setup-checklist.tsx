@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowRight, CheckCircle2, Circle, Rocket, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { useAuth } from '@/contexts/auth-context'
+import { useBusiness } from '@/contexts/business-context'
+import { useOnboarding } from '@/hooks/use-onboarding'
+import { clearOnboardingDraft, loadOnboardingDraft, ONBOARDING_STEPS, updateOnboardingProgress } from '@/lib/onboarding'
+
+// Dashboard card listing the setup steps the active business hasn't finished yet
+export function SetupChecklist() {
+  const { user } = useAuth()
+  const { currentBusiness, setCurrentBusiness } = useBusiness()
+  const { progress } = useOnboarding()
+  const [isDismissing, setIsDismissing] = useState(false)
+
+  if (!currentBusiness || progress.dismissed) return null
+
+  const isComplete = (step: typeof ONBOARDING_STEPS[number]['key']) =>
+    progress.completed_steps.includes(step) ||
+    // Documents uploaded outside the guided setup count too
+    (step === 'document' && (currentBusiness.storage_used_bytes > 0 || currentBusiness.monthly_document_uploads > 0))
+
+  const completedCount = ONBOARDING_STEPS.filter(step => isComplete(step.key)).length
+  if (completedCount === ONBOARDING_STEPS.length) return null
+
+  // Offer to resume the guided flow when it was left halfway for this business
+  const draft = user ? loadOnboardingDraft(user.id) : null
+  const canResume = draft?.business?.id === currentBusiness.id
+
+  const handleDismiss = async () => {
+    try {
+      setIsDismissing(true)
+      setCurrentBusiness(await updateOnboardingProgress(currentBusiness, { dismissed: true }))
+      if (user && canResume) clearOnboardingDraft(user.id)
+    } catch (err) {
+      console.error('Error dismissing setup checklist:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to hide the checklist')
+      setIsDismissing(false)
+    }
+  }
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-card-foreground">
+            <Rocket className="h-5 w-5" />
+            Finish setting up {currentBusiness.name}
+          </CardTitle>
+          <CardDescription>
+            {completedCount} of {ONBOARDING_STEPS.length} steps complete
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {canResume && (
+            <Button asChild size="sm" className="gap-2 bg-white text-black hover:bg-gray-100">
+              <Link href="/onboarding">
+                Continue setup
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleDismiss}
+            disabled={isDismissing}
+            title="Hide checklist"
+            className="text-muted-foreground"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={(completedCount / ONBOARDING_STEPS.length) * 100} className="h-2" />
+        <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
+          {ONBOARDING_STEPS.map(step => {
+            const done = isComplete(step.key)
+            const content = (
+              <div className="flex items-start gap-3">
+                {done ? (
+                  <CheckCircle2 className="h-5 w-5 text-green-400 shrink-0" />
+                ) : (
+                  <Circle className="h-5 w-5 text-muted-foreground shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${done ? 'text-muted-foreground line-through' : 'text-card-foreground'}`}>
+                    {step.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{step.description}</p>
+                </div>
+              </div>
+            )
+
+            return done ? (
+              <div key={step.key} className="p-3 rounded-lg border border-border">
+                {content}
+              </div>
+            ) : (
+              <Link
+                key={step.key}
+                href={step.href}
+                className="p-3 rounded-lg border border-border hover:bg-accent/50 transition-colors"
+              >
+                {content}
+              </Link>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
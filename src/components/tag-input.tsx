@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+
+// Tags are compared case-insensitively, so store them lowercased
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-')
+
+interface TagInputProps {
+  id?: string
+  value: string[]
+  onChange: (tags: string[]) => void
+  // Existing tags offered as one-click additions
+  suggestions?: string[]
+  placeholder?: string
+}
+
+// Free-form tag editor: Enter or comma adds, Backspace on an empty input removes the last tag
+export function TagInput({ id, value, onChange, suggestions = [], placeholder = 'Add a tag...' }: TagInputProps) {
+  const [input, setInput] = useState('')
+
+  const addTags = (raw: string) => {
+    const tags = raw.split(',').map(normalizeTag).filter(tag => tag && !value.includes(tag))
+    if (tags.length > 0) onChange([...value, ...Array.from(new Set(tags))])
+    setInput('')
+  }
+
+  const removeTag = (tag: string) => onChange(value.filter(item => item !== tag))
+
+  const remainingSuggestions = suggestions.filter(tag => !value.includes(tag))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-border bg-background px-2 py-1.5">
+        {value.map(tag => (
+          <Badge key={tag} variant="outline" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => {
+            if (e.target.value.includes(',')) {
+              addTags(e.target.value)
+            } else {
+              setInput(e.target.value)
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addTags(input)
+            } else if (e.key === 'Backspace' && !input && value.length > 0) {
+              removeTag(value[value.length - 1])
+            }
+          }}
+          onBlur={() => input && addTags(input)}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="h-7 min-w-[120px] flex-1 border-0 bg-transparent px-1 shadow-none focus-visible:ring-0"
+        />
+      </div>
+      {remainingSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {remainingSuggestions.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onChange([...value, tag])}
+              className="rounded-md border border-dashed border-border px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground hover:border-white/50"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { Check, ChevronsUpDown, Globe } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { cn } from '@/lib/utils'
+import { formatTimezoneOffset, getTimezones } from '@/lib/business-hours'
+
+interface TimezonePickerProps {
+  value: string
+  onChange: (timezone: string) => void
+  className?: string
+  contentClassName?: string
+}
+
+// Searchable IANA timezone picker showing each zone's current UTC offset
+export function TimezonePicker({ value, onChange, className, contentClassName }: TimezonePickerProps) {
+  const [open, setOpen] = useState(false)
+
+  const options = useMemo(() => {
+    const zones = getTimezones()
+    const now = new Date()
+    return (value && !zones.includes(value) ? [value, ...zones] : zones).map(zone => ({
+      value: zone,
+      label: zone.replace(/_/g, ' '),
+      offset: formatTimezoneOffset(zone, now),
+    }))
+  }, [value])
+
+  const selected = options.find(option => option.value === value)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn('w-full justify-between font-normal', className)}
+        >
+          <span className="flex items-center gap-2 truncate">
+            <Globe className="h-4 w-4 shrink-0 opacity-60" />
+            {selected ? `${selected.label} (${selected.offset})` : 'Select a timezone'}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className={cn('w-[var(--radix-popover-trigger-width)] min-w-[280px] p-0', contentClassName)} align="start">
+        <Command>
+          <CommandInput placeholder="Search timezones..." />
+          <CommandList>
+            <CommandEmpty>No timezone found.</CommandEmpty>
+            {options.map(option => (
+              <CommandItem
+                key={option.value}
+                value={`${option.label} ${option.offset}`}
+                onSelect={() => {
+                  onChange(option.value)
+                  setOpen(false)
+                }}
+              >
+                <Check className={cn('h-4 w-4', option.value === value ? 'opacity-100' : 'opacity-0')} />
+                <span className="flex-1 truncate">{option.label}</span>
+                <span className="text-xs text-muted-foreground">{option.offset}</span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useRef, useState } from 'react'
+import { FileUp, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { documentAPI, DocumentInfo, UploadResponse } from '@/lib/api'
+import config from '@/lib/config'
+import { computeFileChecksum, getFileValidationError } from '@/lib/documents'
+
+interface UploadVersionButtonProps {
+  document: Pick<DocumentInfo, 'id' | 'original_filename' | 'checksum'>
+  onUploaded?: (response: UploadResponse) => void
+  // Compact icon button for table rows
+  iconOnly?: boolean
+}
+
+// Replace a document's file in place; the old version stays in its history
+export function UploadVersionButton({ document, onUploaded, iconOnly = false }: UploadVersionButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleFile = async (file: File) => {
+    const validationError = getFileValidationError(file)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    setIsUploading(true)
+    const toastId = toast.loading(`Uploading new version of ${document.original_filename}...`)
+
+    let isUnchanged = false
+    if (document.checksum) {
+      try {
+        isUnchanged = (await computeFileChecksum(file)) === document.checksum
+      } catch (err) {
+        // The check is a convenience; don't block the upload when hashing fails
+        console.warn('Checksum comparison failed:', err)
+      }
+    }
+
+    if (isUnchanged) {
+      toast.info('Nothing to update', {
+        id: toastId,
+        description: `${file.name} is identical to the current version.`,
+      })
+      setIsUploading(false)
+      return
+    }
+
+    try {
+      const response = await documentAPI.uploadNewVersion(document.id, file, (progress) => {
+        toast.loading(`Uploading new version of ${document.original_filename}... ${Math.round(progress)}%`, { id: toastId })
+      })
+      toast.success(response.version ? `Version ${response.version} uploaded` : 'New version uploaded', {
+        id: toastId,
+        description: 'The old chunks are replaced as soon as processing finishes.',
+      })
+      onUploaded?.(response)
+    } catch (err) {
+      console.error('Error uploading new version:', err)
+      toast.error('Upload failed', {
+        id: toastId,
+        description: err instanceof Error ? err.message : 'Failed to upload new version',
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant={iconOnly ? 'ghost' : 'outline'}
+        size={iconOnly ? 'icon' : 'default'}
+        className={iconOnly ? 'h-8 w-8' : 'gap-2'}
+        title="Upload new version"
+        disabled={isUploading}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+        {!iconOnly && 'Upload New Version'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={config.upload.acceptedFileTypes.join(',')}
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file) handleFile(file)
+        }}
+        className="hidden"
+      />
+    </>
+  )
+}
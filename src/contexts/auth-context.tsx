@@ -1,6 +1,6 @@
 "use client"
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
 import { useRouter } from 'next/navigation'
 import { AuthAPI, UserProfile, LoginResponse } from '@/lib/auth-api'
 import { LoginForm, SignupForm } from '@/lib/auth-schemas'
@@ -8,13 +8,21 @@ import { toast } from 'sonner'
 import { APITest } from '@/lib/api-test'
 import { businessAPI } from '@/lib/business-api'
 
+// sessionStorage key holding an invitation token while the invitee signs in or signs up
+export const PENDING_INVITATION_KEY = 'pending_invitation_token'
+
+interface LogoutOptions {
+  // Logout triggered by a failed token refresh rather than the user
+  sessionExpired?: boolean
+}
+
 interface AuthContextType {
   user: UserProfile | null
   isLoading: boolean
   isAuthenticated: boolean
   login: (data: LoginForm) => Promise<void>
   signup: (data: SignupForm) => Promise<void>
-  logout: () => Promise<void>
+  logout: (options?: LogoutOptions) => Promise<void>
   refreshUser: () => Promise<void>
   checkBusinessRegistrationAndRedirect: () => Promise<void>
 }
@@ -91,7 +99,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
           const currentPath = window.location.pathname
           const shouldCheckBusinessRegistration = 
             currentPath === '/' || 
-            currentPath.startsWith('/auth') || 
+            (currentPath.startsWith('/auth') && currentPath !== '/auth/accept-invite') || 
             currentPath === '/dashboard'
           
           if (shouldCheckBusinessRegistration) {
@@ -177,6 +185,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }, [user])
 
   const checkBusinessRegistrationAndRedirect = async () => {
+    // Finish accepting an invitation that was opened before signing in
+    const pendingInvitation = sessionStorage.getItem(PENDING_INVITATION_KEY)
+    if (pendingInvitation) {
+      router.push(`/auth/accept-invite?token=${encodeURIComponent(pendingInvitation)}`)
+      return
+    }
+
     try {
       const hasBusiness = await businessAPI.hasRegisteredBusiness()
       
@@ -239,16 +254,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
-  const logout = async () => {
+  const logout = useCallback(async (options: LogoutOptions = {}) => {
     try {
       setIsLoading(true)
       await AuthAPI.logout()
       setUser(null)
       
-      toast.success('Logged out successfully')
+      if (options.sessionExpired) {
+        toast.error('Session expired', {
+          description: 'Please log in again to continue.',
+        })
+      } else {
+        toast.success('Logged out successfully')
+      }
       
       // Redirect to auth page
-      router.push('/auth')
+      router.push(options.sessionExpired ? '/auth/login' : '/auth')
     } catch (error) {
       console.error('Logout error:', error)
       toast.error('Logout failed', {
@@ -257,7 +278,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     } finally {
       setIsLoading(false)
     }
-  }
+  }, [router])
+
+  // Fall back to logout when an automatic token refresh fails
+  useEffect(() => {
+    return AuthAPI.onSessionExpired(() => {
+      console.log('Token refresh failed, ending session')
+      logout({ sessionExpired: true })
+    })
+  }, [logout])
 
   const refreshUser = async () => {
     try {
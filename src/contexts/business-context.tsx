@@ -0,0 +1,145 @@
+"use client"
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { toast } from 'sonner'
+import { useAuth } from '@/contexts/auth-context'
+import { businessAPI, Business, BusinessListItem } from '@/lib/business-api'
+
+// localStorage key remembering the business the user last worked on
+const ACTIVE_BUSINESS_KEY = 'active_business_id'
+
+interface BusinessContextType {
+  businesses: BusinessListItem[]
+  currentBusiness: Business | null
+  isLoading: boolean
+  error: string | null
+  switchBusiness: (businessId: string) => Promise<void>
+  refreshBusinesses: () => Promise<void>
+  // Replace the active business after it was edited elsewhere
+  setCurrentBusiness: (business: Business) => void
+}
+
+const BusinessContext = createContext<BusinessContextType | undefined>(undefined)
+
+const getStoredBusinessId = () => {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(ACTIVE_BUSINESS_KEY)
+}
+
+// Also used outside the provider, e.g. to open a newly created business after onboarding
+export const storeBusinessId = (businessId: string | null) => {
+  if (typeof window === 'undefined') return
+  if (businessId) {
+    localStorage.setItem(ACTIVE_BUSINESS_KEY, businessId)
+  } else {
+    localStorage.removeItem(ACTIVE_BUSINESS_KEY)
+  }
+}
+
+// Previously selected business if still available, otherwise the first one the user owns or administers
+const pickInitialBusiness = (businesses: BusinessListItem[]) => {
+  const storedId = getStoredBusinessId()
+  return (
+    businesses.find(business => business.id === storedId) ||
+    businesses.find(business => business.user_role === 'owner' || business.user_role === 'admin') ||
+    businesses[0]
+  )
+}
+
+interface BusinessProviderProps {
+  children: ReactNode
+}
+
+export function BusinessProvider({ children }: BusinessProviderProps) {
+  const { user } = useAuth()
+  const [businesses, setBusinesses] = useState<BusinessListItem[]>([])
+  const [currentBusiness, setCurrentBusinessState] = useState<Business | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectBusiness = useCallback(async (businessId: string) => {
+    const response = await businessAPI.getBusiness(businessId)
+    if (!response.business) {
+      throw new Error(response.message || 'Business not found')
+    }
+    setCurrentBusinessState(response.business)
+    storeBusinessId(response.business.id)
+    return response.business
+  }, [])
+
+  const refreshBusinesses = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await businessAPI.getUserBusinesses()
+      setBusinesses(response.businesses)
+
+      const initial = pickInitialBusiness(response.businesses)
+      if (!initial) {
+        setCurrentBusinessState(null)
+        storeBusinessId(null)
+        return
+      }
+
+      await selectBusiness(initial.id)
+    } catch (err) {
+      console.error('Error loading businesses:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load your businesses')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [selectBusiness])
+
+  // Reload whenever a different user signs in
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) {
+      setBusinesses([])
+      setCurrentBusinessState(null)
+      return
+    }
+    refreshBusinesses()
+  }, [userId, refreshBusinesses])
+
+  const switchBusiness = useCallback(async (businessId: string) => {
+    if (businessId === currentBusiness?.id) return
+
+    try {
+      const business = await selectBusiness(businessId)
+      toast.success(`Switched to ${business.name}`)
+    } catch (err) {
+      console.error('Error switching business:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to switch business')
+    }
+  }, [currentBusiness?.id, selectBusiness])
+
+  const setCurrentBusiness = useCallback((business: Business) => {
+    setCurrentBusinessState(business)
+    setBusinesses(prev => prev.map(item =>
+      item.id === business.id
+        ? { ...item, name: business.name, slug: business.slug, industry: business.industry, description: business.description }
+        : item
+    ))
+  }, [])
+
+  const value: BusinessContextType = {
+    businesses,
+    currentBusiness,
+    isLoading,
+    error,
+    switchBusiness,
+    refreshBusinesses,
+    setCurrentBusiness,
+  }
+
+  return <BusinessContext.Provider value={value}>{children}</BusinessContext.Provider>
+}
+
+export function useBusiness() {
+  const context = useContext(BusinessContext)
+  if (context === undefined) {
+    throw new Error('useBusiness must be used within a BusinessProvider')
+  }
+  return context
+}
@@ -0,0 +1,23 @@
+import { useEffect, useMemo, useState } from "react"
+import type { Business } from "@/lib/business-api"
+import { DEFAULT_TIMEZONE, isBusinessOpen, normalizeBusinessHours } from "@/lib/business-hours"
+
+const CHECK_INTERVAL_MS = 60 * 1000
+
+// Whether the business is within its hours right now, re-checked every minute.
+// Businesses without configured hours are always treated as open.
+export function useBusinessOpen(business: Pick<Business, "business_hours" | "timezone"> | null) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const hours = business?.business_hours
+  const timezone = business?.timezone
+  return useMemo(() => {
+    if (!hours) return true
+    return isBusinessOpen(normalizeBusinessHours(hours), timezone || DEFAULT_TIMEZONE, now)
+  }, [hours, timezone, now])
+}
@@ -0,0 +1,27 @@
+import { useCallback } from "react"
+import { useBusiness } from "@/contexts/business-context"
+import { usePermission } from "@/hooks/use-permission"
+import { completeOnboardingSteps, getOnboardingProgress, OnboardingStep } from "@/lib/onboarding"
+
+// Setup progress of the active business, with a helper for pages that finish a step
+export function useOnboarding() {
+  const { currentBusiness, setCurrentBusiness } = useBusiness()
+  const canUpdate = usePermission("business:update")
+
+  const completeStep = useCallback(async (step: OnboardingStep) => {
+    if (!currentBusiness || !canUpdate) return
+
+    try {
+      const updated = await completeOnboardingSteps(currentBusiness, [step])
+      if (updated) setCurrentBusiness(updated)
+    } catch (err) {
+      // Progress tracking is best effort and shouldn't interrupt the page
+      console.warn(`Failed to record setup step "${step}":`, err)
+    }
+  }, [currentBusiness, canUpdate, setCurrentBusiness])
+
+  return {
+    progress: getOnboardingProgress(currentBusiness),
+    completeStep,
+  }
+}
@@ -0,0 +1,8 @@
+import { useBusiness } from "@/contexts/business-context"
+import { hasPermission, Permission } from "@/lib/permissions"
+
+// Whether the current user may perform an action in the active business
+export function usePermission(permission: Permission) {
+  const { currentBusiness } = useBusiness()
+  return hasPermission(currentBusiness?.user_membership, permission)
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react"
+import { businessAPI } from "@/lib/business-api"
+import { ApiError } from "@/lib/http-client"
+import { slugSchema } from "@/lib/business-schemas"
+
+const CHECK_DELAY_MS = 400
+
+export type SlugStatus = "idle" | "invalid" | "checking" | "available" | "taken" | "unchanged" | "error"
+
+export interface SlugAvailability {
+  status: SlugStatus
+  suggestions: string[]
+  message?: string
+}
+
+interface SlugAvailabilityOptions {
+  // Slug the business already has; reported as "unchanged" without a request
+  currentSlug?: string
+  excludeBusinessId?: string
+}
+
+// Debounced server-side uniqueness check for a business slug
+export function useSlugAvailability(slug: string | undefined, { currentSlug, excludeBusinessId }: SlugAvailabilityOptions = {}) {
+  const [result, setResult] = useState<SlugAvailability>({ status: "idle", suggestions: [] })
+
+  useEffect(() => {
+    const value = (slug || "").trim()
+    if (!value) {
+      setResult({ status: "idle", suggestions: [] })
+      return
+    }
+    if (currentSlug && value === currentSlug) {
+      setResult({ status: "unchanged", suggestions: [] })
+      return
+    }
+
+    const parsed = slugSchema.safeParse(value)
+    if (!parsed.success) {
+      setResult({ status: "invalid", suggestions: [], message: parsed.error.issues[0]?.message })
+      return
+    }
+
+    setResult({ status: "checking", suggestions: [] })
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await businessAPI.checkSlugAvailability(value, excludeBusinessId, controller.signal)
+        setResult(response.available
+          ? { status: "available", suggestions: [] }
+          : { status: "taken", suggestions: response.suggestions || [], message: response.message })
+      } catch (err) {
+        if (err instanceof ApiError && err.isAborted) return
+        console.warn("Slug availability check failed:", err)
+        setResult({ status: "error", suggestions: [], message: "Couldn't check availability right now" })
+      }
+    }, CHECK_DELAY_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [slug, currentSlug, excludeBusinessId])
+
+  return result
+}
@@ -0,0 +1,93 @@
+import { apiClient, HttpClient } from './http-client';
+
+// Analytics-related types
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsQuery {
+  // Inclusive ISO dates (YYYY-MM-DD)
+  start_date: string;
+  end_date: string;
+  granularity?: AnalyticsGranularity;
+}
+
+export interface MessageVolumePoint {
+  date: string;
+  user_messages: number;
+  bot_messages: number;
+}
+
+export interface ChannelBreakdown {
+  channel: string;
+  conversations: number;
+}
+
+export interface ResolutionPoint {
+  date: string;
+  total: number;
+  resolved: number;
+  escalated: number;
+}
+
+export interface ConfidencePoint {
+  date: string;
+  // Average confidence_score of bot replies (0-1)
+  avg_confidence: number;
+}
+
+export interface ProcessingTimePoint {
+  date: string;
+  p50_ms: number;
+  p90_ms: number;
+  p99_ms: number;
+}
+
+export interface UnansweredQuestion {
+  question: string;
+  count: number;
+  last_asked_at: string;
+  // Most recent conversation the question came up in
+  conversation_id?: string;
+}
+
+export interface AnalyticsSummary {
+  total_messages: number;
+  total_conversations: number;
+  resolution_rate: number;
+  avg_confidence: number;
+  p50_processing_time_ms: number;
+}
+
+export interface AnalyticsReport {
+  summary: AnalyticsSummary;
+  message_volume: MessageVolumePoint[];
+  channels: ChannelBreakdown[];
+  resolution: ResolutionPoint[];
+  confidence: ConfidencePoint[];
+  processing_time: ProcessingTimePoint[];
+  unanswered_questions: UnansweredQuestion[];
+}
+
+export interface AnalyticsReportResponse {
+  success: boolean;
+  report: AnalyticsReport;
+}
+
+export class AnalyticsAPI {
+  private http: HttpClient;
+
+  constructor(http: HttpClient = apiClient) {
+    this.http = http;
+  }
+
+  /**
+   * Get the chat analytics report for a business over a date range
+   */
+  async getReport(businessNamespace: string, query: AnalyticsQuery): Promise<AnalyticsReportResponse> {
+    return this.http.get<AnalyticsReportResponse>(`/api/v1/chatbot/analytics/${businessNamespace}`, {
+      query: { granularity: 'day', ...query },
+    });
+  }
+}
+
+// Export singleton instance
+export const analyticsAPI = new AnalyticsAPI();
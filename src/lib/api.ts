@@ -1,7 +1,4 @@
-import config from './config';
-
-// API configuration and base URL
-const API_BASE_URL = config.api.baseUrl;
+import { apiClient, ApiError, HttpClient, type UploadProgressCallback } from './http-client';
 
 // API response types
 export interface UploadResponse {
@@ -17,6 +14,8 @@ export interface UploadResponse {
   detected_type: string;
   file_size: number;
   checksum: string;
+  // Set when the upload replaced an existing document
+  version?: number;
   queue_position: number;
   status: string;
   r2_storage?: {
@@ -46,22 +45,112 @@ export interface DocumentInfo {
   meta: Record<string, unknown>;
   tags: string[];
   version: number;
+  // SHA-256 of the current version's file
+  checksum?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type DocumentSortField = 'created_at' | 'updated_at' | 'original_filename' | 'size_bytes';
+
+export interface DocumentListFilters {
+  search?: string;
+  status?: string;
+  file_type?: string;
+  tag?: string;
+  category?: string;
+  checksum?: string;
+  created_after?: string;
+  created_before?: string;
+  sort_by?: DocumentSortField;
+  sort_order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
 export interface DocumentListResponse {
   success: boolean;
   message: string;
   documents: DocumentInfo[];
+  // Number of documents matching the filters, not just this page
   total: number;
   business_id: string;
   business_name: string;
+  // Business-wide aggregates, independent of the filters
+  status_counts?: Record<string, number>;
+  total_size_bytes?: number;
+  tags?: string[];
+  categories?: string[];
+}
+
+export interface DocumentUpdate {
+  tags?: string[];
+  // Stored as meta.category; null clears it
+  category?: string | null;
+}
+
+export interface DocumentBulkResponse {
+  success: boolean;
+  message: string;
+  processed: number;
+  failed: { document_id: string; error: string }[];
+}
+
+export interface DocumentDetailResponse {
+  success: boolean;
+  message?: string;
+  document: DocumentInfo;
+}
+
+// A piece of extracted text as it is embedded and retrieved
+export interface DocumentChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  text: string;
+  page?: number;
+  start_char?: number;
+  end_char?: number;
+  token_count?: number;
+  // Disabled chunks stay stored but are left out of retrieval
+  enabled: boolean;
+  edited?: boolean;
+  metadata: Record<string, unknown>;
+  updated_at?: string;
+}
+
+export interface DocumentChunkListResponse {
+  success: boolean;
+  chunks: DocumentChunk[];
+  total: number;
+}
+
+export interface DocumentChunkUpdate {
+  text?: string;
+  enabled?: boolean;
+}
+
+export interface DocumentChunkResponse {
+  success: boolean;
+  message: string;
+  chunk: DocumentChunk;
+}
+
+// A retrieved chunk, ranked by similarity to the query
+export interface SearchResult {
+  chunk_id?: string;
+  chunk_index?: number;
+  document_id: string;
+  filename: string;
+  text: string;
+  score: number;
+  page?: number;
+  metadata?: Record<string, unknown>;
 }
 
 export interface DocumentSearchResponse {
   query: string;
-  results: unknown[];
+  results: SearchResult[];
   total_results: number;
   business_id: string;
   business_name: string;
@@ -76,33 +165,67 @@ export interface TaskStatusResponse {
   completed_at?: string;
 }
 
-export interface QueueInfoResponse {
-  queue_size: number;
+export interface DocumentVersion {
+  version: number;
+  checksum: string;
+  original_filename: string;
+  size_bytes: number;
+  num_chunks?: number;
+  uploaded_by?: string;
+  created_at: string;
+  is_current: boolean;
+}
+
+export interface DocumentVersionListResponse {
+  success: boolean;
+  document_id: string;
+  current_version: number;
+  versions: DocumentVersion[];
+}
+
+export interface DocumentRestoreResponse {
+  success: boolean;
   message: string;
+  document: DocumentInfo;
+  task_id?: string;
 }
-// Helper function to get auth token
-const getAuthToken = (): string | null => {
-  return localStorage.getItem('auth_token');
-};
 
-// Helper function to get auth headers
-const getAuthHeaders = (): HeadersInit => {
-  const token = getAuthToken();
-  return {
-    'Authorization': token ? `Bearer ${token}` : '',
-  };
-};
+export interface DocumentDeleteResponse {
+  success: boolean;
+  message: string;
+  document_id: string;
+  vectors_deleted?: number;
+}
+
+export interface DocumentDownloadResponse {
+  document_id: string;
+  filename: string;
+  download_url: string;
+  expires_in: number;
+  file_size: number;
+  content_type: string;
+}
+
+export interface DocumentShareResponse {
+  success: boolean;
+  document_id: string;
+  share_url: string;
+  expires_in: number;
+  expires_at: string;
+}
 
+export interface QueueInfoResponse {
+  queue_size: number;
+  message: string;
+}
 // Upload progress callback type
-export type UploadProgressCallback = (progress: number) => void;
+export type { UploadProgressCallback };
 
 class DocumentAPI {
-  private baseUrl: string;
-  private timeout: number;
+  private http: HttpClient;
 
-  constructor(baseUrl: string = API_BASE_URL) {
-    this.baseUrl = baseUrl;
-    this.timeout = config.api.timeout;
+  constructor(http: HttpClient = apiClient) {
+    this.http = http;
   }
 
   /**
@@ -116,61 +239,48 @@ class DocumentAPI {
     const formData = new FormData();
     formData.append('file', file);
 
-    // Add business_id as query parameter
-    const url = new URL(`${this.baseUrl}/documents/upload`);
-    url.searchParams.append('business_id', businessId);
-
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-
-      // Track upload progress
-      if (onProgress) {
-        xhr.upload.addEventListener('progress', (event) => {
-          if (event.lengthComputable) {
-            const progress = (event.loaded / event.total) * 100;
-            onProgress(progress);
-          }
-        });
-      }
-
-      xhr.addEventListener('load', () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = JSON.parse(xhr.responseText);
-            resolve(response);
-          } catch {
-            // parameter intentionally omitted to avoid unused-var lint
-            reject(new Error('Invalid JSON response'));
-          }
-        } else {
-          try {
-            const errorResponse = JSON.parse(xhr.responseText);
-            reject(new Error(errorResponse.detail || `HTTP ${xhr.status}`));
-          } catch {
-            reject(new Error(`HTTP ${xhr.status}: ${xhr.statusText}`));
-          }
-        }
-      });
+    return this.http.post<UploadResponse>('/documents/upload', formData, {
+      query: { business_id: businessId },
+      onUploadProgress: onProgress,
+    });
+  }
 
-      xhr.addEventListener('error', () => {
-        reject(new Error('Network error occurred'));
-      });
+  /**
+   * Upload a new version of an existing document; its chunks are swapped once the new file is processed
+   */
+  async uploadNewVersion(
+      documentId: string,
+      file: File,
+      onProgress?: UploadProgressCallback
+  ): Promise<UploadResponse> {
+    const formData = new FormData();
+    formData.append('file', file);
 
-      xhr.addEventListener('timeout', () => {
-        reject(new Error('Upload timeout'));
-      });
+    return this.http.post<UploadResponse>(`/documents/${documentId}/versions`, formData, {
+      onUploadProgress: onProgress,
+    });
+  }
 
-      xhr.open('POST', url.toString());
-      xhr.timeout = this.timeout;
+  /**
+   * List every stored version of a document, newest first
+   */
+  async listVersions(documentId: string): Promise<DocumentVersionListResponse> {
+    return this.http.get<DocumentVersionListResponse>(`/documents/${documentId}/versions`);
+  }
 
-      // Add authentication header AFTER opening the request
-      const token = getAuthToken();
-      if (token) {
-        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
-      }
+  /**
+   * Make an earlier version current again; it is re-indexed in place of the current one
+   */
+  async restoreVersion(documentId: string, version: number): Promise<DocumentRestoreResponse> {
+    return this.http.post<DocumentRestoreResponse>(`/documents/${documentId}/versions/${version}/restore`);
+  }
 
-      xhr.send(formData);
-    });
+  /**
+   * Find an existing document in the business with exactly this file content
+   */
+  async findDuplicate(businessId: string, checksum: string): Promise<DocumentInfo | null> {
+    const response = await this.listDocuments(businessId, { checksum, limit: 1 });
+    return response.documents[0] ?? null;
   }
 
   /**
@@ -178,25 +288,12 @@ class DocumentAPI {
    */
   async getTaskStatus(taskId: string, retryCount: number = 0): Promise<TaskStatusResponse> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout for status checks
-
-      const response = await fetch(`${this.baseUrl}/documents/status/${taskId}`, {
-        signal: controller.signal,
-        headers: getAuthHeaders()
+      return await this.http.get<TaskStatusResponse>(`/documents/status/${taskId}`, {
+        timeout: 10000, // 10 second timeout for status checks
       });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP ${response.status}`);
-      }
-
-      return response.json();
     } catch (error) {
       // Retry logic for network errors
-      if (retryCount < 3 && (error instanceof Error && (error.name === 'AbortError' || error.message.includes('fetch')))) {
+      if (retryCount < 3 && error instanceof ApiError && error.isNetworkError) {
         console.log(`Retrying task status check (attempt ${retryCount + 1})`);
         await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1))); // Exponential backoff
         return this.getTaskStatus(taskId, retryCount + 1);
@@ -206,28 +303,83 @@ class DocumentAPI {
   }
 
   /**
-   * List documents for a specific business
+   * List a page of documents for a specific business, filtered and sorted server-side
    */
   async listDocuments(
       businessId: string,
-      limit: number = 50,
-      offset: number = 0
+      filters: DocumentListFilters = {},
+      signal?: AbortSignal
   ): Promise<DocumentListResponse> {
-    const url = new URL(`${this.baseUrl}/documents`);
-    url.searchParams.append('business_id', businessId);
-    url.searchParams.append('limit', limit.toString());
-    url.searchParams.append('offset', offset.toString());
+    return this.http.get<DocumentListResponse>('/documents', {
+      query: { business_id: businessId, limit: 50, offset: 0, ...filters },
+      signal,
+    });
+  }
+
+  /**
+   * Get a single document
+   */
+  async getDocument(documentId: string): Promise<DocumentDetailResponse> {
+    return this.http.get<DocumentDetailResponse>(`/documents/${documentId}`);
+  }
 
-    const response = await fetch(url.toString(), {
-      headers: getAuthHeaders()
+  /**
+   * Update a document's tags or category
+   */
+  async updateDocument(documentId: string, update: DocumentUpdate): Promise<DocumentDetailResponse> {
+    return this.http.patch<DocumentDetailResponse>(`/documents/${documentId}`, update);
+  }
+
+  /**
+   * Delete several documents and their vectors at once
+   */
+  async bulkDeleteDocuments(businessId: string, documentIds: string[]): Promise<DocumentBulkResponse> {
+    return this.http.post<DocumentBulkResponse>('/documents/bulk/delete', {
+      business_id: businessId,
+      document_ids: documentIds,
     });
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || `HTTP ${response.status}`);
-    }
+  /**
+   * Add and remove tags on several documents at once
+   */
+  async bulkUpdateTags(
+      businessId: string,
+      documentIds: string[],
+      changes: { add?: string[]; remove?: string[] }
+  ): Promise<DocumentBulkResponse> {
+    return this.http.post<DocumentBulkResponse>('/documents/bulk/tags', {
+      business_id: businessId,
+      document_ids: documentIds,
+      add_tags: changes.add ?? [],
+      remove_tags: changes.remove ?? [],
+    });
+  }
+
+  /**
+   * Queue several documents for re-extraction and re-indexing
+   */
+  async bulkReprocessDocuments(businessId: string, documentIds: string[]): Promise<DocumentBulkResponse> {
+    return this.http.post<DocumentBulkResponse>('/documents/bulk/reprocess', {
+      business_id: businessId,
+      document_ids: documentIds,
+    });
+  }
 
-    return response.json();
+  /**
+   * List the extracted chunks of a document in reading order
+   */
+  async listChunks(documentId: string, limit: number = 50, offset: number = 0): Promise<DocumentChunkListResponse> {
+    return this.http.get<DocumentChunkListResponse>(`/documents/${documentId}/chunks`, {
+      query: { limit, offset },
+    });
+  }
+
+  /**
+   * Edit a chunk's text (re-embedded server-side) or toggle it in and out of retrieval
+   */
+  async updateChunk(documentId: string, chunkId: string, update: DocumentChunkUpdate): Promise<DocumentChunkResponse> {
+    return this.http.patch<DocumentChunkResponse>(`/documents/${documentId}/chunks/${chunkId}`, update);
   }
 
   /**
@@ -238,77 +390,63 @@ class DocumentAPI {
       businessId: string,
       topK: number = 5
   ): Promise<DocumentSearchResponse> {
-    const url = new URL(`${this.baseUrl}/documents/search`);
-    url.searchParams.append('query', query);
-    url.searchParams.append('business_id', businessId);
-    url.searchParams.append('top_k', topK.toString());
-
-    const response = await fetch(url.toString(), {
-      headers: getAuthHeaders()
+    return this.http.get<DocumentSearchResponse>('/documents/search', {
+      query: { query, business_id: businessId, top_k: topK },
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || `HTTP ${response.status}`);
-    }
-
-    return response.json();
   }
 
   /**
    * Get queue information
    */
   async getQueueInfo(): Promise<QueueInfoResponse> {
-    const response = await fetch(`${this.baseUrl}/documents/queue/info`);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || `HTTP ${response.status}`);
-    }
-
-    return response.json();
+    return this.http.get<QueueInfoResponse>('/documents/queue/info');
   }
 
   /**
    * Cancel a queued task
    */
   async cancelTask(taskId: string): Promise<{ task_id: string; message: string }> {
-    const response = await fetch(`${this.baseUrl}/documents/task/${taskId}`, {
-      method: 'DELETE',
+    return this.http.delete<{ task_id: string; message: string }>(`/documents/task/${taskId}`);
+  }
+
+  /**
+   * Get a presigned download URL for a document; `inline` lets browsers display it instead of saving
+   */
+  async getDownloadUrl(
+    documentId: string,
+    expiration: number = 3600,
+    inline: boolean = false,
+    signal?: AbortSignal
+  ): Promise<DocumentDownloadResponse> {
+    return this.http.get<DocumentDownloadResponse>(`/documents/${documentId}/download`, {
+      query: { expiration, disposition: inline ? 'inline' : undefined },
+      signal,
     });
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || `HTTP ${response.status}`);
-    }
+  /**
+   * Fetch the raw text of a document (TXT, CSV) through its presigned URL
+   */
+  async getDocumentText(documentId: string, signal?: AbortSignal): Promise<string> {
+    const { download_url } = await this.getDownloadUrl(documentId, 300, true, signal);
+    const response = await this.http.send(download_url, { auth: false, signal });
+    return response.text();
+  }
 
-    return response.json();
+  /**
+   * Create a public link to a document that stops working after `expiresIn` seconds
+   */
+  async createShareLink(documentId: string, expiresIn: number): Promise<DocumentShareResponse> {
+    return this.http.post<DocumentShareResponse>(`/documents/${documentId}/share`, { expires_in: expiresIn });
   }
 
   /**
-   * Get download URL for a document
+   * Delete a document, its stored file and its vectors in the business namespace
    */
-  async getDownloadUrl(documentId: string, expiration: number = 3600): Promise<{
-    document_id: string;
-    filename: string;
-    download_url: string;
-    expires_in: number;
-    file_size: number;
-    content_type: string;
-  }> {
-    const url = new URL(`${this.baseUrl}/documents/${documentId}/download`);
-    url.searchParams.append('expiration', expiration.toString());
-
-    const response = await fetch(url.toString(), {
-      headers: getAuthHeaders()
+  async deleteDocument(documentId: string): Promise<DocumentDeleteResponse> {
+    return this.http.delete<DocumentDeleteResponse>(`/documents/${documentId}`, {
+      query: { delete_vectors: true },
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.detail || `HTTP ${response.status}`);
-    }
-
-    return response.json();
   }
 
   /**
@@ -316,15 +454,8 @@ class DocumentAPI {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch(`${this.baseUrl}/health`, {
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-      return response.ok;
+      await this.http.send('/health', { auth: false, timeout: 5000 });
+      return true;
     } catch (error) {
       console.warn('API health check failed:', error);
       return false;
@@ -1,5 +1,6 @@
 import { LoginForm, SignupForm, ForgotPasswordForm } from "./auth-schemas"
 import { config } from "./config"
+import { apiClient, ApiError, type ErrorInterceptor } from "./http-client"
 
 // Base API configuration
 const API_BASE_URL = config.API_URL
@@ -35,53 +36,18 @@ export interface VerificationCodeResponse {
   message: string
 }
 
-// Authentication API functions
-export class AuthAPI {
-  private static getAuthHeaders(token?: string): Record<string, string> {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    }
+// Shared state for token refresh deduplication
+let refreshPromise: Promise<string> | null = null
+const sessionExpiredListeners = new Set<() => void>()
 
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`
-    } else {
-      const storedToken = this.getToken()
-      if (storedToken) {
-        headers["Authorization"] = `Bearer ${storedToken}`
-      }
-    }
-
-    return headers
-  }
-
-  private static async handleResponse(response: Response): Promise<unknown> {
-    const contentType = response.headers.get('content-type')
-
-    // Check if response is HTML (error page) instead of JSON
-    if (contentType && contentType.includes('text/html')) {
-      console.error('Received HTML response instead of JSON. API endpoint may not exist or server error occurred.')
-      console.error('Response URL:', response.url)
-      console.error('Response Status:', response.status, response.statusText)
-
-      if (response.status === 404) {
-        throw new Error('API endpoint not found. Please check if the backend server is running and the URL is correct.')
-      } else if (response.status >= 500) {
-        throw new Error('Server error occurred. Please try again later.')
-      } else {
-        throw new Error('Unexpected server response. Please check your network connection and try again.')
-      }
-    }
-
-    // Try to parse JSON response
-    try {
-      return await response.json()
-    } catch (err) {
-      console.error('Failed to parse JSON response:', err)
-      console.error('Response text:', await response.text())
-      throw new Error('Invalid response format from server')
-    }
-  }
+// Map fastapi-users error codes to user-facing messages
+const loginErrorMessages: Record<string, string> = {
+  LOGIN_BAD_CREDENTIALS: "Invalid email or password",
+  LOGIN_USER_NOT_VERIFIED: "Please verify your email before logging in",
+}
 
+// Authentication API functions
+export class AuthAPI {
   static async login(data: LoginForm): Promise<LoginResponse> {
     try {
       console.log('Attempting login to:', `${API_BASE_URL}/auth/login`)
@@ -91,42 +57,8 @@ export class AuthAPI {
         email: data.email,
         password: data.password
       }
-      console.log('Login data:', loginData)
-
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(loginData),
-      })
-      console.log('Login response status:', response.status, response.statusText)
-      console.log('Login response headers:', Object.fromEntries(response.headers.entries()))
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('Login error response:', errorText)
-
-        let errorMessage = 'Login failed'
-        try {
-          const errorData = JSON.parse(errorText) as { detail?: string }
-          if (errorData.detail === 'LOGIN_BAD_CREDENTIALS') {
-            errorMessage = 'Invalid email or password'
-          } else if (errorData.detail === 'LOGIN_USER_NOT_VERIFIED') {
-            errorMessage = 'Please verify your email before logging in'
-          } else {
-            errorMessage = errorData.detail || errorMessage
-          }
-        } catch {
-          // If not JSON, use the raw text
-          errorMessage = errorText || errorMessage
-        }
-
-        throw new Error(errorMessage)
-      }
 
-      const raw = await this.handleResponse(response)
-      const result = raw as LoginResponse
+      const result = await apiClient.post<LoginResponse>("/auth/login", loginData, { auth: false })
 
       // Store token and user info
       if (result.access_token) {
@@ -139,6 +71,14 @@ export class AuthAPI {
     } catch (err) {
       console.error("Login error:", err)
       console.error("API_BASE_URL:", API_BASE_URL)
+      if (err instanceof ApiError && err.code && loginErrorMessages[err.code]) {
+        throw new ApiError(loginErrorMessages[err.code], {
+          status: err.status,
+          code: err.code,
+          detail: err.detail,
+          requestId: err.requestId,
+        })
+      }
       throw err
     }
   }
@@ -156,24 +96,7 @@ export class AuthAPI {
         is_verified: false
       }
 
-      const response = await fetch(`${API_BASE_URL}/auth/register/register`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(signupData),
-      })
-
-      console.log('Signup response status:', response.status, response.statusText)
-
-      if (!response.ok) {
-        const errorData = await this.handleResponse(response)
-        const errObj = (errorData as { detail?: string }) || {}
-        throw new Error(errObj.detail || "Registration failed")
-      }
-
-      const raw = await this.handleResponse(response)
-      const result = raw as UserProfile
+      const result = await apiClient.post<UserProfile>("/auth/register/register", signupData, { auth: false })
       console.log('Signup successful')
       return result
     } catch (err) {
@@ -185,19 +108,7 @@ export class AuthAPI {
 
   static async forgotPassword(data: ForgotPasswordForm): Promise<AuthResponse> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/forgot-password`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(data),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error((errorData as { detail?: string }).detail || "Failed to send reset email")
-      }
-
+      await apiClient.post("/auth/forgot-password", data, { auth: false })
       return { success: true, message: "Password reset email sent successfully" }
     } catch (err) {
       console.error("Forgot password error:", err)
@@ -207,21 +118,7 @@ export class AuthAPI {
 
   static async sendVerificationCode(email: string): Promise<VerificationCodeResponse> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/send-verification-code`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error((errorData as { detail?: string }).detail || "Failed to send verification code")
-      }
-
-      const result = await response.json()
-      return result as VerificationCodeResponse
+      return await apiClient.post<VerificationCodeResponse>("/auth/send-verification-code", { email }, { auth: false })
     } catch (err) {
       console.error("Send verification code error:", err)
       throw err
@@ -230,21 +127,7 @@ export class AuthAPI {
 
   static async verifyCode(email: string, code: string): Promise<VerificationCodeResponse> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/verify-code`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email, code }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error((errorData as { detail?: string }).detail || "Code verification failed")
-      }
-
-      const result = await response.json()
-      return result as VerificationCodeResponse
+      return await apiClient.post<VerificationCodeResponse>("/auth/verify-code", { email, code }, { auth: false })
     } catch (err) {
       console.error("Verify code error:", err)
       throw err
@@ -253,19 +136,7 @@ export class AuthAPI {
 
   static async resetPassword(token: string, password: string): Promise<AuthResponse> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/forgot-password/reset`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ token, password }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error((errorData as { detail?: string }).detail || "Password reset failed")
-      }
-
+      await apiClient.post("/auth/forgot-password/reset", { token, password }, { auth: false })
       return { success: true, message: "Password reset successfully" }
     } catch (err) {
       console.error("Reset password error:", err)
@@ -275,19 +146,9 @@ export class AuthAPI {
 
   static async getCurrentUser(): Promise<UserProfile> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/me`, {
-        method: "GET",
-        headers: this.getAuthHeaders(),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error((errorData as { detail?: string }).detail || "Failed to get user profile")
-      }
-
-      const result = await response.json()
+      const result = await apiClient.get<UserProfile>("/auth/me")
       localStorage.setItem("user_profile", JSON.stringify(result))
-      return result as UserProfile
+      return result
     } catch (err) {
       console.error("Get current user error:", err)
       throw err
@@ -302,25 +163,16 @@ export class AuthAPI {
         return false
       }
 
-      const response = await fetch(`${API_BASE_URL}/auth/validate-token`, {
-        method: "GET",
-        headers: this.getAuthHeaders(),
-      })
-
-      if (response.ok) {
-        console.log('Token validation successful')
-        return true
-      } else {
-        console.log('Token validation failed with status:', response.status)
-        return false
-      }
+      await apiClient.send("/auth/validate-token")
+      console.log('Token validation successful')
+      return true
     } catch (err) {
-      console.error("Token validation error:", err)
       // Return false only for actual auth errors, not network errors
-      if (err instanceof TypeError && (err as Error).message.includes('fetch')) {
+      if (err instanceof ApiError && err.isNetworkError) {
         console.warn('Network error during token validation, assuming token is still valid')
         return true // Assume token is valid if we can't reach the server
       }
+      console.log('Token validation failed:', err)
       return false
     }
   }
@@ -330,10 +182,7 @@ export class AuthAPI {
       const token = this.getToken()
 
       if (token) {
-        await fetch(`${API_BASE_URL}/auth/logout`, {
-          method: "POST",
-          headers: this.getAuthHeaders(),
-        })
+        await apiClient.send("/auth/logout", { method: "POST" })
       }
     } catch (err) {
       console.error("Logout error:", err)
@@ -382,18 +231,9 @@ export class AuthAPI {
 
   static async refreshToken(): Promise<string> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/refresh-token`, {
-        method: "POST",
-        headers: this.getAuthHeaders(),
-      })
-
-      if (!response.ok) {
-        throw new Error("Token refresh failed")
-      }
+      const result = await apiClient.post<{ access_token?: string }>("/auth/refresh-token", undefined, { skipRefresh: true })
 
-      const result = await response.json()
-
-      if (result.access_token) {
+      if (result?.access_token) {
         localStorage.setItem("auth_token", result.access_token)
         return result.access_token
       }
@@ -401,9 +241,66 @@ export class AuthAPI {
       throw new Error("No token received")
     } catch (err) {
       console.error("Token refresh error:", err)
-      // If refresh fails, logout user
-      this.logout()
       throw err
     }
   }
+
+  /**
+   * Refresh the access token, sharing a single in-flight refresh between concurrent callers.
+   * Session-expired listeners are notified once if the refresh fails.
+   */
+  static refreshAccessToken(): Promise<string> {
+    if (!refreshPromise) {
+      refreshPromise = this.refreshToken()
+        .catch((err) => {
+          sessionExpiredListeners.forEach(listener => listener())
+          throw err
+        })
+        .finally(() => {
+          refreshPromise = null
+        })
+    }
+    return refreshPromise
+  }
+
+  /**
+   * Subscribe to session expiry (token refresh failed); returns an unsubscribe function
+   */
+  static onSessionExpired(listener: () => void): () => void {
+    sessionExpiredListeners.add(listener)
+    return () => {
+      sessionExpiredListeners.delete(listener)
+    }
+  }
+}
+
+// Endpoints that must never trigger a refresh (they would recurse or are expected to 401)
+const NO_REFRESH_PATHS = ["/auth/login", "/auth/logout", "/auth/refresh-token"]
+
+// On 401, refresh the token once and replay the original request with the new token
+const refreshOnUnauthorized: ErrorInterceptor = async (error, request) => {
+  if (!error.isUnauthorized || !request.auth || request.skipRefresh) return
+  // endsWith: the API base URL may carry a path prefix such as /v1
+  const { pathname } = new URL(request.url)
+  if (NO_REFRESH_PATHS.some(path => pathname.endsWith(path))) return
+
+  const usedToken = request.headers.get("Authorization")?.replace(/^Bearer /, "")
+  const currentToken = AuthAPI.getToken()
+  if (!currentToken) return
+
+  let token = currentToken
+  // Another request may already have refreshed the token while this one was in flight
+  if (!usedToken || usedToken === currentToken) {
+    try {
+      token = await AuthAPI.refreshAccessToken()
+    } catch {
+      // Let the original 401 propagate; session-expired listeners handle the logout
+      return
+    }
+  }
+
+  request.headers.set("Authorization", `Bearer ${token}`)
+  return apiClient.dispatch(request)
 }
+
+apiClient.interceptors.error.use(refreshOnUnauthorized)
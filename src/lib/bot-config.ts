@@ -0,0 +1,185 @@
+import * as z from 'zod';
+import type { BotConfig } from './chat-api';
+
+// UI presets used by the Bot Customizer and how they map onto backend BotConfig fields:
+// tone <-> personality, style <-> temperature
+
+export type BotTone = 'formal' | 'friendly' | 'concise';
+export type BotStyle = 'professional' | 'casual' | 'playful';
+export type FallbackBehavior = NonNullable<BotConfig['fallback_behavior']>;
+
+export const BOT_TONES: BotTone[] = ['formal', 'friendly', 'concise'];
+
+// Temperature each style preset is saved with
+export const STYLE_TEMPERATURES: Record<BotStyle, number> = {
+  professional: 0.3,
+  casual: 0.7,
+  playful: 0.9,
+};
+
+export const BOT_MODELS = [
+  { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash', description: 'Fast and cost-efficient' },
+  { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', description: 'Best reasoning, slower' },
+  { value: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', description: 'Latest fast model' },
+];
+
+export const BOT_LANGUAGES = [
+  { value: 'en', label: 'English' },
+  { value: 'sw', label: 'Swahili' },
+  { value: 'fr', label: 'French' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'de', label: 'German' },
+  { value: 'ar', label: 'Arabic' },
+];
+
+export const BOT_CHANNELS = [
+  { value: 'web_chat', label: 'Dashboard Chat' },
+  { value: 'website', label: 'Website Widget' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'messenger', label: 'Messenger' },
+  { value: 'telegram', label: 'Telegram' },
+  { value: 'instagram', label: 'Instagram' },
+];
+
+export const DEFAULT_BOT_CONFIG: BotConfig = {
+  bot_name: 'Traliq Assistant',
+  greeting_message: "Hello! I'm here to help you with any questions you might have. How can I assist you today?",
+  fallback_message: "Thanks for your question! We'll get back to you as soon as possible.",
+  offline_message: "We're currently offline. Leave your details and we'll get back to you.",
+  primary_color: '#2563eb',
+  fallback_behavior: 'generic',
+  personality: 'friendly',
+  temperature: STYLE_TEMPERATURES.professional,
+  max_tokens: 1024,
+  model_name: BOT_MODELS[0].value,
+  response_delay_ms: 0,
+  content_filter_enabled: true,
+  languages: ['en'],
+  channels: ['web_chat', 'website'],
+};
+
+// Validation for everything the Bot Customizer saves
+export const botConfigSchema = z.object({
+  bot_name: z.string().trim().min(1, 'Bot name is required').max(50, 'Bot name must be at most 50 characters'),
+  greeting_message: z.string().trim().min(1, 'Welcome message is required').max(300),
+  fallback_message: z.string().max(300).optional(),
+  offline_message: z.string().max(300).optional(),
+  primary_color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Widget color must be a hex color like #2563eb'),
+  temperature: z.number().min(0, 'Temperature must be between 0 and 1').max(1, 'Temperature must be between 0 and 1'),
+  max_tokens: z.number().int().min(64, 'Max tokens must be at least 64').max(4096, 'Max tokens must be at most 4096'),
+  model_name: z.string().refine(
+      value => BOT_MODELS.some(model => model.value === value),
+      'Select a supported model'
+  ),
+  response_delay_ms: z.number().int().min(0).max(10000, 'Response delay must be at most 10 seconds'),
+  content_filter_enabled: z.boolean(),
+  languages: z.array(z.string()).min(1, 'Select at least one language'),
+  channels: z.array(z.string()).min(1, 'Select at least one channel'),
+});
+
+export type BotConfigFieldErrors = Partial<Record<keyof BotConfig, string>>;
+
+/**
+ * Validate a draft config, returning the first error message per field
+ */
+export const validateBotConfig = (botConfig: BotConfig): BotConfigFieldErrors => {
+  const result = botConfigSchema.safeParse(botConfig);
+  if (result.success) return {};
+
+  const errors: BotConfigFieldErrors = {};
+  result.error.issues.forEach(issue => {
+    const field = issue.path[0] as keyof BotConfig | undefined;
+    if (field && !errors[field]) {
+      errors[field] = issue.message;
+    }
+  });
+  return errors;
+};
+
+/**
+ * Read the tone preset from the backend personality (friendly when unset).
+ * Returns null for a free-text personality that matches no preset, so it can be kept as is.
+ */
+export const toneFromPersonality = (personality?: string): BotTone | null => {
+  const normalized = personality?.trim().toLowerCase();
+  if (!normalized) return 'friendly';
+  return BOT_TONES.find(tone => tone === normalized) ?? null;
+};
+
+/**
+ * Pick the style preset whose temperature is closest to the saved temperature
+ */
+export const styleFromTemperature = (temperature?: number): BotStyle => {
+  if (temperature === undefined) return 'professional';
+  return (Object.keys(STYLE_TEMPERATURES) as BotStyle[]).reduce((closest, style) =>
+      Math.abs(STYLE_TEMPERATURES[style] - temperature) < Math.abs(STYLE_TEMPERATURES[closest] - temperature)
+          ? style
+          : closest
+  );
+};
+
+/**
+ * Fill in defaults for fields the backend left empty
+ */
+export const withBotConfigDefaults = (botConfig?: Partial<BotConfig>): BotConfig => ({
+  ...DEFAULT_BOT_CONFIG,
+  ...Object.fromEntries(Object.entries(botConfig || {}).filter(([, value]) => value !== undefined && value !== null)),
+} as BotConfig);
+
+// Human-readable names for the fields shown in version diffs
+export const BOT_CONFIG_FIELD_LABELS: Partial<Record<keyof BotConfig, string>> = {
+  bot_name: 'Bot name',
+  avatar_url: 'Avatar',
+  primary_color: 'Widget color',
+  greeting_message: 'Welcome message',
+  fallback_message: 'Fallback message',
+  fallback_behavior: 'Fallback behavior',
+  offline_message: 'Offline message',
+  personality: 'Tone',
+  temperature: 'Temperature',
+  max_tokens: 'Max tokens',
+  model_name: 'Model',
+  response_delay_ms: 'Response delay (ms)',
+  content_filter_enabled: 'Content filter',
+  languages: 'Languages',
+  channels: 'Channels',
+};
+
+export interface BotConfigFieldChange {
+  field: keyof BotConfig;
+  label: string;
+  before: BotConfig[keyof BotConfig];
+  after: BotConfig[keyof BotConfig];
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+/**
+ * List the customizer fields that differ between two configs
+ */
+export const diffBotConfigs = (before: BotConfig, after: BotConfig): BotConfigFieldChange[] =>
+  (Object.keys(BOT_CONFIG_FIELD_LABELS) as (keyof BotConfig)[])
+    .filter(field => !isSameValue(before[field], after[field]))
+    .map(field => ({
+      field,
+      label: BOT_CONFIG_FIELD_LABELS[field] || field,
+      before: before[field],
+      after: after[field],
+    }));
+
+/**
+ * Format a config value for display in a diff
+ */
+export const formatBotConfigValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (typeof value === 'string' && value.startsWith('data:')) return 'Uploaded image';
+  return String(value);
+};
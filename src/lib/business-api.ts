@@ -1,14 +1,38 @@
-import { config } from './config';
+import { apiClient, HttpClient } from './http-client';
 
 // Business-related types
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Times are "HH:MM" in the business timezone; a close time at or before open runs past midnight
+export interface DayHours {
+  open: string;
+  close: string;
+  isOpen: boolean;
+}
+
+// One-off override for a calendar date ("YYYY-MM-DD"), e.g. a public holiday
+export interface HolidayHours {
+  date: string;
+  name?: string;
+  isOpen: boolean;
+  open?: string;
+  close?: string;
+}
+
+export interface BusinessHours extends Record<Weekday, DayHours> {
+  holidays?: HolidayHours[];
+}
+
 export interface BusinessCreate {
   name: string;
   slug?: string;
+  // Chat namespace used by ChatRequest.business_namespace and the widget; defaults to the slug
+  namespace?: string;
   industry?: string;
   description?: string;
   tone?: string;
   timezone?: string;
-  business_hours?: Record<string, unknown>;
+  business_hours?: BusinessHours;
   settings?: Record<string, unknown>;
 }
 
@@ -19,13 +43,15 @@ export interface BusinessUpdate {
   description?: string;
   tone?: string;
   timezone?: string;
-  business_hours?: Record<string, unknown>;
+  business_hours?: BusinessHours;
   settings?: Record<string, unknown>;
 }
 
+export type BusinessRole = 'owner' | 'admin' | 'member';
+
 export interface BusinessMembershipInfo {
   id: string;
-  role: 'owner' | 'admin' | 'member';
+  role: BusinessRole;
   permissions: string[];
   invited_by?: string;
   invited_at?: string;
@@ -43,7 +69,7 @@ export interface Business {
   tone: string;
   namespace: string;
   timezone: string;
-  business_hours?: Record<string, unknown>;
+  business_hours?: BusinessHours;
   settings: Record<string, unknown>;
   monthly_message_count: number;
   monthly_document_uploads: number;
@@ -62,7 +88,7 @@ export interface BusinessListItem {
   namespace: string;
   created_at: string;
   updated_at: string;
-  user_role: 'owner' | 'admin' | 'member';
+  user_role: BusinessRole;
   monthly_message_count: number;
   monthly_document_uploads: number;
 }
@@ -73,6 +99,15 @@ export interface BusinessResponse {
   business?: Business;
 }
 
+export interface SlugAvailabilityResponse {
+  success: boolean;
+  slug: string;
+  available: boolean;
+  // Free alternatives when the slug is taken
+  suggestions: string[];
+  message?: string;
+}
+
 export interface BusinessListResponse {
   success: boolean;
   message: string;
@@ -80,90 +115,224 @@ export interface BusinessListResponse {
   total: number;
 }
 
-export class BusinessAPI {
-  private baseURL: string;
+export interface TeamMember {
+  // Membership id (not the user id)
+  id: string;
+  user_id: string;
+  email: string;
+  name?: string;
+  avatar_url?: string;
+  role: BusinessRole;
+  permissions: string[];
+  invited_by?: string;
+  invited_at?: string;
+  accepted_at?: string;
+  created_at: string;
+}
 
-  constructor() {
-    this.baseURL = config.API_URL;
-  }
+export interface TeamMemberListResponse {
+  success: boolean;
+  members: TeamMember[];
+  total: number;
+}
 
-  private async getAuthHeaders(): Promise<HeadersInit> {
-    const token = localStorage.getItem('auth_token');
-    return {
-      'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
-    };
-  }
+export interface TeamMemberResponse {
+  success: boolean;
+  message: string;
+  member: TeamMember;
+}
 
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      // prefer a typed fallback object instead of `any`
-      const errorData = await response.json().catch(() => ({ detail: 'Unknown error' as string }));
-      throw new Error((errorData as { detail?: string }).detail || `HTTP ${response.status}: ${response.statusText}`);
-    }
-    return response.json();
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  // Owners can't be invited; ownership is transferred separately
+  role: Exclude<BusinessRole, 'owner'>;
+  status: InvitationStatus;
+  invited_by?: string;
+  invited_by_name?: string;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface InvitationCreate {
+  email: string;
+  role: Invitation['role'];
+}
+
+export interface InvitationListResponse {
+  success: boolean;
+  invitations: Invitation[];
+  total: number;
+}
+
+export interface InvitationResponse {
+  success: boolean;
+  message: string;
+  invitation: Invitation;
+}
+
+// What an invitee sees before accepting, looked up by the emailed token
+export interface InvitationDetails {
+  email: string;
+  role: Invitation['role'];
+  status: InvitationStatus;
+  business_name: string;
+  invited_by_name?: string;
+  expires_at: string;
+}
+
+export interface InvitationDetailsResponse {
+  success: boolean;
+  invitation: InvitationDetails;
+}
+
+export type ActivityActorType = 'user' | 'customer' | 'system';
+
+// An entry from the business audit log
+export interface ActivityEvent {
+  id: string;
+  // Dotted event name, e.g. conversation.started, document.uploaded, bot_config.updated
+  type: string;
+  description: string;
+  actor_type: ActivityActorType;
+  actor_name?: string;
+  resource_type?: string;
+  resource_id?: string;
+  created_at: string;
+}
+
+export interface ActivityListResponse {
+  success: boolean;
+  events: ActivityEvent[];
+  total: number;
+}
+
+export class BusinessAPI {
+  private http: HttpClient;
+
+  constructor(http: HttpClient = apiClient) {
+    this.http = http;
   }
 
   /**
    * Create a new business
    */
   async createBusiness(businessData: BusinessCreate): Promise<BusinessResponse> {
-    const response = await fetch(`${this.baseURL}/businesses/`, {
-      method: 'POST',
-      headers: await this.getAuthHeaders(),
-      body: JSON.stringify(businessData),
-    });
-
-    return this.handleResponse<BusinessResponse>(response);
+    return this.http.post<BusinessResponse>('/businesses/', businessData);
   }
 
   /**
    * Get list of user's businesses
    */
   async getUserBusinesses(): Promise<BusinessListResponse> {
-    const response = await fetch(`${this.baseURL}/businesses/`, {
-      method: 'GET',
-      headers: await this.getAuthHeaders(),
-    });
+    return this.http.get<BusinessListResponse>('/businesses/');
+  }
 
-    return this.handleResponse<BusinessListResponse>(response);
+  /**
+   * Check whether a slug (and the matching chat namespace) is free
+   */
+  async checkSlugAvailability(slug: string, excludeBusinessId?: string, signal?: AbortSignal): Promise<SlugAvailabilityResponse> {
+    return this.http.get<SlugAvailabilityResponse>('/businesses/slug-availability', {
+      query: { slug, exclude_business_id: excludeBusinessId },
+      signal,
+    });
   }
 
   /**
    * Get details of a specific business
    */
   async getBusiness(businessId: string): Promise<BusinessResponse> {
-    const response = await fetch(`${this.baseURL}/businesses/${businessId}`, {
-      method: 'GET',
-      headers: await this.getAuthHeaders(),
-    });
-
-    return this.handleResponse<BusinessResponse>(response);
+    return this.http.get<BusinessResponse>(`/businesses/${businessId}`);
   }
 
   /**
    * Update business details
    */
   async updateBusiness(businessId: string, businessData: BusinessUpdate): Promise<BusinessResponse> {
-    const response = await fetch(`${this.baseURL}/businesses/${businessId}`, {
-      method: 'PATCH',
-      headers: await this.getAuthHeaders(),
-      body: JSON.stringify(businessData),
-    });
-
-    return this.handleResponse<BusinessResponse>(response);
+    return this.http.patch<BusinessResponse>(`/businesses/${businessId}`, businessData);
   }
 
   /**
    * Delete a business (soft delete)
    */
   async deleteBusiness(businessId: string): Promise<BusinessResponse> {
-    const response = await fetch(`${this.baseURL}/businesses/${businessId}`, {
-      method: 'DELETE',
-      headers: await this.getAuthHeaders(),
+    return this.http.delete<BusinessResponse>(`/businesses/${businessId}`);
+  }
+
+  /**
+   * Get recent audit events for a business, newest first
+   */
+  async getActivity(businessId: string, limit: number = 10): Promise<ActivityListResponse> {
+    return this.http.get<ActivityListResponse>(`/businesses/${businessId}/activity`, {
+      query: { limit },
     });
+  }
+
+  /**
+   * List members of a business
+   */
+  async listMembers(businessId: string): Promise<TeamMemberListResponse> {
+    return this.http.get<TeamMemberListResponse>(`/businesses/${businessId}/members`);
+  }
 
-    return this.handleResponse<BusinessResponse>(response);
+  /**
+   * Change a member's role
+   */
+  async updateMemberRole(businessId: string, memberId: string, role: BusinessRole): Promise<TeamMemberResponse> {
+    return this.http.patch<TeamMemberResponse>(`/businesses/${businessId}/members/${memberId}`, { role });
+  }
+
+  /**
+   * Remove a member from a business
+   */
+  async removeMember(businessId: string, memberId: string): Promise<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`/businesses/${businessId}/members/${memberId}`);
+  }
+
+  /**
+   * List pending invitations for a business
+   */
+  async listInvitations(businessId: string): Promise<InvitationListResponse> {
+    return this.http.get<InvitationListResponse>(`/businesses/${businessId}/invitations`, {
+      query: { status: 'pending' },
+    });
+  }
+
+  /**
+   * Invite someone to a business by email
+   */
+  async inviteMember(businessId: string, invitation: InvitationCreate): Promise<InvitationResponse> {
+    return this.http.post<InvitationResponse>(`/businesses/${businessId}/invitations`, invitation);
+  }
+
+  /**
+   * Send the invitation email again and extend its expiry
+   */
+  async resendInvitation(businessId: string, invitationId: string): Promise<InvitationResponse> {
+    return this.http.post<InvitationResponse>(`/businesses/${businessId}/invitations/${invitationId}/resend`);
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(businessId: string, invitationId: string): Promise<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`/businesses/${businessId}/invitations/${invitationId}`);
+  }
+
+  /**
+   * Look up an invitation by its emailed token (works while signed out)
+   */
+  async getInvitation(token: string): Promise<InvitationDetailsResponse> {
+    return this.http.get<InvitationDetailsResponse>(`/invitations/${encodeURIComponent(token)}`, { auth: false });
+  }
+
+  /**
+   * Accept an invitation as the signed-in user
+   */
+  async acceptInvitation(token: string): Promise<BusinessResponse> {
+    return this.http.post<BusinessResponse>(`/invitations/${encodeURIComponent(token)}/accept`);
   }
 
   /**
@@ -171,17 +340,12 @@ export class BusinessAPI {
    */
   async hasRegisteredBusiness(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseURL}/businesses/status`, {
-        method: 'GET',
-        headers: await this.getAuthHeaders(),
-      });
-
-      const data = await this.handleResponse<{
+      const data = await this.http.get<{
         success: boolean;
         has_business: boolean;
         business_count: number;
         message: string;
-      }>(response);
+      }>('/businesses/status');
 
       return data.has_business;
     } catch (error) {
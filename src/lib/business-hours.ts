@@ -0,0 +1,154 @@
+import type { BusinessHours, DayHours, HolidayHours, Weekday } from './business-api';
+
+// Business hours helpers shared by onboarding, settings and the chat page.
+// The website widget (public/traliq-widget.js) mirrors isBusinessOpen, keep them in sync.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const WEEKDAYS: { key: Weekday; label: string }[] = [
+  { key: 'monday', label: 'Monday' },
+  { key: 'tuesday', label: 'Tuesday' },
+  { key: 'wednesday', label: 'Wednesday' },
+  { key: 'thursday', label: 'Thursday' },
+  { key: 'friday', label: 'Friday' },
+  { key: 'saturday', label: 'Saturday' },
+  { key: 'sunday', label: 'Sunday' },
+];
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  monday: { open: '09:00', close: '17:00', isOpen: true },
+  tuesday: { open: '09:00', close: '17:00', isOpen: true },
+  wednesday: { open: '09:00', close: '17:00', isOpen: true },
+  thursday: { open: '09:00', close: '17:00', isOpen: true },
+  friday: { open: '09:00', close: '17:00', isOpen: true },
+  saturday: { open: '10:00', close: '16:00', isOpen: false },
+  sunday: { open: '10:00', close: '16:00', isOpen: false },
+  holidays: [],
+};
+
+/**
+ * IANA timezones supported by the browser, always including UTC
+ */
+export const getTimezones = (): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(DEFAULT_TIMEZONE) ? zones : [DEFAULT_TIMEZONE, ...zones];
+};
+
+/**
+ * Timezone of the current browser, used as the onboarding default
+ */
+export const getBrowserTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+};
+
+/**
+ * Current UTC offset of a timezone, e.g. "GMT+3"
+ */
+export const formatTimezoneOffset = (timezone: string, date: Date = new Date()): string => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'shortOffset' }).formatToParts(date);
+    return parts.find(part => part.type === 'timeZoneName')?.value || '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Fill in missing days and drop malformed holidays from stored (possibly legacy) business hours
+ */
+export const normalizeBusinessHours = (raw?: Partial<BusinessHours> | null): BusinessHours => {
+  const hours = { ...DEFAULT_BUSINESS_HOURS, holidays: [] as HolidayHours[] };
+  if (!raw) return hours;
+
+  for (const { key } of WEEKDAYS) {
+    const day = raw[key] as Partial<DayHours> | undefined;
+    if (day) {
+      hours[key] = {
+        open: day.open || DEFAULT_BUSINESS_HOURS[key].open,
+        close: day.close || DEFAULT_BUSINESS_HOURS[key].close,
+        isOpen: !!day.isOpen,
+      };
+    }
+  }
+
+  if (Array.isArray(raw.holidays)) {
+    hours.holidays = raw.holidays
+      .filter(holiday => holiday && /^\d{4}-\d{2}-\d{2}$/.test(holiday.date))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return hours;
+};
+
+const toMinutes = (time?: string) => {
+  const [hours, minutes] = (time || '').split(':').map(Number);
+  return Number.isFinite(hours) && Number.isFinite(minutes) ? hours * 60 + minutes : null;
+};
+
+export interface ZonedTime {
+  weekday: Weekday;
+  date: string;
+  minutes: number;
+}
+
+/**
+ * Weekday, date and minutes past midnight of an instant in the given timezone
+ */
+export const getZonedTime = (timezone: string, date: Date = new Date()): ZonedTime => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    // Unknown timezone: fall back to UTC rather than failing
+    return getZonedTime(DEFAULT_TIMEZONE, date);
+  }
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+  return {
+    weekday: get('weekday').toLowerCase() as Weekday,
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+};
+
+/**
+ * Whether the business is open at the given instant. Holidays override the weekly
+ * schedule for their date; hours closing at or before they open run past midnight.
+ */
+export const isBusinessOpen = (hours: BusinessHours, timezone: string, date: Date = new Date()): boolean => {
+  const { weekday, date: today, minutes } = getZonedTime(timezone, date);
+  const holiday = hours.holidays?.find(item => item.date === today);
+  const schedule = holiday ?? hours[weekday];
+
+  if (schedule?.isOpen) {
+    const open = toMinutes(schedule.open);
+    const close = toMinutes(schedule.close);
+    if (open !== null && close !== null) {
+      if (close > open ? minutes >= open && minutes < close : minutes >= open) return true;
+    }
+  }
+
+  // Still inside yesterday's overnight shift
+  const yesterday = WEEKDAYS[(WEEKDAYS.findIndex(day => day.key === weekday) + 6) % 7].key;
+  const previous = hours[yesterday];
+  if (previous?.isOpen) {
+    const open = toMinutes(previous.open);
+    const close = toMinutes(previous.close);
+    if (open !== null && close !== null && close <= open && minutes < close) return true;
+  }
+
+  return false;
+};
@@ -0,0 +1,80 @@
+import * as z from "zod"
+
+// Slugs double as the chat namespace, so keep them URL and identifier safe
+export const slugSchema = z.string()
+  .min(2, "Slug is required")
+  .max(48, "Slug must be at most 48 characters")
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single hyphens")
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a HH:MM time")
+
+// Business profile schema, shared by onboarding and the settings page
+export const businessSchema = z.object({
+  name: z.string().min(2, "Business name must be at least 2 characters"),
+  slug: slugSchema,
+  industry: z.string().min(1, "Please select an industry"),
+  description: z.string().min(10, "Description must be at least 10 characters"),
+  tone: z.string().default("friendly"),
+  timezone: z.string().min(1, "Please select a timezone"),
+})
+
+export type BusinessFormData = z.infer<typeof businessSchema>
+
+const dayHoursSchema = z.object({
+  open: timeSchema,
+  close: timeSchema,
+  isOpen: z.boolean(),
+})
+
+// Mirrors BusinessHours in business-api
+export const businessHoursSchema = z.object({
+  monday: dayHoursSchema,
+  tuesday: dayHoursSchema,
+  wednesday: dayHoursSchema,
+  thursday: dayHoursSchema,
+  friday: dayHoursSchema,
+  saturday: dayHoursSchema,
+  sunday: dayHoursSchema,
+  holidays: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date for every holiday"),
+    name: z.string().max(60).optional(),
+    isOpen: z.boolean(),
+    open: timeSchema.optional(),
+    close: timeSchema.optional(),
+  })).optional(),
+}).refine(
+  (hours) => new Set(hours.holidays?.map(holiday => holiday.date)).size === (hours.holidays?.length ?? 0),
+  { message: "Each holiday date can only be added once", path: ["holidays"] }
+)
+
+export const industries = [
+  "Technology",
+  "Healthcare",
+  "Finance",
+  "Education",
+  "Retail",
+  "Manufacturing",
+  "Real Estate",
+  "Food & Beverage",
+  "Transportation",
+  "Entertainment",
+  "Consulting",
+  "Other"
+]
+
+export const businessTones = [
+  { value: "friendly", label: "Friendly" },
+  { value: "professional", label: "Professional" },
+  { value: "casual", label: "Casual" },
+  { value: "formal", label: "Formal" },
+]
+
+// Turn a business name into a URL-safe slug
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, '') // Trim leading/trailing hyphens
+    .slice(0, 48)
@@ -1,4 +1,5 @@
-import { config } from './config';
+import { apiClient, ApiError, HttpClient } from './http-client';
+import type { SearchResult } from './api';
 
 // Chat-related types matching backend schemas
 export interface ChatMessage {
@@ -6,7 +7,7 @@ export interface ChatMessage {
   content: string;
   sender: 'user' | 'bot';
   timestamp: Date;
-  status?: 'sending' | 'sent' | 'error';
+  status?: 'sending' | 'streaming' | 'sent' | 'stopped' | 'error';
   confidence_score?: number;
   model_used?: string;
 }
@@ -33,6 +34,14 @@ export interface ChatResponse {
   processing_time_ms?: number;
 }
 
+/**
+ * Events yielded by `ChatAPI.streamMessage`.
+ * `token` carries an incremental piece of the reply; `done` carries the final response.
+ */
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; response: ChatResponse };
+
 export interface ConversationCreateRequest {
   business_namespace: string;
   session_id?: string;
@@ -50,15 +59,75 @@ export interface ConversationResponse {
   created_at?: string;
 }
 
+export type ConversationStatus = 'active' | 'resolved' | 'escalated' | 'abandoned';
+
+export interface ConversationSummary {
+  id: string;
+  business_namespace?: string;
+  session_id?: string;
+  customer_id?: string;
+  customer_name?: string;
+  customer_email?: string;
+  channel: string;
+  status: ConversationStatus | string;
+  last_message?: string;
+  last_message_at?: string;
+  message_count?: number;
+  resolution_reason?: string;
+  customer_satisfaction_rating?: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface ContextSearchResponse {
+  results: SearchResult[];
+  total?: number;
+}
+
+export interface ConversationListFilters {
+  status?: string;
+  channel?: string;
+  start_date?: string;
+  end_date?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ConversationListResponse {
+  success: boolean;
+  conversations: ConversationSummary[];
+  total: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  created_at: string;
+  confidence_score?: number;
+  model_used?: string;
+  processing_time_ms?: number;
+}
+
+export interface ConversationTranscriptResponse {
+  success: boolean;
+  conversation: ConversationSummary;
+  messages: ConversationMessage[];
+}
+
 export interface BotConfig {
   bot_name: string;
   avatar_url?: string;
+  // Accent color of the website widget, as a hex string
+  primary_color?: string;
   description?: string;
   personality?: string;
   languages?: string[];
   channels?: string[];
   greeting_message?: string;
   fallback_message?: string;
+  fallback_behavior?: 'escalate' | 'generic' | 'contact';
   offline_message?: string;
   temperature?: number;
   max_tokens?: number;
@@ -74,67 +143,266 @@ export interface BotConfigResponse {
   config: BotConfig;
 }
 
-export class ChatAPI {
-  private baseURL: string;
+export interface BotConfigVersionAuthor {
+  id: string;
+  email?: string;
+  name?: string;
+}
 
-  constructor() {
-    this.baseURL = config.API_URL;
-  }
+export interface BotConfigVersion {
+  version: string;
+  config: BotConfig;
+  created_at: string;
+  created_by?: BotConfigVersionAuthor;
+  is_active: boolean;
+  // Set when the version was created by rolling back to an older one
+  restored_from?: string;
+}
 
-  private async getAuthHeaders(): Promise<HeadersInit> {
-    const token = localStorage.getItem('auth_token');
-    return {
-      'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
-    };
-  }
+export interface BotConfigVersionListResponse {
+  success: boolean;
+  versions: BotConfigVersion[];
+}
 
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      const errorData = await response
-          .json()
-          .catch(() => ({ detail: 'Unknown error' as string }));
-      throw new Error((errorData as { detail?: string }).detail || `HTTP ${response.status}: ${response.statusText}`);
-    }
-    return response.json();
+export type StatsPeriod = '24h' | '7d' | '30d';
+
+// A metric for the requested period alongside the same-length period before it
+export interface PeriodMetric {
+  current: number;
+  previous: number;
+}
+
+export interface BusinessStats {
+  business_namespace: string;
+  period: StatsPeriod;
+  conversations: PeriodMetric;
+  active_conversations: number;
+  users_online: number;
+  ai_responses: PeriodMetric;
+  avg_response_time_ms: PeriodMetric;
+  resolved_conversations?: PeriodMetric;
+  leads_captured?: PeriodMetric;
+}
+
+export interface BusinessStatsResponse {
+  success: boolean;
+  stats: BusinessStats;
+}
+
+// Status codes meaning the server has no streaming chat endpoint
+const STREAMING_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+export class ChatAPI {
+  private http: HttpClient;
+  private streamingSupported = true;
+
+  constructor(http: HttpClient = apiClient) {
+    this.http = http;
   }
 
   /**
    * Send a chat message and get AI response
    */
   async sendMessage(chatRequest: ChatRequest): Promise<ChatResponse> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/chat`, {
-      method: 'POST',
-      headers: await this.getAuthHeaders(),
-      body: JSON.stringify(chatRequest),
-    });
+    return this.http.post<ChatResponse>('/api/v1/chatbot/chat', chatRequest);
+  }
 
-    return this.handleResponse<ChatResponse>(response);
+  /**
+   * Send a chat message and stream the AI response as it is generated.
+   *
+   * Accepts Server-Sent Events (`event: token|done|error`) or a chunked plain-text body.
+   * Falls back to `sendMessage` when the server has no streaming endpoint.
+   * Aborting `signal` stops generation and throws an ApiError with code ABORTED.
+   */
+  async *streamMessage(chatRequest: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    if (!this.streamingSupported) {
+      yield* this.streamFallback(chatRequest, signal);
+      return;
+    }
+
+    let response: Response;
+    try {
+      response = await this.http.send('/api/v1/chatbot/chat/stream', {
+        method: 'POST',
+        body: chatRequest,
+        headers: { Accept: 'text/event-stream' },
+        signal,
+        timeout: 0, // generation is bounded by the caller's signal instead
+      });
+    } catch (error) {
+      if (error instanceof ApiError && STREAMING_UNSUPPORTED_STATUSES.includes(error.status)) {
+        this.streamingSupported = false;
+        yield* this.streamFallback(chatRequest, signal);
+        return;
+      }
+      throw error;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('application/json')) {
+      // Server ignored the stream request and answered in one go
+      const result = await response.json() as ChatResponse;
+      yield { type: 'token', content: result.response };
+      yield { type: 'done', response: result };
+      return;
+    }
+
+    if (!response.body) {
+      throw new ApiError('Streaming is not supported by this browser', { code: 'INVALID_RESPONSE' });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const isEventStream = contentType.includes('text/event-stream');
+    let buffer = '';
+    let content = '';
+    let finished = false;
+
+    const abortReader = () => reader.cancel().catch(() => undefined);
+    signal?.addEventListener('abort', abortReader);
+
+    try {
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (signal?.aborted) {
+          throw new ApiError('Request was cancelled', { code: 'ABORTED' });
+        }
+        if (done) break;
+
+        const chunk = decoder.decode(value, { stream: true });
+        if (!isEventStream) {
+          content += chunk;
+          yield { type: 'token', content: chunk };
+          continue;
+        }
+
+        buffer += chunk;
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+
+        for (const raw of events) {
+          const event = parseServerSentEvent(raw);
+          if (!event) continue;
+
+          if (event.event === 'error') {
+            const payload = safeJsonParse(event.data);
+            throw new ApiError(
+                (isRecordLike(payload) && typeof payload.detail === 'string' && payload.detail) || 'Streaming failed',
+                { status: response.status, detail: payload }
+            );
+          }
+
+          if (event.event === 'done' || event.data === '[DONE]') {
+            const payload = safeJsonParse(event.data);
+            yield {
+              type: 'done',
+              response: {
+                success: true,
+                response: content,
+                conversation_id: chatRequest.conversation_id || '',
+                ...(isRecordLike(payload) ? payload as Partial<ChatResponse> : {}),
+              },
+            };
+            finished = true;
+            break;
+          }
+
+          const payload = safeJsonParse(event.data);
+          const token = typeof payload === 'string'
+              ? payload
+              : isRecordLike(payload)
+              ? (typeof payload.content === 'string' ? payload.content : typeof payload.token === 'string' ? payload.token : '')
+              : event.data;
+          if (token) {
+            content += token;
+            yield { type: 'token', content: token };
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', abortReader);
+      reader.releaseLock();
+    }
+
+    if (!finished) {
+      yield {
+        type: 'done',
+        response: { success: true, response: content, conversation_id: chatRequest.conversation_id || '' },
+      };
+    }
+  }
+
+  private async *streamFallback(chatRequest: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const result = await this.http.post<ChatResponse>('/api/v1/chatbot/chat', chatRequest, { signal });
+    yield { type: 'token', content: result.response };
+    yield { type: 'done', response: result };
   }
 
   /**
    * Create a new conversation
    */
   async createConversation(request: ConversationCreateRequest): Promise<ConversationResponse> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/conversations`, {
-      method: 'POST',
-      headers: await this.getAuthHeaders(),
-      body: JSON.stringify(request),
-    });
-
-    return this.handleResponse<ConversationResponse>(response);
+    return this.http.post<ConversationResponse>('/api/v1/chatbot/conversations', request);
   }
 
   /**
    * Get bot configuration for a business
    */
   async getBotConfig(businessNamespace: string): Promise<BotConfigResponse> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/config/${businessNamespace}`, {
-      method: 'GET',
-      headers: await this.getAuthHeaders(),
+    return this.http.get<BotConfigResponse>(`/api/v1/chatbot/config/${businessNamespace}`);
+  }
+
+  /**
+   * List conversations for a business, newest first
+   */
+  async listConversations(
+    businessNamespace: string,
+    filters: ConversationListFilters = {},
+    signal?: AbortSignal
+  ): Promise<ConversationListResponse> {
+    return this.http.get<ConversationListResponse>('/api/v1/chatbot/conversations', {
+      query: { business_namespace: businessNamespace, limit: 50, offset: 0, ...filters },
+      signal,
     });
+  }
 
-    return this.handleResponse<BotConfigResponse>(response);
+  /**
+   * Get the full message transcript of a conversation
+   */
+  async getConversationTranscript(conversationId: string, signal?: AbortSignal): Promise<ConversationTranscriptResponse> {
+    return this.http.get<ConversationTranscriptResponse>(`/api/v1/chatbot/conversations/${conversationId}/messages`, { signal });
+  }
+
+  /**
+   * Update bot configuration for a business (partial update)
+   */
+  async updateBotConfig(businessNamespace: string, botConfig: Partial<BotConfig>): Promise<BotConfigResponse> {
+    return this.http.patch<BotConfigResponse>(`/api/v1/chatbot/config/${businessNamespace}`, botConfig);
+  }
+
+  /**
+   * List saved versions of a business's bot configuration, newest first.
+   * Every update creates a new version on the server.
+   */
+  async listBotConfigVersions(businessNamespace: string): Promise<BotConfigVersionListResponse> {
+    return this.http.get<BotConfigVersionListResponse>(`/api/v1/chatbot/config/${businessNamespace}/versions`);
+  }
+
+  /**
+   * Restore an earlier version; the server saves it as a new active version
+   */
+  async rollbackBotConfig(businessNamespace: string, version: string): Promise<BotConfigResponse> {
+    return this.http.post<BotConfigResponse>(`/api/v1/chatbot/config/${businessNamespace}/versions/${encodeURIComponent(version)}/rollback`);
+  }
+
+  /**
+   * Generate a reply to a test prompt using an unsaved (draft) bot configuration
+   */
+  async previewBotConfig(businessNamespace: string, message: string, draftConfig: Partial<BotConfig>): Promise<ChatResponse> {
+    return this.http.post<ChatResponse>(`/api/v1/chatbot/config/${businessNamespace}/preview`, {
+      message,
+      config: draftConfig,
+    });
   }
 
   /**
@@ -143,86 +411,64 @@ export class ChatAPI {
    * Returns a generic object representing the conversation context.
    */
   async getConversationContext(conversationId: string): Promise<Record<string, unknown>> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/conversations/${conversationId}/context`, {
-      method: 'GET',
-      headers: await this.getAuthHeaders(),
-    });
-
-    // Use the generic handler but cast to a record of unknowns
-    return this.handleResponse<Record<string, unknown>>(response);
+    return this.http.get<Record<string, unknown>>(`/api/v1/chatbot/conversations/${conversationId}/context`);
   }
 
   /**
    * Resolve a conversation
    */
   async resolveConversation(conversationId: string, resolutionReason?: string, rating?: number, feedback?: string): Promise<ConversationResponse> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/conversations/resolve`, {
-      method: 'POST',
-      headers: await this.getAuthHeaders(),
-      body: JSON.stringify({
-        conversation_id: conversationId,
-        resolution_reason: resolutionReason,
-        customer_satisfaction_rating: rating,
-        customer_feedback: feedback,
-      }),
+    return this.http.post<ConversationResponse>('/api/v1/chatbot/conversations/resolve', {
+      conversation_id: conversationId,
+      resolution_reason: resolutionReason,
+      customer_satisfaction_rating: rating,
+      customer_feedback: feedback,
     });
-
-    return this.handleResponse<ConversationResponse>(response);
   }
 
   /**
    * Search for context in business knowledge base
    *
-   * Returns an object with `results` array and optional `total`.
-   */
-  async searchContext(businessNamespace: string, query: string, topK: number = 5): Promise<{ results: unknown[]; total?: number }> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/search-context`, {
-      method: 'POST',
-      headers: await this.getAuthHeaders(),
-      body: JSON.stringify({
-        business_namespace: businessNamespace,
-        query,
-        top_k: topK,
-      }),
+   * Returns the chunks the chatbot would retrieve for `query`, best match first.
+   * Pass `tags` to only search documents carrying at least one of them.
+   */
+  async searchContext(businessNamespace: string, query: string, topK: number = 5, tags?: string[]): Promise<ContextSearchResponse> {
+    return this.http.post<ContextSearchResponse>('/api/v1/chatbot/search-context', {
+      business_namespace: businessNamespace,
+      query,
+      top_k: topK,
+      filter_tags: tags && tags.length > 0 ? tags : undefined,
     });
-
-    return this.handleResponse<{ results: unknown[]; total?: number }>(response);
   }
 
   /**
    * Check chatbot service health
    *
    * Returns a boolean indicating health (true = healthy).
+   * Network failures are rethrown so callers can tell "unreachable" from "unhealthy".
    */
   async healthCheck(): Promise<boolean> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/health`, {
-      method: 'GET',
-      headers: await this.getAuthHeaders(),
-    });
-
-    // Some health endpoints return a JSON { healthy: true } or { status: 'ok' }
-    // We'll attempt to parse and fall back to response.ok
     try {
-      const data = await this.handleResponse<Record<string, unknown>>(response);
-      if (typeof data.healthy === 'boolean') return data.healthy;
-      if (typeof data.status === 'string') return data.status === 'ok' || data.status === 'healthy';
-      return response.ok;
-    } catch {
-      // If parsing fails, fallback to response.ok
-      return response.ok;
+      // Some health endpoints return a JSON { healthy: true } or { status: 'ok' }
+      const data = await this.http.get<Record<string, unknown> | undefined>('/api/v1/chatbot/health');
+      if (typeof data?.healthy === 'boolean') return data.healthy;
+      if (typeof data?.status === 'string') return data.status === 'ok' || data.status === 'healthy';
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.status > 0) {
+        return false;
+      }
+      throw error;
     }
   }
 
   /**
    * Get business statistics
    */
-  async getBusinessStats(businessNamespace: string): Promise<Record<string, unknown>> {
-    const response = await fetch(`${this.baseURL}/api/v1/chatbot/stats/${businessNamespace}`, {
-      method: 'GET',
-      headers: await this.getAuthHeaders(),
+  async getBusinessStats(businessNamespace: string, period: StatsPeriod = '30d'): Promise<BusinessStatsResponse> {
+    return this.http.get<BusinessStatsResponse>(`/api/v1/chatbot/stats/${businessNamespace}`, {
+      query: { period },
     });
-
-    return this.handleResponse<Record<string, unknown>>(response);
   }
 
   /**
@@ -240,5 +486,27 @@ export class ChatAPI {
   }
 }
 
+// Parse one Server-Sent Event block into its event name and (joined) data lines
+const parseServerSentEvent = (raw: string): { event: string; data: string } | null => {
+  let event = 'message';
+  const data: string[] = [];
+  raw.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  });
+  return data.length > 0 || event !== 'message' ? { event, data: data.join('\n') } : null;
+};
+
+const safeJsonParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const isRecordLike = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
 // Export singleton instance
 export const chatAPI = new ChatAPI();
@@ -0,0 +1,42 @@
+// CSV helpers for client-side exports
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Cells starting with these are evaluated as formulas by Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Neutralise formulas in text cells, then quote when the cell contains a delimiter, quote or newline
+const escapeCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialise rows into CSV text using the given column definitions
+ */
+export const toCsv = <T,>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const lines = [
+    columns.map(column => escapeCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCell(column.value(row))).join(',')),
+  ];
+  return lines.join('\r\n');
+};
+
+/**
+ * Trigger a browser download of CSV text
+ */
+export const downloadCsv = (filename: string, csv: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,86 @@
+import type { DocumentInfo } from './api';
+import config from './config';
+
+// Display helpers shared by the document list and document detail pages
+
+/**
+ * Processing status mapping
+ */
+export const getProcessingStatusDisplay = (status: string) => {
+  switch (status.toLowerCase()) {
+    case 'completed':
+      return { status: 'active', label: 'Active', color: 'text-green-400' };
+    case 'processing':
+    case 'queued':
+      return { status: 'processing', label: 'Processing', color: 'text-yellow-400' };
+    case 'failed':
+    case 'error':
+      return { status: 'error', label: 'Error', color: 'text-red-400' };
+    default:
+      return { status: 'processing', label: 'Processing', color: 'text-yellow-400' };
+  }
+};
+
+/**
+ * Get category from document metadata (safe, returns a string)
+ */
+export const getDocumentCategory = (doc: DocumentInfo): string => {
+  // 1) prefer meta.category when it's a non-empty string
+  const metaCategory = doc.meta?.category;
+  if (typeof metaCategory === 'string' && metaCategory.trim().length > 0) {
+    return metaCategory;
+  }
+
+  // 2) fallback to file_type (ensure it's a string before calling toUpperCase)
+  if (typeof doc.file_type === 'string' && doc.file_type.trim().length > 0) {
+    return doc.file_type.toUpperCase();
+  }
+
+  // 3) fallback to mime_type subtype, e.g. "application/pdf" -> "PDF"
+  if (typeof doc.mime_type === 'string' && doc.mime_type.includes('/')) {
+    const subtype = doc.mime_type.split('/')[1];
+    if (subtype && subtype.trim().length > 0) {
+      return subtype.toUpperCase();
+    }
+  }
+
+  // 4) final default
+  return 'Document';
+};
+
+/**
+ * Human readable file size, e.g. "1.5 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+/**
+ * Why a file can't be uploaded, or null when it is acceptable
+ */
+export const getFileValidationError = (file: File): string | null => {
+  if (file.size > config.upload.maxFileSize) {
+    return `File too large. Maximum size is ${formatFileSize(config.upload.maxFileSize)}`;
+  }
+
+  const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
+  if (!config.upload.acceptedFileTypes.includes(fileExtension)) {
+    return `Invalid file type. Supported types: ${config.upload.acceptedFileTypes.join(', ')}`;
+  }
+
+  return null;
+};
+
+/**
+ * SHA-256 of a file as lowercase hex, matching UploadResponse.checksum
+ */
+export const computeFileChecksum = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
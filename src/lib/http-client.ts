@@ -0,0 +1,484 @@
+import { config } from './config';
+
+// Shared HTTP client used by every API wrapper (auth, business, chat, documents)
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type UploadProgressCallback = (progress: number) => void;
+
+export interface RequestOptions {
+  method?: string;
+  query?: Record<string, QueryValue | QueryValue[]>;
+  /** Plain objects are sent as JSON; FormData, Blob and strings are sent as-is */
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Milliseconds before the request is aborted; 0 disables the timeout */
+  timeout?: number;
+  /** Attach the stored bearer token (defaults to true) */
+  auth?: boolean;
+  /** Never retry this request through a token refresh on 401 */
+  skipRefresh?: boolean;
+  /** Report upload progress (0-100); switches the transport to XMLHttpRequest */
+  onUploadProgress?: UploadProgressCallback;
+}
+
+export interface HttpRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: BodyInit;
+  auth: boolean;
+  skipRefresh: boolean;
+  timeout: number;
+  signal?: AbortSignal;
+  onUploadProgress?: UploadProgressCallback;
+}
+
+export type RequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+export type ResponseInterceptor = (response: Response, request: HttpRequest) => Response | Promise<Response>;
+/**
+ * Error interceptors may recover by returning a replacement Response,
+ * or return nothing to let the error propagate.
+ */
+export type ErrorInterceptor = (error: ApiError, request: HttpRequest) => Response | void | Promise<Response | void>;
+
+export type ApiErrorCode = 'TIMEOUT' | 'ABORTED' | 'NETWORK_ERROR' | 'INVALID_RESPONSE' | string;
+
+/**
+ * Error thrown for every failed API call.
+ *
+ * `status` is 0 when no HTTP response was received (network failure, timeout or abort).
+ * `code` carries the backend `detail` code (e.g. LOGIN_BAD_CREDENTIALS) when one is present.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: ApiErrorCode;
+  readonly detail?: unknown;
+  readonly requestId?: string;
+
+  constructor(
+      message: string,
+      options: { status?: number; code?: ApiErrorCode; detail?: unknown; requestId?: string } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? 0;
+    this.code = options.code;
+    this.detail = options.detail;
+    this.requestId = options.requestId;
+  }
+
+  get isNetworkError(): boolean {
+    return this.code === 'NETWORK_ERROR' || this.code === 'TIMEOUT';
+  }
+
+  get isAborted(): boolean {
+    return this.code === 'ABORTED';
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  /**
+   * Build an ApiError from a non-2xx response, reading the FastAPI `detail` payload
+   */
+  static async fromResponse(response: Response): Promise<ApiError> {
+    const requestId = response.headers.get('x-request-id') || undefined;
+    const contentType = response.headers.get('content-type') || '';
+
+    // HTML usually means a proxy error page or a missing route rather than an API error
+    if (contentType.includes('text/html')) {
+      let message = 'Unexpected server response. Please check your network connection and try again.';
+      if (response.status === 404) {
+        message = 'API endpoint not found. Please check if the backend server is running and the URL is correct.';
+      } else if (response.status >= 500) {
+        message = 'Server error occurred. Please try again later.';
+      }
+      return new ApiError(message, { status: response.status, code: 'INVALID_RESPONSE', requestId });
+    }
+
+    let payload: unknown;
+    try {
+      const text = await response.text();
+      payload = text ? JSON.parse(text) : undefined;
+    } catch {
+      payload = undefined;
+    }
+
+    const detail = isRecord(payload) ? payload.detail : undefined;
+    return new ApiError(
+        describeDetail(detail) || `HTTP ${response.status}: ${response.statusText}`,
+        { status: response.status, code: detailCode(detail), detail, requestId }
+    );
+  }
+
+  /**
+   * Normalise anything thrown during a request into an ApiError
+   */
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        return new ApiError('Request was cancelled', { code: 'ABORTED' });
+      }
+      return new ApiError(error.message || 'Network error occurred', { code: 'NETWORK_ERROR' });
+    }
+    return new ApiError('Unknown error', { code: 'NETWORK_ERROR' });
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// FastAPI returns `detail` as a string, a validation error list, or an object with code/reason
+const describeDetail = (detail: unknown): string | undefined => {
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    const messages = detail
+        .map(item => (isRecord(item) && typeof item.msg === 'string' ? item.msg : null))
+        .filter((msg): msg is string => !!msg);
+    return messages.length > 0 ? messages.join('; ') : undefined;
+  }
+  if (isRecord(detail)) {
+    if (typeof detail.reason === 'string') return detail.reason;
+    if (typeof detail.message === 'string') return detail.message;
+    if (typeof detail.code === 'string') return detail.code;
+  }
+  return undefined;
+};
+
+const detailCode = (detail: unknown): string | undefined => {
+  if (typeof detail === 'string' && /^[A-Z][A-Z0-9_]+$/.test(detail)) return detail;
+  if (isRecord(detail) && typeof detail.code === 'string') return detail.code;
+  return undefined;
+};
+
+class InterceptorManager<T> {
+  private handlers: T[] = [];
+
+  /**
+   * Register a handler; returns a function that removes it again
+   */
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== handler);
+    };
+  }
+
+  toArray(): T[] {
+    return [...this.handlers];
+  }
+}
+
+const parseXhrHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+};
+
+export class HttpClient {
+  readonly baseUrl: string;
+  private defaultTimeout: number;
+
+  readonly interceptors = {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor>(),
+    error: new InterceptorManager<ErrorInterceptor>(),
+  };
+
+  constructor(baseUrl: string = config.API_URL, timeout: number = config.api.timeout) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.defaultTimeout = timeout;
+  }
+
+  /**
+   * Build the absolute URL for a path, appending query params (null/undefined are skipped)
+   */
+  buildUrl(path: string, query?: RequestOptions['query']): string {
+    const url = new URL(/^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`);
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        const values = Array.isArray(value) ? value : [value];
+        values.forEach(item => {
+          if (item !== undefined && item !== null) {
+            url.searchParams.append(key, String(item));
+          }
+        });
+      });
+    }
+    return url.toString();
+  }
+
+  /**
+   * Run the full pipeline and return the raw Response (for streaming or non-JSON bodies)
+   */
+  async send(path: string, options: RequestOptions = {}): Promise<Response> {
+    let request = this.prepare(path, options);
+    for (const interceptor of this.interceptors.request.toArray()) {
+      request = await interceptor(request);
+    }
+
+    try {
+      let response = await this.dispatch(request);
+      for (const interceptor of this.interceptors.response.toArray()) {
+        response = await interceptor(response, request);
+      }
+      if (!response.ok) {
+        throw await ApiError.fromResponse(response);
+      }
+      return response;
+    } catch (error) {
+      let apiError = ApiError.from(error);
+      for (const interceptor of this.interceptors.error.toArray()) {
+        try {
+          const recovered = await interceptor(apiError, request);
+          if (recovered) {
+            if (!recovered.ok) throw await ApiError.fromResponse(recovered);
+            return recovered;
+          }
+        } catch (interceptorError) {
+          apiError = ApiError.from(interceptorError);
+        }
+      }
+      throw apiError;
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON body
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const response = await this.send(path, options);
+    const contentType = response.headers.get('content-type') || '';
+
+    if (contentType.includes('text/html')) {
+      throw new ApiError('Unexpected server response. Please check your network connection and try again.', {
+        status: response.status,
+        code: 'INVALID_RESPONSE',
+        requestId: response.headers.get('x-request-id') || undefined,
+      });
+    }
+
+    const text = await response.text();
+    if (!text) return undefined as T;
+
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new ApiError('Invalid response format from server', {
+        status: response.status,
+        code: 'INVALID_RESPONSE',
+        requestId: response.headers.get('x-request-id') || undefined,
+      });
+    }
+  }
+
+  get<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+
+  put<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PUT', body });
+  }
+
+  patch<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PATCH', body });
+  }
+
+  delete<T>(path: string, options: Omit<RequestOptions, 'method'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'DELETE' });
+  }
+
+  /**
+   * Perform a prepared request once, without interceptors.
+   * Exposed so error interceptors can replay a request.
+   */
+  async dispatch(request: HttpRequest): Promise<Response> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = request.timeout > 0
+        ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+        : undefined;
+
+    const onAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    } else {
+      request.signal?.addEventListener('abort', onAbort);
+    }
+
+    const cleanup = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', onAbort);
+    };
+    const toApiError = (error: unknown) => {
+      if (timedOut) {
+        return new ApiError('Request timed out', { code: 'TIMEOUT' });
+      }
+      if (request.signal?.aborted) {
+        return new ApiError('Request was cancelled', { code: 'ABORTED' });
+      }
+      return ApiError.from(error);
+    };
+
+    let response: Response;
+    try {
+      response = request.onUploadProgress
+          ? await this.dispatchWithProgress(request, controller.signal)
+          : await fetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            signal: controller.signal,
+          });
+    } catch (error) {
+      cleanup();
+      throw toApiError(error);
+    }
+
+    return this.releaseWhenConsumed(response, cleanup, toApiError);
+  }
+
+  // fetch resolves once the headers arrive; keep the caller's signal and the timeout
+  // in force until the body has been read to the end, failed or been cancelled
+  private releaseWhenConsumed(
+      response: Response,
+      cleanup: () => void,
+      toApiError: (error: unknown) => ApiError
+  ): Response {
+    if (!response.body || [204, 205, 304].includes(response.status)) {
+      cleanup();
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            cleanup();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          cleanup();
+          controller.error(toApiError(error));
+        }
+      },
+      cancel(reason) {
+        cleanup();
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private prepare(path: string, options: RequestOptions): HttpRequest {
+    const headers = new Headers(options.headers);
+    let body: BodyInit | undefined;
+
+    if (options.body !== undefined && options.body !== null) {
+      if (
+          options.body instanceof FormData ||
+          options.body instanceof Blob ||
+          options.body instanceof URLSearchParams ||
+          typeof options.body === 'string'
+      ) {
+        body = options.body;
+      } else {
+        body = JSON.stringify(options.body);
+        if (!headers.has('Content-Type')) {
+          headers.set('Content-Type', 'application/json');
+        }
+      }
+    }
+
+    if (!headers.has('Accept')) {
+      headers.set('Accept', 'application/json');
+    }
+
+    return {
+      url: this.buildUrl(path, options.query),
+      method: (options.method || 'GET').toUpperCase(),
+      headers,
+      body,
+      auth: options.auth ?? true,
+      skipRefresh: options.skipRefresh ?? false,
+      timeout: options.timeout ?? this.defaultTimeout,
+      signal: options.signal,
+      onUploadProgress: options.onUploadProgress,
+    };
+  }
+
+  // fetch cannot report upload progress, so uploads with a progress callback go through XHR
+  private dispatchWithProgress(request: HttpRequest, signal: AbortSignal): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+
+      xhr.upload.addEventListener('progress', (event) => {
+        if (event.lengthComputable) {
+          request.onUploadProgress?.((event.loaded / event.total) * 100);
+        }
+      });
+
+      xhr.addEventListener('load', () => {
+        resolve(new Response(xhr.status === 204 ? null : xhr.responseText, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+        }));
+      });
+      xhr.addEventListener('error', () => reject(new ApiError('Network error occurred', { code: 'NETWORK_ERROR' })));
+      xhr.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+
+      signal.addEventListener('abort', () => xhr.abort());
+
+      xhr.open(request.method, request.url);
+      request.headers.forEach((value, key) => xhr.setRequestHeader(key, value));
+      xhr.send(request.body as XMLHttpRequestBodyInit | null | undefined);
+    });
+  }
+}
+
+// Helper function to get the stored auth token
+const getStoredToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem('auth_token');
+};
+
+// Attach the bearer token to every request that asks for auth
+const attachAuthToken: RequestInterceptor = (request) => {
+  if (request.auth && !request.headers.has('Authorization')) {
+    const token = getStoredToken();
+    if (token) {
+      request.headers.set('Authorization', `Bearer ${token}`);
+    }
+  }
+  return request;
+};
+
+// Export singleton instance shared by all API clients
+export const apiClient = new HttpClient();
+apiClient.interceptors.request.use(attachAuthToken);
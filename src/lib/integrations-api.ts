@@ -0,0 +1,106 @@
+import { apiClient, HttpClient } from './http-client';
+
+// Integration-related types
+export type IntegrationPlatform = 'whatsapp' | 'messenger' | 'telegram' | 'instagram' | 'website';
+
+export const INTEGRATION_PLATFORMS: IntegrationPlatform[] = ['whatsapp', 'messenger', 'telegram', 'instagram', 'website'];
+
+export type IntegrationHealth = 'healthy' | 'degraded' | 'error' | 'unknown';
+
+// Credentials each platform needs to connect. Secrets are write-only: the API never returns them.
+export interface IntegrationCredentials {
+  whatsapp: {
+    access_token: string;
+    phone_number_id: string;
+    business_account_id: string;
+  };
+  messenger: {
+    page_id: string;
+    page_access_token: string;
+    app_secret: string;
+  };
+  telegram: {
+    bot_token: string;
+  };
+  instagram: {
+    instagram_account_id: string;
+    access_token: string;
+  };
+  website: {
+    allowed_domains?: string;
+  };
+}
+
+export interface Integration {
+  platform: IntegrationPlatform;
+  connected: boolean;
+  health: IntegrationHealth;
+  // Account the integration is connected to, e.g. a phone number, page name or bot username
+  account_name?: string;
+  // Non-secret settings, e.g. phone_number_id or allowed_domains
+  settings?: Record<string, string>;
+  connected_at?: string;
+  last_checked_at?: string;
+  last_error?: string;
+}
+
+export interface IntegrationListResponse {
+  success: boolean;
+  integrations: Integration[];
+}
+
+export interface IntegrationResponse {
+  success: boolean;
+  message: string;
+  integration: Integration;
+}
+
+export interface IntegrationTestResponse {
+  success: boolean;
+  message: string;
+  health: IntegrationHealth;
+  latency_ms?: number;
+}
+
+export class IntegrationsAPI {
+  private http: HttpClient;
+
+  constructor(http: HttpClient = apiClient) {
+    this.http = http;
+  }
+
+  /**
+   * List the connection status of every platform for a business
+   */
+  async listIntegrations(businessId: string): Promise<IntegrationListResponse> {
+    return this.http.get<IntegrationListResponse>(`/businesses/${businessId}/integrations`);
+  }
+
+  /**
+   * Connect a platform (or update its credentials if already connected)
+   */
+  async connectIntegration<P extends IntegrationPlatform>(
+    businessId: string,
+    platform: P,
+    credentials: IntegrationCredentials[P]
+  ): Promise<IntegrationResponse> {
+    return this.http.post<IntegrationResponse>(`/businesses/${businessId}/integrations/${platform}/connect`, credentials);
+  }
+
+  /**
+   * Disconnect a platform and discard its stored credentials
+   */
+  async disconnectIntegration(businessId: string, platform: IntegrationPlatform): Promise<IntegrationResponse> {
+    return this.http.delete<IntegrationResponse>(`/businesses/${businessId}/integrations/${platform}`);
+  }
+
+  /**
+   * Check that a connected platform is reachable with the stored credentials
+   */
+  async testIntegration(businessId: string, platform: IntegrationPlatform): Promise<IntegrationTestResponse> {
+    return this.http.post<IntegrationTestResponse>(`/businesses/${businessId}/integrations/${platform}/test`);
+  }
+}
+
+// Export singleton instance
+export const integrationsAPI = new IntegrationsAPI();
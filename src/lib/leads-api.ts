@@ -0,0 +1,130 @@
+import { apiClient, HttpClient } from './http-client';
+
+// Lead-related types
+export type LeadStatus = 'new' | 'contacted' | 'qualified' | 'won' | 'lost';
+
+export const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'qualified', 'won', 'lost'];
+
+export interface Lead {
+  id: string;
+  business_id: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  status: LeadStatus;
+  notes?: string;
+  source_conversation_id?: string;
+  source_channel?: string;
+  customer_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Lead left by a visitor on a public chat surface (dashboard chat, website widget).
+// Identified by namespace rather than business id, so no dashboard session is needed.
+export interface PublicLeadCreate {
+  business_namespace: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  source_conversation_id?: string;
+  source_channel?: string;
+}
+
+export interface PublicLeadResponse {
+  success: boolean;
+  message?: string;
+  lead_id?: string;
+}
+
+export interface LeadUpdate {
+  name?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  status?: LeadStatus;
+  notes?: string;
+}
+
+export interface LeadListFilters {
+  status?: LeadStatus;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LeadResponse {
+  success: boolean;
+  message: string;
+  lead: Lead;
+}
+
+export interface LeadListResponse {
+  success: boolean;
+  leads: Lead[];
+  total: number;
+  status_counts?: Partial<Record<LeadStatus, number>>;
+}
+
+export class LeadsAPI {
+  private http: HttpClient;
+
+  constructor(http: HttpClient = apiClient) {
+    this.http = http;
+  }
+
+  /**
+   * List leads captured for a business
+   */
+  async listLeads(businessId: string, filters: LeadListFilters = {}, signal?: AbortSignal): Promise<LeadListResponse> {
+    return this.http.get<LeadListResponse>(`/businesses/${businessId}/leads`, {
+      query: { limit: 100, offset: 0, ...filters },
+      signal,
+    });
+  }
+
+  /**
+   * Fetch every lead matching the filters, one page at a time (e.g. for exports)
+   */
+  async listAllLeads(businessId: string, filters: Omit<LeadListFilters, 'limit' | 'offset'> = {}): Promise<Lead[]> {
+    const pageSize = 100;
+    const leads: Lead[] = [];
+    let total = Infinity;
+
+    while (leads.length < total) {
+      const response = await this.listLeads(businessId, { ...filters, limit: pageSize, offset: leads.length });
+      leads.push(...response.leads);
+      total = response.total;
+      // Guard against a server that reports more leads than it returns
+      if (response.leads.length === 0) break;
+    }
+    return leads;
+  }
+
+  /**
+   * Capture a lead through the public endpoint, e.g. from an offline contact form.
+   * The website widget posts the same payload to the same endpoint.
+   */
+  async captureLead(lead: PublicLeadCreate): Promise<PublicLeadResponse> {
+    return this.http.post<PublicLeadResponse>('/api/v1/chatbot/leads', lead);
+  }
+
+  /**
+   * Update a lead's details, pipeline status or notes
+   */
+  async updateLead(businessId: string, leadId: string, update: LeadUpdate): Promise<LeadResponse> {
+    return this.http.patch<LeadResponse>(`/businesses/${businessId}/leads/${leadId}`, update);
+  }
+
+  /**
+   * Delete a lead
+   */
+  async deleteLead(businessId: string, leadId: string): Promise<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`/businesses/${businessId}/leads/${leadId}`);
+  }
+}
+
+// Export singleton instance
+export const leadsAPI = new LeadsAPI();
@@ -0,0 +1,101 @@
+import { businessAPI, Business, BusinessHours } from './business-api';
+import type { BusinessFormData } from './business-schemas';
+
+// Guided setup: what is done is stored on the business (settings.onboarding) so the
+// dashboard checklist works across devices; unfinished form input is kept in a local draft.
+
+export type OnboardingStep = 'business' | 'hours' | 'document' | 'bot' | 'test_chat';
+
+export const ONBOARDING_STEPS: { key: OnboardingStep; label: string; description: string; href: string }[] = [
+  { key: 'business', label: 'Create your business', description: 'Name, industry and description', href: '/dashboard/settings' },
+  { key: 'hours', label: 'Set business hours', description: 'Timezone and opening hours for offline mode', href: '/dashboard/settings' },
+  { key: 'document', label: 'Upload a document', description: 'Give the bot something to answer from', href: '/dashboard/documents' },
+  { key: 'bot', label: 'Name your bot', description: 'Bot name and greeting message', href: '/dashboard/bot' },
+  { key: 'test_chat', label: 'Send a test message', description: 'Check the answers before going live', href: '/dashboard/chat' },
+];
+
+export interface OnboardingProgress {
+  completed_steps: OnboardingStep[];
+  completed_at?: string;
+  dismissed?: boolean;
+}
+
+export interface OnboardingDraft {
+  step: number;
+  values: Partial<BusinessFormData>;
+  business_hours: BusinessHours;
+  // Set once the business has been created, later steps work against it
+  business?: Pick<Business, 'id' | 'name' | 'namespace'>;
+  bot_name?: string;
+  greeting_message?: string;
+  updated_at: string;
+}
+
+const DRAFT_KEY_PREFIX = 'onboarding_draft_';
+
+const isOnboardingStep = (value: unknown): value is OnboardingStep =>
+  ONBOARDING_STEPS.some(step => step.key === value);
+
+/**
+ * Read onboarding progress from business settings
+ */
+export const getOnboardingProgress = (business: Pick<Business, 'settings'> | null | undefined): OnboardingProgress => {
+  const raw = business?.settings?.onboarding as Partial<OnboardingProgress> | undefined;
+  return {
+    completed_steps: Array.isArray(raw?.completed_steps) ? raw.completed_steps.filter(isOnboardingStep) : [],
+    completed_at: raw?.completed_at,
+    dismissed: !!raw?.dismissed,
+  };
+};
+
+/**
+ * Persist onboarding progress changes and return the updated business
+ */
+export const updateOnboardingProgress = async (
+  business: Pick<Business, 'id' | 'settings'>,
+  changes: Partial<OnboardingProgress>
+): Promise<Business> => {
+  const progress = { ...getOnboardingProgress(business), ...changes };
+  const response = await businessAPI.updateBusiness(business.id, {
+    settings: { ...business.settings, onboarding: progress },
+  });
+
+  if (!response.business) {
+    throw new Error(response.message || 'Failed to save setup progress');
+  }
+  return response.business;
+};
+
+/**
+ * Mark setup steps as done; returns null when nothing changed
+ */
+export const completeOnboardingSteps = async (
+  business: Pick<Business, 'id' | 'settings'>,
+  steps: OnboardingStep[]
+): Promise<Business | null> => {
+  const { completed_steps } = getOnboardingProgress(business);
+  const missing = steps.filter(step => !completed_steps.includes(step));
+  if (missing.length === 0) return null;
+
+  return updateOnboardingProgress(business, { completed_steps: [...completed_steps, ...missing] });
+};
+
+export const loadOnboardingDraft = (userId: string): OnboardingDraft | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY_PREFIX + userId);
+    return stored ? (JSON.parse(stored) as OnboardingDraft) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveOnboardingDraft = (userId: string, draft: Omit<OnboardingDraft, 'updated_at'>) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(DRAFT_KEY_PREFIX + userId, JSON.stringify({ ...draft, updated_at: new Date().toISOString() }));
+};
+
+export const clearOnboardingDraft = (userId: string) => {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(DRAFT_KEY_PREFIX + userId);
+};
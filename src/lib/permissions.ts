@@ -0,0 +1,58 @@
+import type { BusinessMembershipInfo, BusinessRole } from './business-api';
+
+// Permission strings as stored on BusinessMembershipInfo.permissions
+
+export type Permission =
+  | 'documents:upload'
+  | 'documents:update'
+  | 'documents:delete'
+  | 'bot:update'
+  | 'integrations:manage'
+  | 'team:manage'
+  | 'business:update'
+  | 'business:delete';
+
+// Wildcard entry granting every permission
+const ALL_PERMISSIONS = '*';
+
+// What each role can do when the membership carries no explicit permission list
+export const ROLE_PERMISSIONS: Record<BusinessRole, Permission[]> = {
+  owner: [
+    'documents:upload',
+    'documents:update',
+    'documents:delete',
+    'bot:update',
+    'integrations:manage',
+    'team:manage',
+    'business:update',
+    'business:delete',
+  ],
+  admin: [
+    'documents:upload',
+    'documents:update',
+    'documents:delete',
+    'bot:update',
+    'integrations:manage',
+    'team:manage',
+    'business:update',
+  ],
+  member: [],
+};
+
+/**
+ * Check a membership for a permission. Owners can always do everything;
+ * otherwise explicit permissions win over the role defaults.
+ */
+export const hasPermission = (
+  membership: Pick<BusinessMembershipInfo, 'role' | 'permissions'> | null | undefined,
+  permission: Permission
+): boolean => {
+  if (!membership) return false;
+  if (membership.role === 'owner') return true;
+
+  if (membership.permissions && membership.permissions.length > 0) {
+    return membership.permissions.includes(ALL_PERMISSIONS) || membership.permissions.includes(permission);
+  }
+
+  return ROLE_PERMISSIONS[membership.role].includes(permission);
+};
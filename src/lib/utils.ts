@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Page numbers for a pager: first, last and the current page's neighbours, with null marking a gap
+export function getPageNumbers(current: number, total: number): (number | null)[] {
+  if (total <= 7) return Array.from({ length: total }, (_, i) => i + 1)
+
+  const pages = new Set([1, total, current - 1, current, current + 1])
+  const sorted = Array.from(pages).filter(page => page >= 1 && page <= total).sort((a, b) => a - b)
+  return sorted.flatMap((page, i) => (i > 0 && page - sorted[i - 1] > 1 ? [null, page] : [page]))
+}